@@ -3,18 +3,45 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { generateCompositeImage, removeBackground, inpaintImage, removeBackgroundWithMask } from './services/geminiService';
-import { Product, Edits, ImageUploaderRef } from './components/types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  generateCompositeImage, removeBackground, inpaintImage, removeBackgroundWithMask, getUserMessage,
+  estimateCompositeCost, estimateImageEditCost, estimateDescriptionCost, describePlacement, CompositeObject, CompositeProgressEvent, MAX_VARIANT_COUNT,
+  PlacementCheckMode, FidelityCheckMode, DEFAULT_COMPOSITE_OPTIONS, getCompositeRegion,
+} from './services/geminiService';
+import { SceneRegion } from './services/regionCompositing';
+import {
+  UsageRecord, BudgetSettings, getUsageRecords, clearUsageRecords, subscribeToUsage, getBudgetSettings, setBudgetSettings,
+  checkBudget, summarizeUsage, toDayKey,
+} from './services/usageTracker';
+import { isMockModeEnabled, isAbortError, isProxyBuild } from './services/imageProvider';
+import { AppSettings, getSettings, saveSettings, subscribeToSettings } from './services/settings';
+import { getModelCalls, clearModelCalls, subscribeToModelCalls } from './services/requestInspector';
+import { getPromptTemplates, getPromptVersions, loadPromptTemplates, recordPromptComparison } from './services/promptTemplates';
+import { getFidelityWarning } from './services/productFidelity';
+import {
+  ProjectRecord, ProjectSummary, createProjectId, createHistoryEntryId, saveProject, loadProject, listProjects,
+  deleteProject, duplicateProject, renameProject, getLastProjectId, setLastProjectId,
+} from './services/projectStore';
+import { exportProjectArchive, importProjectArchive, ARCHIVE_FILE_EXTENSION } from './services/projectArchive';
+import { Product, LibraryProduct, PlacedProduct, PlacementDescription, PlacementRecord, HistoryEntryMeta, Edits, ImageUploaderRef, ModelCallRecord } from './components/types';
 import Header from './components/Header';
 import ImageUploader from './components/ImageUploader';
-import ObjectCard from './components/ObjectCard';
-import Spinner from './components/Spinner';
-import DebugModal from './components/DebugModal';
+import DebugModal, { PromptPlayground } from './components/DebugModal';
 import TouchGhost from './components/TouchGhost';
 import ImageEditorControls from './components/ImageEditorControls';
 import BackgroundRemovalModal from './components/BackgroundRemovalModal';
 import PlacementControls from './components/PlacementControls';
+import ProductSelector from './components/ProductSelector';
+import AddProductModal from './components/AddProductModal';
+import ProjectListModal from './components/ProjectListModal';
+import HistoryTree from './components/HistoryTree';
+import VariantPicker from './components/VariantPicker';
+import GenerationProgress, { ProgressStep } from './components/GenerationProgress';
+import ErrorBanner from './components/ErrorBanner';
+import UsagePanel from './components/UsagePanel';
+import SettingsPanel from './components/SettingsPanel';
+import RequestInspector from './components/RequestInspector';
 
 // Pre-load a transparent image to use for hiding the default drag ghost.
 // This prevents a race condition on the first drag.
@@ -38,30 +65,63 @@ const dataURLtoFile = (dataurl: string, filename: string): File => {
     return new File([u8arr], filename, {type:mime});
 }
 
-const loadingMessages = [
-    "Analyzing your product...",
-    "Surveying the scene...",
-    "Describing placement location with AI...",
-    "Crafting the perfect composition prompt...",
-    "Generating photorealistic options...",
-    "Assembling the final scene..."
-];
-
-type HistoryEntry = {
+type HistoryEntry = HistoryEntryMeta & {
   file: File;
   url: string;
   debugImageUrl: string | null;
   debugPrompt: string | null;
 };
 
-interface PlacedProduct {
-  source: 'product1' | 'product2';
-  imageUrl: string;
-  xPercent: number;
-  yPercent: number;
-  scale: number;
+// A failure shown inline next to the part of the workspace it came from. `retry` reruns the failed operation with the same inputs.
+type ErrorScope = 'scene' | 'products' | 'project';
+
+interface OperationError {
+  id: number;
+  scope: ErrorScope;
+  message: string;
+  retry?: () => void;
+}
+
+let nextErrorId = 0;
+
+const toPlacementRecord = ({ productId, xPercent, yPercent, scale }: PlacedProduct): PlacementRecord => ({ productId, xPercent, yPercent, scale });
+
+// Product ids only need to be unique within the library; seeding from the clock keeps
+// them distinct across resets while the increment avoids collisions on batch uploads.
+let nextProductId = Date.now();
+const createProductId = () => nextProductId++;
+
+let nextPlacementId = 1;
+const createPlacementId = () => nextPlacementId++;
+
+// How long to wait after the last change before writing the project to IndexedDB
+const AUTOSAVE_DELAY_MS = 500;
+// How long a staged product must stay put before its location is described
+const DESCRIBE_DELAY_MS = 600;
+
+// Helper to tell whether a staged product's description was written for its spot on the current scene and region
+const isDescriptionCurrent = (
+  description: PlacementDescription | undefined,
+  placement: PlacedProduct,
+  sceneEntryId: string | null,
+  region: SceneRegion | null
+): boolean =>
+  !!description && description.sceneEntryId === sceneEntryId
+  && description.xPercent === placement.xPercent && description.yPercent === placement.yPercent
+  && JSON.stringify(description.region) === JSON.stringify(region);
+
+interface ProjectMeta {
+  id: string;
+  name: string;
+  createdAt: number;
 }
 
+const createProjectMeta = (): ProjectMeta => ({
+  id: createProjectId(),
+  name: `Project ${new Date().toLocaleString()}`,
+  createdAt: Date.now(),
+});
+
 // Helper for image sharpening via convolution matrix on a canvas
 const applySharpen = (ctx: CanvasRenderingContext2D, width: number, height: number, amount: number) => {
     if (amount <= 0) return;
@@ -166,21 +226,24 @@ const applyEditsToImageFile = async (file: File, edits: Edits): Promise<File> =>
 };
 
 const App: React.FC = () => {
-  const [product1, setProduct1] = useState<Product | null>(null);
-  const [product1File, setProduct1File] = useState<File | null>(null);
-  const [product2, setProduct2] = useState<Product | null>(null);
-  const [product2File, setProduct2File] = useState<File | null>(null);
-  const [selectedProductSource, setSelectedProductSource] = useState<'product1' | 'product2' | null>(null);
+  // The product library, in tray order
+  const [products, setProducts] = useState<LibraryProduct[]>([]);
+  const [selectedProductId, setSelectedProductId] = useState<number | null>(null);
+  const [isAddProductModalOpen, setIsAddProductModalOpen] = useState(false);
 
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
-  const [loadingMessageIndex, setLoadingMessageIndex] = useState(0);
+  // At most one error per scope; failures never touch the session itself
+  const [errors, setErrors] = useState<OperationError[]>([]);
+  // What the running scene operation is doing; composites fill in their pipeline steps as they go
+  const [progress, setProgress] = useState<{ message: string; startedAt: number; steps: ProgressStep[]; } | null>(null);
   const [isDebugModalOpen, setIsDebugModalOpen] = useState(false);
-  const [isRemovingBackground, setIsRemovingBackground] = useState<'product1' | 'product2' | null>(null);
+  const [isRemovingBackground, setIsRemovingBackground] = useState<number | null>(null);
 
   // State for scene history (undo/redo)
+  // Every scene version ever produced, in creation order. Entries link to their parent to form a tree.
   const [sceneHistory, setSceneHistory] = useState<HistoryEntry[]>([]);
-  const [historyIndex, setHistoryIndex] = useState<number>(-1);
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+  const [compareEntryId, setCompareEntryId] = useState<string | null>(null);
   
   // State for image editing preview
   const [imageEdits, setImageEdits] = useState<Edits>({
@@ -197,7 +260,7 @@ const App: React.FC = () => {
   const [brushSize, setBrushSize] = useState(40);
 
   // State for manual background removal modal
-  const [productForBgRemoval, setProductForBgRemoval] = useState<'product1' | 'product2' | null>(null);
+  const [productForBgRemoval, setProductForBgRemoval] = useState<number | null>(null);
   const [isProcessingManualBg, setIsProcessingManualBg] = useState(false);
 
   // State for touch drag & drop
@@ -208,65 +271,256 @@ const App: React.FC = () => {
   const [touchOrbPosition, setTouchOrbPosition] = useState<{x: number, y: number} | null>(null);
   const sceneUploaderRef = useRef<ImageUploaderRef>(null);
   
-  // State for placed product preview
-  const [placedProduct, setPlacedProduct] = useState<PlacedProduct | null>(null);
+  // State for placed product previews staged for the next generation
+  const [placedProducts, setPlacedProducts] = useState<PlacedProduct[]>([]);
+  const [activePlacementId, setActivePlacementId] = useState<number | null>(null);
+  // Location descriptions of the staged placements, by placement id, and the requests still writing them
+  const [placementDescriptions, setPlacementDescriptions] = useState<Record<number, PlacementDescription>>({});
+  const describeControllersRef = useRef(new Map<number, AbortController>());
+
+  // State for multi-variant generation. Candidates wait here until one is picked.
+  const [variantCount, setVariantCount] = useState(1);
+  const [varyPhrasing, setVaryPhrasing] = useState(false);
+  // Two composite template versions to run side by side on the next generation, or null for a normal run
+  const [comparedComposeVersions, setComparedComposeVersions] = useState<[string, string] | null>(null);
+  const [highResolution, setHighResolution] = useState(false);
+  const [preserveUnchangedPixels, setPreserveUnchangedPixels] = useState(true);
+  const [placementCheck, setPlacementCheck] = useState<PlacementCheckMode>(DEFAULT_COMPOSITE_OPTIONS.placementCheck);
+  const [fidelityCheck, setFidelityCheck] = useState<FidelityCheckMode>(DEFAULT_COMPOSITE_OPTIONS.fidelityCheck);
+  const [pendingVariants, setPendingVariants] = useState<{ entries: HistoryEntry[]; requestedCount: number; isComparison: boolean; } | null>(null);
+
+  // When set, every model call skips the response cache and produces a fresh result
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+
+  // Recorded model usage and the daily budget, kept in sync with the usage tracker
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(getUsageRecords);
+  const [budget, setBudget] = useState<BudgetSettings>(getBudgetSettings);
+  const [isUsagePanelOpen, setIsUsagePanelOpen] = useState(false);
+  // Model backend settings, kept in sync with the settings store
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
+  const [isSettingsPanelOpen, setIsSettingsPanelOpen] = useState(false);
+  // Every model call of the session, and which calls the request inspector is showing
+  const [modelCalls, setModelCalls] = useState<ModelCallRecord[]>(getModelCalls);
+  const [inspectorTarget, setInspectorTarget] = useState<{ kind: 'session' } | { kind: 'product'; productId: number } | null>(null);
+
+  // State for project persistence
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta>(createProjectMeta);
+  const [isProjectReady, setIsProjectReady] = useState(false);
+  const [isProjectListOpen, setIsProjectListOpen] = useState(false);
+  const [projectSummaries, setProjectSummaries] = useState<ProjectSummary[]>([]);
+  // Set while a stored project is being applied so the scene-change effect doesn't discard restored state
+  const isRestoringProjectRef = useRef(false);
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+
+  // Abort controllers for the running scene operation (composite, edits, inpainting) and background removal
+  const sceneOperationRef = useRef<AbortController | null>(null);
+  const backgroundRemovalRef = useRef<AbortController | null>(null);
 
   // --- Derived State ---
-  const currentHistoryEntry = sceneHistory[historyIndex] ?? null;
+  const currentHistoryEntry = sceneHistory.find(entry => entry.id === currentEntryId) ?? null;
   const sceneImage = currentHistoryEntry?.file ?? null;
   const sceneImageUrl = currentHistoryEntry?.url ?? null;
   const debugImageUrl = currentHistoryEntry?.debugImageUrl ?? null;
   const debugPrompt = currentHistoryEntry?.debugPrompt ?? null;
+  const debugTimings = currentHistoryEntry?.timings ?? [];
+  const debugCalls = currentHistoryEntry?.calls ?? [];
+
+  const selectedProduct = products.find(p => p.id === selectedProductId) ?? null;
+  const productForBgRemovalFile = products.find(p => p.id === productForBgRemoval)?.file ?? null;
+  const hasPlacements = placedProducts.length > 0;
+  const isPickingVariant = pendingVariants !== null;
+  const activePlacement = placedProducts.find(p => p.id === activePlacementId) ?? placedProducts[placedProducts.length - 1] ?? null;
+
+  // The scene's pixel size decides the high-resolution region, which staged descriptions must be written for
+  const [sceneSize, setSceneSize] = useState<{ width: number; height: number; } | null>(null);
+  useEffect(() => {
+    setSceneSize(null);
+    if (!sceneImageUrl) return;
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (!cancelled) setSceneSize({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.src = sceneImageUrl;
+    return () => {
+      cancelled = true;
+    };
+  }, [sceneImageUrl]);
+  const describeRegion = useMemo(
+    () => sceneSize ? getCompositeRegion(sceneSize.width, sceneSize.height, placedProducts, highResolution) : null,
+    // The region also depends on the working resolution in the settings
+    [sceneSize, placedProducts, highResolution, settings.workingResolution]
+  );
+  const parentEntryId = currentHistoryEntry?.parentId ?? null;
+  // Redo follows the most recently created branch
+  const latestChildEntryId = currentHistoryEntry
+    ? [...sceneHistory].reverse().find(entry => entry.parentId === currentHistoryEntry.id)?.id ?? null
+    : null;
+
+  // Starts a cancellable operation tracked by the given ref, aborting any operation it replaces
+  const beginOperation = useCallback((ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    const controller = new AbortController();
+    ref.current = controller;
+    return controller;
+  }, []);
+
+  const endOperation = useCallback((ref: React.MutableRefObject<AbortController | null>, controller: AbortController) => {
+    if (ref.current === controller) ref.current = null;
+  }, []);
+
+  useEffect(() => subscribeToUsage(() => {
+    setUsageRecords(getUsageRecords());
+    setBudget(getBudgetSettings());
+  }), []);
+
+  useEffect(() => subscribeToSettings(() => setSettings(getSettings())), []);
+
+  useEffect(() => subscribeToModelCalls(() => setModelCalls(getModelCalls())), []);
+
+  // Composite prompt versions offered for A/B comparisons; an external template file may add more once loaded
+  const [composeVersions, setComposeVersions] = useState(() => getPromptTemplates('compose').map(t => t.version));
+  useEffect(() => {
+    loadPromptTemplates().then(() => setComposeVersions(getPromptTemplates('compose').map(t => t.version)));
+  }, []);
+
+  const inspectedProduct = inspectorTarget?.kind === 'product'
+    ? products.find(p => p.id === inspectorTarget.productId) ?? null
+    : null;
+  const inspectableProductIds = useMemo(() => products.filter(p => p.calls.length > 0).map(p => p.id), [products]);
+
+  // A composite can be re-run from the debug view while its scene is in the history and its products are in the library
+  const promptPlayground = useMemo((): PromptPlayground | null => {
+    if (currentHistoryEntry?.operation !== 'compose' || currentHistoryEntry.placements.length === 0) return null;
+    if (!sceneHistory.some(entry => entry.id === currentHistoryEntry.parentId)) return null;
+    const placedNames = currentHistoryEntry.placements.map(placement => products.find(p => p.id === placement.productId)?.name);
+    if (placedNames.some(name => name === undefined)) return null;
+    return {
+      products: currentHistoryEntry.placements.map((placement, index) => ({ name: placedNames[index]!, scale: placement.scale })),
+      locationDescriptions: currentHistoryEntry.locationDescriptions,
+      composeVersion: currentHistoryEntry.promptVersions.compose ?? null,
+    };
+  }, [currentHistoryEntry, sceneHistory, products]);
+
+  const todaysSpend = useMemo(() => {
+    const today = toDayKey(Date.now());
+    return summarizeUsage(usageRecords.filter(record => toDayKey(record.timestamp) === today)).costUsd;
+  }, [usageRecords]);
+
+  const handleCancelSceneOperation = useCallback(() => {
+    sceneOperationRef.current?.abort();
+  }, []);
+
+  const handleCancelBackgroundRemoval = useCallback(() => {
+    backgroundRemovalRef.current?.abort();
+  }, []);
+
+  // Adds a new scene version as a child of the current one (or as a new root) and makes it current.
+  // Nothing is pruned: the previous version and its other branches stay reachable from the history panel.
+  const addHistoryEntry = useCallback((entry: HistoryEntry) => {
+    setSceneHistory(prev => [...prev, entry]);
+    setCurrentEntryId(entry.id);
+  }, []);
+
+  const reportError = useCallback((scope: ErrorScope, message: string, retry?: () => void) => {
+    const error: OperationError = { id: nextErrorId++, scope, message, retry };
+    setErrors(prev => [...prev.filter(e => e.scope !== scope), error]);
+  }, []);
 
-  const selectedProduct = selectedProductSource === 'product1' ? product1 : selectedProductSource === 'product2' ? product2 : null;
+  const clearErrors = useCallback((scope: ErrorScope) => {
+    setErrors(prev => prev.some(e => e.scope === scope) ? prev.filter(e => e.scope !== scope) : prev);
+  }, []);
+
+  const dismissError = useCallback((id: number) => {
+    setErrors(prev => prev.filter(e => e.id !== id));
+  }, []);
+
+  // Checks an operation's estimated cost against today's budget: over the soft cap asks first, over the hard cap blocks.
+  const confirmWithinBudget = useCallback((scope: ErrorScope, estimatedUsd: number): boolean => {
+    const check = checkBudget(estimatedUsd);
+    if (check.status === 'ok') return true;
+    const summary = `Today's estimated spend is $${check.spentUsd.toFixed(2)} and this operation adds up to $${check.estimatedUsd.toFixed(2)}, which would pass the $${check.limitUsd.toFixed(2)} daily`;
+    if (check.status === 'block') {
+      reportError(scope, `${summary} hard cap. Raise the cap under Usage to continue.`);
+      return false;
+    }
+    return window.confirm(`${summary} soft cap. Continue anyway?`);
+  }, [reportError]);
   
-  const handleProductImageUpload = useCallback((file: File, productSlot: 'product1' | 'product2') => {
-    setError(null);
+  const handleAddProduct = useCallback((file: File) => {
+    clearErrors('products');
     try {
-        const imageUrl = URL.createObjectURL(file);
-        const product: Product = {
-            id: Date.now(),
+        const product: LibraryProduct = {
+            id: createProductId(),
             name: file.name,
-            imageUrl: imageUrl,
+            imageUrl: URL.createObjectURL(file),
+            file,
+            calls: [],
         };
-        
-        if (productSlot === 'product1') {
-            if (product1?.imageUrl) URL.revokeObjectURL(product1.imageUrl);
-            setProduct1(product);
-            setProduct1File(file);
-            setSelectedProductSource('product1');
-        } else {
-            if (product2?.imageUrl) URL.revokeObjectURL(product2.imageUrl);
-            setProduct2(product);
-            setProduct2File(file);
-            setSelectedProductSource('product2');
-        }
-
+        setProducts(prev => [...prev, product]);
+        setSelectedProductId(product.id);
+        setIsAddProductModalOpen(false);
     } catch(err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Could not load the product image. Details: ${errorMessage}`);
+      reportError('products', `Could not load the product image. Details: ${errorMessage}`);
       console.error(err);
     }
-  }, [product1, product2]);
+  }, [clearErrors, reportError]);
+
+  const handleRemoveProduct = useCallback((product: Product) => {
+    URL.revokeObjectURL(product.imageUrl);
+    const remaining = products.filter(p => p.id !== product.id);
+    setProducts(remaining);
+    if (selectedProductId === product.id) {
+        setSelectedProductId(remaining[0]?.id ?? null);
+    }
+    setPlacedProducts(prev => prev.filter(p => p.productId !== product.id));
+  }, [products, selectedProductId]);
+
+  const handleMoveProduct = useCallback((product: Product, direction: 'left' | 'right') => {
+    setProducts(prev => {
+        const index = prev.findIndex(p => p.id === product.id);
+        const targetIndex = direction === 'left' ? index - 1 : index + 1;
+        if (index < 0 || targetIndex < 0 || targetIndex >= prev.length) return prev;
+        const reordered = [...prev];
+        [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+        return reordered;
+    });
+  }, []);
 
-  const handleInitialProductUpload = useCallback((file: File) => {
-    handleProductImageUpload(file, 'product1');
-  }, [handleProductImageUpload]);
+  // Swaps a product's image for a processed version (e.g. after background removal), with the model calls that made it
+  // Object URLs of replaced product images, revoked once the products that replaced them have rendered
+  const replacedProductUrlsRef = useRef<string[]>([]);
+  useEffect(() => {
+    replacedProductUrlsRef.current.forEach(url => URL.revokeObjectURL(url));
+    replacedProductUrlsRef.current = [];
+  }, [products]);
+
+  const replaceProductFile = useCallback((productId: number, newFile: File, calls: ModelCallRecord[]) => {
+    const previous = products.find(p => p.id === productId);
+    if (!previous) return;
+    // The URL is made here rather than in the updater, which StrictMode runs twice
+    const imageUrl = URL.createObjectURL(newFile);
+    replacedProductUrlsRef.current.push(previous.imageUrl);
+    setProducts(prev => prev.map(p => p.id === productId ? { ...p, file: newFile, imageUrl, calls } : p));
+  }, [products]);
   
   const setInitialScene = useCallback((file: File) => {
-    // Clean up any existing history before starting a new one
-    sceneHistory.forEach(entry => URL.revokeObjectURL(entry.url));
-    
+    // A newly uploaded scene starts a new root in the history tree; earlier scenes stay available.
     const url = URL.createObjectURL(file);
-    const newEntry: HistoryEntry = { file, url, debugImageUrl: null, debugPrompt: null };
+    const newEntry: HistoryEntry = {
+        id: createHistoryEntryId(), parentId: null,
+        file, url, debugImageUrl: null, debugPrompt: null,
+        operation: 'upload', createdAt: Date.now(), placements: [], edits: null, timings: [], calls: [],
+        locationDescriptions: [], promptEdit: null, promptVersions: {}, fidelity: null,
+    };
     
-    setSceneHistory([newEntry]);
-    setHistoryIndex(0);
-    setPlacedProduct(null);
-  }, [sceneHistory]);
+    addHistoryEntry(newEntry);
+    setPlacedProducts([]);
+  }, [addHistoryEntry]);
 
   const handleInstantStart = useCallback(async () => {
-    setError(null);
+    clearErrors('project');
     try {
       // Fetch the default images
       const [objectResponse, sceneResponse] = await Promise.all([
@@ -289,235 +543,510 @@ const App: React.FC = () => {
 
       // Update state with the new files
       setInitialScene(sceneFile);
-      handleProductImageUpload(objectFile, 'product1');
+      handleAddProduct(objectFile);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Could not load default images. Details: ${errorMessage}`);
+      reportError('project', `Could not load default images. Details: ${errorMessage}`, handleInstantStart);
       console.error(err);
     }
-  }, [handleProductImageUpload, setInitialScene]);
+  }, [handleAddProduct, setInitialScene, clearErrors, reportError]);
 
   const handleProductDrop = useCallback((_position: {x: number, y: number}, relativePosition: { xPercent: number; yPercent: number; }) => {
-    if (!selectedProductSource || !selectedProduct) return;
+    if (!selectedProduct) return;
     
-    setPlacedProduct({
-        source: selectedProductSource,
+    const placement: PlacedProduct = {
+        id: createPlacementId(),
+        productId: selectedProduct.id,
         imageUrl: selectedProduct.imageUrl,
         xPercent: relativePosition.xPercent,
         yPercent: relativePosition.yPercent,
         scale: 1.0,
-    });
-    setError(null);
+    };
+    setPlacedProducts(prev => [...prev, placement]);
+    setActivePlacementId(placement.id);
+    // A failed generation's Retry would ignore the new placement, so its error no longer applies
+    clearErrors('scene');
     setIsLoading(false);
-  }, [selectedProduct, selectedProductSource]);
+  }, [selectedProduct, clearErrors]);
 
-  const handleUpdatePlacedProduct = useCallback((update: Partial<Omit<PlacedProduct, 'source' | 'imageUrl'>>) => {
-    setPlacedProduct(prev => prev ? { ...prev, ...update } : null);
-  }, []);
+  const handleUpdatePlacedProduct = useCallback((id: number, update: Partial<Omit<PlacedProduct, 'id' | 'productId' | 'imageUrl'>>) => {
+    setPlacedProducts(prev => prev.map(p => p.id === id ? { ...p, ...update } : p));
+    clearErrors('scene');
+  }, [clearErrors]);
+
+  const handleRemovePlacedProduct = useCallback((id: number) => {
+    const remaining = placedProducts.filter(p => p.id !== id);
+    setPlacedProducts(remaining);
+    setActivePlacementId(remaining[remaining.length - 1]?.id ?? null);
+    clearErrors('scene');
+  }, [placedProducts, clearErrors]);
 
   const handleCancelPlacement = useCallback(() => {
-    setPlacedProduct(null);
+    setPlacedProducts([]);
+    clearErrors('scene');
+  }, [clearErrors]);
+
+  // Describes one staged placement's spot. A result only lands if the product hasn't moved since.
+  const describeStagedPlacement = useCallback(async (placement: PlacedProduct) => {
+    if (!sceneImage || !currentEntryId) return;
+    describeControllersRef.current.get(placement.id)?.abort();
+    const controller = new AbortController();
+    describeControllersRef.current.set(placement.id, controller);
+    const target = { sceneEntryId: currentEntryId, xPercent: placement.xPercent, yPercent: placement.yPercent, region: describeRegion };
+    const update = (description: Omit<PlacementDescription, keyof typeof target>) => setPlacementDescriptions(prev => {
+      if (!isDescriptionCurrent(prev[placement.id], placement, target.sceneEntryId, target.region)) return prev;
+      return { ...prev, [placement.id]: { ...target, ...description } };
+    });
+    setPlacementDescriptions(prev => ({ ...prev, [placement.id]: { ...target, status: 'describing', text: '', error: null, calls: [] } }));
+
+    try {
+      // Background work shouldn't interrupt with a prompt, so only the hard cap stops it
+      const budget = checkBudget(estimateDescriptionCost());
+      if (budget.status === 'block') {
+        update({ status: 'failed', text: '', error: `Today's $${budget.limitUsd.toFixed(2)} hard cap is reached.`, calls: [] });
+        return;
+      }
+      const calls: ModelCallRecord[] = [];
+      const text = await describePlacement(
+        sceneImage, { xPercent: placement.xPercent, yPercent: placement.yPercent }, describeRegion,
+        { signal: controller.signal, forceRegenerate, onModelCall: record => calls.push(record) }
+      );
+      update({ status: 'ready', text, error: null, calls });
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Failed to describe the placement:', err);
+      update({ status: 'failed', text: '', error: getUserMessage(err), calls: [] });
+    } finally {
+      if (describeControllersRef.current.get(placement.id) === controller) {
+        describeControllersRef.current.delete(placement.id);
+      }
+    }
+  }, [sceneImage, currentEntryId, describeRegion, forceRegenerate]);
+
+  const handleDescriptionChange = useCallback((placement: PlacedProduct, text: string) => {
+    if (!currentEntryId) return;
+    // Typing replaces whatever a running request would write
+    describeControllersRef.current.get(placement.id)?.abort();
+    setPlacementDescriptions(prev => ({
+      ...prev,
+      [placement.id]: {
+        sceneEntryId: currentEntryId, xPercent: placement.xPercent, yPercent: placement.yPercent, region: describeRegion, status: 'ready', text, error: null,
+        calls: [],
+      },
+    }));
+  }, [currentEntryId, describeRegion]);
+
+  const handleRetryDescription = useCallback((id: number) => {
+    // Without a description the placement counts as moved, so the effect below asks again
+    setPlacementDescriptions(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  // Describe each staged placement once it has stopped moving on the current scene. With high resolution on,
+  // moving or resizing any product changes the region sent to the model, so every description is written again.
+  useEffect(() => {
+    if (!sceneImage || !currentEntryId || !sceneSize || isLoading) return;
+    const stale = placedProducts.filter(placement => !isDescriptionCurrent(placementDescriptions[placement.id], placement, currentEntryId, describeRegion));
+    if (stale.length === 0) return;
+    const timer = window.setTimeout(() => stale.forEach(describeStagedPlacement), DESCRIBE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [placedProducts, placementDescriptions, sceneImage, currentEntryId, sceneSize, describeRegion, isLoading, describeStagedPlacement]);
+
+  // Forget the descriptions of placements that were removed, generated or cancelled
+  useEffect(() => {
+    const ids = new Set(placedProducts.map(placement => placement.id));
+    describeControllersRef.current.forEach((controller, id) => {
+      if (ids.has(id)) return;
+      controller.abort();
+      describeControllersRef.current.delete(id);
+    });
+    setPlacementDescriptions(prev => {
+      const kept = Object.entries(prev).filter(([id]) => ids.has(Number(id)));
+      return kept.length === Object.keys(prev).length ? prev : Object.fromEntries(kept);
+    });
+  }, [placedProducts]);
+
+  // Returns a listener that shows a composite's steps in the progress view
+  const createProgressHandler = useCallback((signal: AbortSignal) => (event: CompositeProgressEvent) => {
+    // A cancelled run may still report steps finishing; they no longer belong on screen
+    if (signal.aborted) return;
+    setProgress(prev => prev && {
+      ...prev,
+      steps: event.type === 'stage-start'
+        ? [...prev.steps, { stage: event.stage, variant: event.variant, startedAt: event.startedAt, durationMs: null }]
+        : prev.steps.map(step =>
+            step.stage === event.timing.stage && step.variant === event.timing.variant && step.startedAt === event.timing.startedAt
+              ? { ...step, durationMs: event.timing.durationMs }
+              : step
+          ),
+    });
   }, []);
 
   const handleConfirmPlacement = useCallback(async () => {
-    if (!placedProduct || !sceneImage) {
-        setError('An unexpected error occurred. Missing product or scene data.');
+    if (placedProducts.length === 0 || !sceneImage || !currentEntryId) {
+        reportError('scene', 'An unexpected error occurred. Missing product or scene data.');
         return;
     }
     
-    const productFileToUse = placedProduct.source === 'product1' ? product1File : product2File;
-    const productToUse = placedProduct.source === 'product1' ? product1 : product2;
-
-    if (!productFileToUse || !productToUse) {
-      setError('An unexpected error occurred. Please try again.');
-      return;
+    const objects: CompositeObject[] = [];
+    const locationDescriptions: string[] = [];
+    const describeCalls: ModelCallRecord[] = [];
+    for (const placement of placedProducts) {
+        const productToUse = products.find(p => p.id === placement.productId);
+        if (!productToUse) {
+          reportError('scene', 'A placed product is no longer in the library. Remove it from the scene and try again.');
+          return;
+        }
+        const description = placementDescriptions[placement.id];
+        if (!isDescriptionCurrent(description, placement, currentEntryId, describeRegion) || description?.status !== 'ready' || !description.text.trim()) {
+          reportError('scene', 'Every placed product needs a location description before generating.');
+          return;
+        }
+        locationDescriptions.push(description.text.trim());
+        describeCalls.push(...description.calls);
+        objects.push({
+            image: productToUse.file,
+            description: productToUse.name,
+            dropPosition: { xPercent: placement.xPercent, yPercent: placement.yPercent },
+            scale: placement.scale,
+        });
     }
 
+    const requestedCount = comparedComposeVersions ? comparedComposeVersions.length : variantCount;
+    if (!confirmWithinBudget('scene', estimateCompositeCost(objects.length, requestedCount, false, { placementCheck, fidelityCheck }))) return;
+
+    const controller = beginOperation(sceneOperationRef);
     setIsLoading(true);
-    setError(null);
+    setProgress({
+      message: comparedComposeVersions
+        ? `Comparing prompt versions ${comparedComposeVersions.join(' and ')}...`
+        : variantCount > 1 ? `Generating ${variantCount} variants...` : 'Generating your scene...',
+      startedAt: Date.now(),
+      steps: [],
+    });
+    clearErrors('scene');
+
+    const handleProgress = createProgressHandler(controller.signal);
     
     try {
-      const { finalImageUrl, debugImageUrl: newDebugImage, finalPrompt } = await generateCompositeImage(
-        productFileToUse, 
-        productToUse.name,
+      const { variants, debugImageUrl: newDebugImage } = await generateCompositeImage(
+        objects,
         sceneImage,
         sceneImage.name,
-        { xPercent: placedProduct.xPercent, yPercent: placedProduct.yPercent },
-        placedProduct.scale
+        {
+          count: variantCount, varyPhrasing, compareComposeVersions: comparedComposeVersions, highResolution, preserveUnchangedPixels, placementCheck,
+          fidelityCheck, signal: controller.signal, forceRegenerate, onProgress: handleProgress, locationDescriptions,
+        }
       );
 
-      const newSceneFile = dataURLtoFile(finalImageUrl, `generated-scene-${Date.now()}.jpeg`);
-      const newUrl = URL.createObjectURL(newSceneFile);
+      const createdAt = Date.now();
+      const newEntries: HistoryEntry[] = variants.map(({ finalImageUrl, finalPrompt, timings, calls: compositeCalls, locationDescriptions, fidelity }, index) => {
+          // The descriptions were written before generating, so their calls are recorded with every variant
+          const calls = [...describeCalls, ...compositeCalls];
+          const newSceneFile = dataURLtoFile(finalImageUrl, `generated-scene-${createdAt}-${index + 1}.jpeg`);
+          return {
+              id: createHistoryEntryId(),
+              parentId: currentEntryId,
+              file: newSceneFile,
+              url: URL.createObjectURL(newSceneFile),
+              debugImageUrl: newDebugImage,
+              debugPrompt: finalPrompt,
+              operation: 'compose',
+              createdAt,
+              placements: placedProducts.map(toPlacementRecord),
+              edits: null,
+              timings,
+              calls,
+              locationDescriptions,
+              promptEdit: null,
+              promptVersions: getPromptVersions(calls),
+              fidelity,
+          };
+      });
+
+      if (newEntries.length === 1 && requestedCount === 1) {
+          addHistoryEntry(newEntries[0]);
+      } else {
+          setPendingVariants({ entries: newEntries, requestedCount, isComparison: comparedComposeVersions !== null });
+      }
+      setPlacedProducts([]);
 
-      const newEntry: HistoryEntry = {
-          file: newSceneFile,
-          url: newUrl,
-          debugImageUrl: newDebugImage,
-          debugPrompt: finalPrompt
-      };
+    } catch (err) {
+      // Cancelling keeps the staged placements so the user can adjust them or try again
+      if (isAbortError(err)) {
+        console.log('Scene generation cancelled.');
+        return;
+      }
+      // The placements stay staged so Retry runs the same generation again
+      const errorMessage = getUserMessage(err);
+      reportError('scene', `Failed to generate the image. ${errorMessage}`, handleConfirmPlacement);
+      console.error(err);
+    } finally {
+      endOperation(sceneOperationRef, controller);
+      setIsLoading(false);
+    }
+  }, [placedProducts, placementDescriptions, describeRegion, sceneImage, currentEntryId, products, variantCount, varyPhrasing, comparedComposeVersions, highResolution, preserveUnchangedPixels, placementCheck, fidelityCheck, forceRegenerate, addHistoryEntry, beginOperation, endOperation, createProgressHandler, clearErrors, reportError, confirmWithinBudget]);
+
+  // Runs the current composite's composition again with text edited in the debug view. The result is a sibling
+  // of the composite in the history tree and keeps the text it was edited from.
+  const handleRerunComposite = useCallback(async (locationDescriptions: string[], prompt: string) => {
+    const source = currentHistoryEntry;
+    const parentScene = sceneHistory.find(entry => entry.id === source?.parentId);
+    if (!source || !parentScene) {
+      reportError('scene', 'The scene this composite was made from is no longer in the history.');
+      return;
+    }
 
-      const newHistory = sceneHistory.slice(0, historyIndex + 1);
-      const prunedHistory = sceneHistory.slice(historyIndex + 1);
-      prunedHistory.forEach(entry => URL.revokeObjectURL(entry.url));
+    const objects: CompositeObject[] = [];
+    for (const placement of source.placements) {
+        const productToUse = products.find(p => p.id === placement.productId);
+        if (!productToUse) {
+          reportError('scene', 'A product in this composite is no longer in the library.');
+          return;
+        }
+        objects.push({
+            image: productToUse.file,
+            description: productToUse.name,
+            dropPosition: { xPercent: placement.xPercent, yPercent: placement.yPercent },
+            scale: placement.scale,
+        });
+    }
+
+    if (!confirmWithinBudget('scene', estimateCompositeCost(objects.length, 1, false, { placementCheck, fidelityCheck }))) return;
+
+    setIsDebugModalOpen(false);
+    const controller = beginOperation(sceneOperationRef);
+    setIsLoading(true);
+    setProgress({ message: 'Re-running the composite with your edits...', startedAt: Date.now(), steps: [] });
+    clearErrors('scene');
 
-      newHistory.push(newEntry);
-      setSceneHistory(newHistory);
-      setHistoryIndex(newHistory.length - 1);
+    try {
+      const { variants, debugImageUrl: newDebugImage } = await generateCompositeImage(
+        objects,
+        parentScene.file,
+        parentScene.file.name,
+        {
+          count: 1, highResolution, preserveUnchangedPixels, placementCheck, fidelityCheck, signal: controller.signal, forceRegenerate,
+          onProgress: createProgressHandler(controller.signal),
+          // Composites made before descriptions were kept can only have their prompt edited
+          locationDescriptions: locationDescriptions.length === objects.length ? locationDescriptions : undefined,
+          prompt,
+        }
+      );
 
+      const [{ finalImageUrl, finalPrompt, timings, calls, fidelity }] = variants;
+      const createdAt = Date.now();
+      const newSceneFile = dataURLtoFile(finalImageUrl, `generated-scene-${createdAt}-edited.jpeg`);
+      addHistoryEntry({
+          id: createHistoryEntryId(),
+          parentId: parentScene.id,
+          file: newSceneFile,
+          url: URL.createObjectURL(newSceneFile),
+          debugImageUrl: newDebugImage,
+          debugPrompt: finalPrompt,
+          operation: 'compose',
+          createdAt,
+          placements: source.placements,
+          edits: null,
+          timings,
+          calls,
+          locationDescriptions: variants[0].locationDescriptions,
+          promptEdit: {
+            sourceEntryId: source.id,
+            originalPrompt: source.debugPrompt ?? '',
+            originalLocationDescriptions: source.locationDescriptions,
+          },
+          promptVersions: getPromptVersions(calls),
+          fidelity,
+      });
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-      setError(`Failed to generate the image. ${errorMessage}`);
+      if (isAbortError(err)) {
+        console.log('Composite re-run cancelled.');
+        return;
+      }
+      const errorMessage = getUserMessage(err);
+      reportError('scene', `Failed to re-run the composite. ${errorMessage}`, () => handleRerunComposite(locationDescriptions, prompt));
       console.error(err);
     } finally {
+      endOperation(sceneOperationRef, controller);
       setIsLoading(false);
-      setPlacedProduct(null);
     }
-  }, [placedProduct, sceneImage, product1File, product2File, product1, product2, sceneHistory, historyIndex]);
+  }, [currentHistoryEntry, sceneHistory, products, highResolution, preserveUnchangedPixels, placementCheck, fidelityCheck, forceRegenerate, addHistoryEntry, beginOperation, endOperation, createProgressHandler, clearErrors, reportError, confirmWithinBudget]);
+
+  // Keeps every candidate as a sibling in the history tree; the picked one is added last so Redo returns to it.
+  const handlePickVariant = useCallback((id: string) => {
+    if (!pendingVariants) return;
+    const chosen = pendingVariants.entries.find(entry => entry.id === id);
+    if (!chosen) return;
+    const alternatives = pendingVariants.entries.filter(entry => entry.id !== id);
+    // In an A/B comparison the pick is the evidence for which wording works better
+    const winner = chosen.promptVersions.compose;
+    const loser = alternatives[0]?.promptVersions.compose;
+    if (pendingVariants.isComparison && winner && loser && winner !== loser) {
+      recordPromptComparison({ kind: 'compose', winner, loser, timestamp: Date.now() });
+    }
+    setSceneHistory(prev => [...prev, ...alternatives, chosen]);
+    setCurrentEntryId(chosen.id);
+    setPendingVariants(null);
+  }, [pendingVariants]);
+
+  const handleDiscardVariants = useCallback(() => {
+    pendingVariants?.entries.forEach(entry => URL.revokeObjectURL(entry.url));
+    setPendingVariants(null);
+  }, [pendingVariants]);
 
-  const handleRemoveBackground = useCallback(async (productSlot: 'product1' | 'product2') => {
-      const fileToProcess = productSlot === 'product1' ? product1File : product2File;
-      const productToUpdate = productSlot === 'product1' ? product1 : product2;
+  const handleRemoveBackground = useCallback(async (product: Product) => {
+      const productToUpdate = products.find(p => p.id === product.id);
 
-      if (!fileToProcess || !productToUpdate) {
-          setError('Product image not found.');
+      if (!productToUpdate) {
+          reportError('products', 'Product image not found.');
           return;
       }
+      if (!confirmWithinBudget('products', estimateImageEditCost('segment'))) return;
       
-      setError(null);
-      setIsRemovingBackground(productSlot);
+      const controller = beginOperation(backgroundRemovalRef);
+      clearErrors('products');
+      setIsRemovingBackground(productToUpdate.id);
 
       try {
-          const newImageDataUrl = await removeBackground(fileToProcess);
-          const newFile = dataURLtoFile(newImageDataUrl, `bg-removed-${fileToProcess.name}.png`);
-          
-          // Clean up old URL
-          URL.revokeObjectURL(productToUpdate.imageUrl);
-          
-          const newImageUrl = URL.createObjectURL(newFile);
-          const updatedProduct: Product = { ...productToUpdate, imageUrl: newImageUrl };
-
-          if (productSlot === 'product1') {
-              setProduct1File(newFile);
-              setProduct1(updatedProduct);
-          } else {
-              setProduct2File(newFile);
-              setProduct2(updatedProduct);
-          }
-
+          const calls: ModelCallRecord[] = [];
+          const newImageDataUrl = await removeBackground(productToUpdate.file, {
+              signal: controller.signal, forceRegenerate, onModelCall: record => calls.push(record),
+          });
+          const newFile = dataURLtoFile(newImageDataUrl, `bg-removed-${productToUpdate.file.name}.png`);
+          replaceProductFile(productToUpdate.id, newFile, calls);
       } catch (err) {
-          const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-          setError(`Failed to remove background. ${errorMessage}`);
+          if (isAbortError(err)) {
+              console.log('Background removal cancelled.');
+              return;
+          }
+          const errorMessage = getUserMessage(err);
+          reportError('products', `Failed to remove background from "${productToUpdate.name}". ${errorMessage}`, () => handleRemoveBackground(product));
           console.error(err);
       } finally {
+          endOperation(backgroundRemovalRef, controller);
           setIsRemovingBackground(null);
       }
-  }, [product1File, product2File, product1, product2]);
+  }, [products, forceRegenerate, replaceProductFile, beginOperation, endOperation, clearErrors, reportError, confirmWithinBudget]);
   
-  const handleOpenManualRemoveBg = (productSlot: 'product1' | 'product2') => {
-    setProductForBgRemoval(productSlot);
+  const handleOpenManualRemoveBg = (product: Product) => {
+    setProductForBgRemoval(product.id);
   };
 
-  const handleConfirmManualRemoveBg = async (maskFile: File) => {
-    const fileToProcess = productForBgRemoval === 'product1' ? product1File : product2File;
-    const productToUpdate = productForBgRemoval === 'product1' ? product1 : product2;
+  const removeBackgroundWithBrush = async (productId: number | null, maskFile: File) => {
+    const productToUpdate = products.find(p => p.id === productId);
 
-    if (!fileToProcess || !productToUpdate) {
-        setError('Product image not found for background removal.');
+    if (!productToUpdate) {
+        reportError('products', 'Product image not found for background removal.');
         setProductForBgRemoval(null);
         return;
     }
+    if (!confirmWithinBudget('products', estimateImageEditCost('segment'))) return;
 
-    setError(null);
+    const controller = beginOperation(backgroundRemovalRef);
+    clearErrors('products');
+    setProductForBgRemoval(productToUpdate.id);
     setIsProcessingManualBg(true);
 
     try {
-        const newImageDataUrl = await removeBackgroundWithMask(fileToProcess, maskFile);
-        const newFile = dataURLtoFile(newImageDataUrl, `bg-removed-${fileToProcess.name}.png`);
-        
-        URL.revokeObjectURL(productToUpdate.imageUrl);
-        
-        const newImageUrl = URL.createObjectURL(newFile);
-        const updatedProduct: Product = { ...productToUpdate, imageUrl: newImageUrl };
-
-        if (productForBgRemoval === 'product1') {
-            setProduct1File(newFile);
-            setProduct1(updatedProduct);
-        } else {
-            setProduct2File(newFile);
-            setProduct2(updatedProduct);
-        }
-
+        const calls: ModelCallRecord[] = [];
+        const newImageDataUrl = await removeBackgroundWithMask(productToUpdate.file, maskFile, {
+            signal: controller.signal, forceRegenerate, onModelCall: record => calls.push(record),
+        });
+        const newFile = dataURLtoFile(newImageDataUrl, `bg-removed-${productToUpdate.file.name}.png`);
+        replaceProductFile(productToUpdate.id, newFile, calls);
+        setProductForBgRemoval(null);
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to remove background with brush. ${errorMessage}`);
+        // Cancelling keeps the modal open so the selection can be adjusted
+        if (isAbortError(err)) {
+            console.log('Brush background removal cancelled.');
+            return;
+        }
+        setProductForBgRemoval(null);
+        const errorMessage = getUserMessage(err);
+        // Retry reopens the brush with the same selection and runs it again
+        reportError(
+            'products',
+            `Failed to remove background from "${productToUpdate.name}" with brush. ${errorMessage}`,
+            () => removeBackgroundWithBrush(productToUpdate.id, maskFile)
+        );
         console.error(err);
     } finally {
+        endOperation(backgroundRemovalRef, controller);
         setIsProcessingManualBg(false);
-        setProductForBgRemoval(null);
     }
   };
 
+  const handleConfirmManualRemoveBg = (maskFile: File) => removeBackgroundWithBrush(productForBgRemoval, maskFile);
+
 
+  // Starts a fresh project. The previous one stays in storage and can be reopened from the project list.
   const handleReset = useCallback(() => {
-    if (product1?.imageUrl) URL.revokeObjectURL(product1.imageUrl);
-    if (product2?.imageUrl) URL.revokeObjectURL(product2.imageUrl);
-    setProduct1(null);
-    setProduct1File(null);
-    setProduct2(null);
-    setProduct2File(null);
-    setSelectedProductSource(null);
+    sceneOperationRef.current?.abort();
+    backgroundRemovalRef.current?.abort();
+    products.forEach(p => URL.revokeObjectURL(p.imageUrl));
+    setProducts([]);
+    setSelectedProductId(null);
     
     sceneHistory.forEach(entry => URL.revokeObjectURL(entry.url));
     setSceneHistory([]);
-    setHistoryIndex(-1);
+    setCurrentEntryId(null);
+    setCompareEntryId(null);
+    pendingVariants?.entries.forEach(entry => URL.revokeObjectURL(entry.url));
+    setPendingVariants(null);
 
-    setError(null);
+    setErrors([]);
     setIsLoading(false);
-    setPlacedProduct(null);
+    setPlacedProducts([]);
     setIsMaskingMode(false);
-  }, [sceneHistory, product1, product2]);
-
-  const handleChangeProduct1 = useCallback(() => {
-    if (product1?.imageUrl) URL.revokeObjectURL(product1.imageUrl);
-    setProduct1(null);
-    setProduct1File(null);
-    if (selectedProductSource === 'product1') {
-        setSelectedProductSource(product2 ? 'product2' : null);
-    }
-    setPlacedProduct(null);
-  }, [product1, product2, selectedProductSource]);
-
-  const handleChangeProduct2 = useCallback(() => {
-    if (product2?.imageUrl) URL.revokeObjectURL(product2.imageUrl);
-    setProduct2(null);
-    setProduct2File(null);
-    if (selectedProductSource === 'product2') {
-        setSelectedProductSource(product1 ? 'product1' : null);
-    }
-    setPlacedProduct(null);
-  }, [product1, product2, selectedProductSource]);
+    setProjectMeta(createProjectMeta());
+  }, [sceneHistory, products, pendingVariants]);
   
+  // Shows the scene uploader. The current history stays in the tree and can be returned to.
   const handleChangeScene = useCallback(() => {
-    sceneHistory.forEach(entry => URL.revokeObjectURL(entry.url));
-    setSceneHistory([]);
-    setHistoryIndex(-1);
-    setPlacedProduct(null);
+    setCurrentEntryId(null);
+    setCompareEntryId(null);
+    setPlacedProducts([]);
     setIsMaskingMode(false);
-  }, [sceneHistory]);
+  }, []);
+
+  const handleSelectHistoryEntry = useCallback((id: string) => {
+    setCurrentEntryId(id);
+    if (compareEntryId === id) setCompareEntryId(null);
+    setPlacedProducts([]);
+  }, [compareEntryId]);
   
   const handleUndo = useCallback(() => {
-    if (historyIndex > 0) {
-      setHistoryIndex(prevIndex => prevIndex - 1);
-      setPlacedProduct(null);
-    }
-  }, [historyIndex]);
+    if (parentEntryId) handleSelectHistoryEntry(parentEntryId);
+  }, [parentEntryId, handleSelectHistoryEntry]);
 
   const handleRedo = useCallback(() => {
-    if (historyIndex < sceneHistory.length - 1) {
-      setHistoryIndex(prevIndex => prevIndex + 1);
-      setPlacedProduct(null);
+    if (latestChildEntryId) handleSelectHistoryEntry(latestChildEntryId);
+  }, [latestChildEntryId, handleSelectHistoryEntry]);
+
+  // Deletes a version together with every version derived from it
+  const handleDeleteHistoryEntry = useCallback((id: string) => {
+    const target = sceneHistory.find(entry => entry.id === id);
+    if (!target) return;
+
+    const removedIds = new Set([id]);
+    // Entries are stored in creation order, so a child always comes after its parent.
+    sceneHistory.forEach(entry => {
+      if (entry.parentId && removedIds.has(entry.parentId)) removedIds.add(entry.id);
+    });
+
+    sceneHistory.forEach(entry => {
+      if (removedIds.has(entry.id)) URL.revokeObjectURL(entry.url);
+    });
+    setSceneHistory(prev => prev.filter(entry => !removedIds.has(entry.id)));
+    if (currentEntryId && removedIds.has(currentEntryId)) {
+      setCurrentEntryId(target.parentId);
+      setPlacedProducts([]);
     }
-  }, [historyIndex, sceneHistory.length]);
+    if (compareEntryId && removedIds.has(compareEntryId)) setCompareEntryId(null);
+  }, [sceneHistory, currentEntryId, compareEntryId]);
 
   const handleResetEdits = useCallback(() => {
       setImageEdits({ brightness: 100, contrast: 100, saturation: 100, sharpen: 0, vignette: 0 });
@@ -526,26 +1055,36 @@ const App: React.FC = () => {
   const handleApplyEdits = useCallback(async () => {
     if (!sceneImage) return;
 
+    const controller = beginOperation(sceneOperationRef);
     setIsLoading(true);
-    setError(null);
+    setProgress({ message: 'Applying edits...', startedAt: Date.now(), steps: [] });
+    clearErrors('scene');
     try {
         const editedFile = await applyEditsToImageFile(sceneImage, imageEdits);
+        // Edits run locally and can't be interrupted, but a cancelled run is still discarded
+        controller.signal.throwIfAborted();
         const newUrl = URL.createObjectURL(editedFile);
 
         const newEntry: HistoryEntry = {
+            id: createHistoryEntryId(),
+            parentId: currentEntryId,
             file: editedFile,
             url: newUrl,
             debugImageUrl: null,
             debugPrompt: null,
+            operation: 'edit',
+            createdAt: Date.now(),
+            placements: [],
+            edits: imageEdits,
+            timings: [],
+            calls: [],
+            locationDescriptions: [],
+            promptEdit: null,
+            promptVersions: {},
+            fidelity: null,
         };
 
-        const newHistory = sceneHistory.slice(0, historyIndex + 1);
-        const prunedHistory = sceneHistory.slice(historyIndex + 1);
-        prunedHistory.forEach(entry => URL.revokeObjectURL(entry.url));
-
-        newHistory.push(newEntry);
-        setSceneHistory(newHistory);
-        setHistoryIndex(newHistory.length - 1);
+        addHistoryEntry(newEntry);
         
         setIsApplyingEdits(true);
         setTimeout(() => setIsApplyingEdits(false), 500); // Duration of the flash animation
@@ -553,94 +1092,308 @@ const App: React.FC = () => {
         handleResetEdits();
 
     } catch (err) {
+        if (isAbortError(err)) {
+            console.log('Applying edits cancelled.');
+            return;
+        }
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to apply edits to the image. ${errorMessage}`);
+        reportError('scene', `Failed to apply edits to the image. ${errorMessage}`, handleApplyEdits);
         console.error(err);
     } finally {
+        endOperation(sceneOperationRef, controller);
         setIsLoading(false);
     }
-  }, [sceneImage, imageEdits, sceneHistory, historyIndex, handleResetEdits]);
+  }, [sceneImage, currentEntryId, imageEdits, addHistoryEntry, handleResetEdits, beginOperation, endOperation, clearErrors, reportError]);
 
   const handleToggleMaskingMode = useCallback((active: boolean) => {
     setIsMaskingMode(active);
-    if (active) setPlacedProduct(null);
+    if (active) setPlacedProducts([]);
   }, []);
   
-  const handleApplyInpainting = useCallback(async () => {
-    if (!sceneImage || !sceneUploaderRef.current) return;
-
-    const maskFile = await sceneUploaderRef.current.getMaskAsFile();
-    if (!maskFile) {
-        setError("Please paint a mask over the object you want to remove before confirming.");
-        return;
-    }
+  // Runs object removal with a mask taken from the masking canvas; kept separate so Retry can reuse the mask.
+  const runInpainting = useCallback(async (maskFile: File) => {
+    if (!sceneImage) return;
+    if (!confirmWithinBudget('scene', estimateImageEditCost('inpaint'))) return;
 
+    const controller = beginOperation(sceneOperationRef);
     setIsLoading(true);
-    setError(null);
+    setProgress({ message: 'Removing the object...', startedAt: Date.now(), steps: [] });
+    clearErrors('scene');
     setIsMaskingMode(false); // Exit masking mode immediately
 
     try {
-        const inpaintedImageDataUrl = await inpaintImage(sceneImage, maskFile);
+        const calls: ModelCallRecord[] = [];
+        const inpaintedImageDataUrl = await inpaintImage(sceneImage, maskFile, {
+            signal: controller.signal, forceRegenerate, onModelCall: record => calls.push(record),
+        });
         const newSceneFile = dataURLtoFile(inpaintedImageDataUrl, `inpainted-scene-${Date.now()}.jpeg`);
         const newUrl = URL.createObjectURL(newSceneFile);
 
         const newEntry: HistoryEntry = {
+            id: createHistoryEntryId(),
+            parentId: currentEntryId,
             file: newSceneFile,
             url: newUrl,
             debugImageUrl: null,
-            debugPrompt: null
+            debugPrompt: null,
+            operation: 'inpaint',
+            createdAt: Date.now(),
+            placements: [],
+            edits: null,
+            timings: [],
+            calls,
+            locationDescriptions: [],
+            promptEdit: null,
+            promptVersions: getPromptVersions(calls),
+            fidelity: null,
         };
 
-        const newHistory = sceneHistory.slice(0, historyIndex + 1);
-        const prunedHistory = sceneHistory.slice(historyIndex + 1);
-        prunedHistory.forEach(entry => URL.revokeObjectURL(entry.url));
-        
-        newHistory.push(newEntry);
-        setSceneHistory(newHistory);
-        setHistoryIndex(newHistory.length - 1);
+        addHistoryEntry(newEntry);
 
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`Failed to remove object from the scene. ${errorMessage}`);
+        if (isAbortError(err)) {
+            console.log('Object removal cancelled.');
+            setIsMaskingMode(true); // Return to masking so the user can adjust the selection
+            return;
+        }
+        const errorMessage = getUserMessage(err);
+        reportError('scene', `Failed to remove object from the scene. ${errorMessage}`, () => runInpainting(maskFile));
         console.error(err);
     } finally {
+        endOperation(sceneOperationRef, controller);
         setIsLoading(false);
     }
-  }, [sceneImage, sceneHistory, historyIndex]);
+  }, [sceneImage, currentEntryId, forceRegenerate, addHistoryEntry, beginOperation, endOperation, clearErrors, reportError, confirmWithinBudget]);
 
-  useEffect(() => {
-    // This consolidated effect handles cleanup for all blob URLs.
-    return () => {
-        sceneHistory.forEach(entry => URL.revokeObjectURL(entry.url));
-        if (product1?.imageUrl) URL.revokeObjectURL(product1.imageUrl);
-        if (product2?.imageUrl) URL.revokeObjectURL(product2.imageUrl);
-    };
-  }, [sceneHistory, product1, product2]);
+  const handleApplyInpainting = useCallback(async () => {
+    if (!sceneImage || !sceneUploaderRef.current) return;
 
-  useEffect(() => {
-    let interval: ReturnType<typeof setInterval> | undefined;
-    if (isLoading) {
-        setLoadingMessageIndex(0); // Reset on start
-        interval = setInterval(() => {
-            setLoadingMessageIndex(prevIndex => (prevIndex + 1) % loadingMessages.length);
-        }, 3000);
+    const maskFile = await sceneUploaderRef.current.getMaskAsFile();
+    if (!maskFile) {
+        reportError('scene', 'Please paint a mask over the object you want to remove before confirming.');
+        return;
     }
+    runInpainting(maskFile);
+  }, [sceneImage, runInpainting, reportError]);
+
+  // Keep the latest blob-backed state in a ref so the unmount cleanup below can see it
+  // without re-running (and revoking URLs still on screen) every time the state changes.
+  const blobStateRef = useRef({ sceneHistory, products, pendingVariants });
+  blobStateRef.current = { sceneHistory, products, pendingVariants };
+
+  useEffect(() => {
+    // This consolidated effect handles cleanup for all blob URLs.
     return () => {
-        if (interval) clearInterval(interval);
+        blobStateRef.current.sceneHistory.forEach(entry => URL.revokeObjectURL(entry.url));
+        blobStateRef.current.products.forEach(p => URL.revokeObjectURL(p.imageUrl));
+        blobStateRef.current.pendingVariants?.entries.forEach(entry => URL.revokeObjectURL(entry.url));
+        sceneOperationRef.current?.abort();
+        backgroundRemovalRef.current?.abort();
     };
-  }, [isLoading]);
+  }, []);
 
   useEffect(() => {
+    if (isRestoringProjectRef.current) return;
     handleResetEdits();
     setIsMaskingMode(false); // Exit masking mode if the scene changes
-    setPlacedProduct(null); // Remove placed product if the scene changes
-  }, [historyIndex, handleResetEdits]);
+    setPlacedProducts([]); // Remove placed products if the scene changes
+    clearErrors('scene'); // A failed operation on the previous scene can't be retried from this one
+  }, [currentEntryId, handleResetEdits, clearErrors]);
+
+  // Replaces the whole session with a stored project, recreating blob URLs from the stored files.
+  const applyProject = useCallback((record: ProjectRecord) => {
+    sceneOperationRef.current?.abort();
+    backgroundRemovalRef.current?.abort();
+    blobStateRef.current.sceneHistory.forEach(entry => URL.revokeObjectURL(entry.url));
+    blobStateRef.current.products.forEach(p => URL.revokeObjectURL(p.imageUrl));
+    blobStateRef.current.pendingVariants?.entries.forEach(entry => URL.revokeObjectURL(entry.url));
+
+    const restoredProducts: LibraryProduct[] = record.products.map(p => ({ ...p, imageUrl: URL.createObjectURL(p.file) }));
+    const restoredHistory: HistoryEntry[] = record.sceneHistory.map(entry => ({ ...entry, url: URL.createObjectURL(entry.file) }));
+    const restoredPlacements: PlacedProduct[] = record.placedProducts.flatMap(placement => {
+        const source = restoredProducts.find(p => p.id === placement.productId);
+        return source ? [{ ...placement, id: createPlacementId(), imageUrl: source.imageUrl }] : [];
+    });
+
+    isRestoringProjectRef.current = true;
+    setProducts(restoredProducts);
+    setSelectedProductId(record.selectedProductId);
+    setSceneHistory(restoredHistory);
+    setCurrentEntryId(record.currentEntryId);
+    setCompareEntryId(null);
+    setPendingVariants(record.pendingVariants && {
+        ...record.pendingVariants,
+        entries: record.pendingVariants.entries.map(entry => ({ ...entry, url: URL.createObjectURL(entry.file) })),
+    });
+    setPlacedProducts(restoredPlacements);
+    setActivePlacementId(restoredPlacements[restoredPlacements.length - 1]?.id ?? null);
+    setImageEdits(record.imageEdits);
+    setProjectMeta({ id: record.id, name: record.name, createdAt: record.createdAt });
+    setIsMaskingMode(false);
+    setErrors([]);
+    setLastProjectId(record.id);
+  }, []);
+
+  // Clears the restore flag once the restored state has been committed (runs after the effect above).
+  useEffect(() => {
+    isRestoringProjectRef.current = false;
+  });
+
+  // Resume the last opened project on load
+  useEffect(() => {
+    let isCancelled = false;
+    const lastProjectId = getLastProjectId();
+    if (!lastProjectId) {
+      setIsProjectReady(true);
+      return;
+    }
+    loadProject(lastProjectId)
+      .then(record => {
+        if (record && !isCancelled) applyProject(record);
+      })
+      .catch(err => console.error('Failed to resume the last project.', err))
+      .finally(() => {
+        if (!isCancelled) setIsProjectReady(true);
+      });
+    return () => { isCancelled = true; };
+  }, [applyProject]);
+
+  // Captures the current session as a storable record (no blob URLs)
+  const buildProjectRecord = useCallback((): ProjectRecord => ({
+    ...projectMeta,
+    updatedAt: Date.now(),
+    products: products.map(({ id, name, file, calls }) => ({ id, name, file, calls })),
+    selectedProductId,
+    sceneHistory: sceneHistory.map(({ url: _url, ...entry }) => entry),
+    currentEntryId,
+    placedProducts: placedProducts.map(toPlacementRecord),
+    imageEdits,
+    pendingVariants: pendingVariants && {
+      ...pendingVariants,
+      entries: pendingVariants.entries.map(({ url: _url, ...entry }) => entry),
+    },
+  }), [projectMeta, products, selectedProductId, sceneHistory, currentEntryId, placedProducts, imageEdits, pendingVariants]);
+
+  // Autosave the session whenever it changes
+  useEffect(() => {
+    if (!isProjectReady) return;
+    if (products.length === 0 && sceneHistory.length === 0) return;
+
+    const timeout = setTimeout(() => {
+      const record = buildProjectRecord();
+      saveProject(record)
+        .then(() => setLastProjectId(record.id))
+        .catch(err => console.error('Failed to save project.', err));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [isProjectReady, products.length, sceneHistory.length, buildProjectRecord]);
+
+  const refreshProjectList = useCallback(async () => {
+    try {
+      setProjectSummaries(await listProjects());
+    } catch (err) {
+      console.error('Failed to list projects.', err);
+    }
+  }, []);
+
+  const handleOpenProjectList = useCallback(() => {
+    setIsProjectListOpen(true);
+    refreshProjectList();
+  }, [refreshProjectList]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    try {
+      const record = await loadProject(id);
+      if (!record) throw new Error('The project no longer exists.');
+      applyProject(record);
+      setIsProjectListOpen(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      reportError('project', `Could not open the project. ${errorMessage}`, () => handleOpenProject(id));
+      console.error(err);
+    }
+  }, [applyProject, reportError]);
+
+  const handleDuplicateProject = useCallback(async (id: string) => {
+    try {
+      await duplicateProject(id);
+    } catch (err) {
+      console.error('Failed to duplicate project.', err);
+    }
+    refreshProjectList();
+  }, [refreshProjectList]);
+
+  const handleRenameProject = useCallback(async (id: string, name: string) => {
+    // The open project is renamed through its metadata so the next autosave doesn't revert it.
+    if (id === projectMeta.id) {
+      setProjectMeta(prev => ({ ...prev, name }));
+    }
+    try {
+      await renameProject(id, name);
+    } catch (err) {
+      // The open project may not have been saved yet; its new name is persisted on the next autosave.
+      console.warn('Failed to rename stored project.', err);
+    }
+    refreshProjectList();
+  }, [projectMeta.id, refreshProjectList]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+    try {
+      await deleteProject(id);
+      if (id === projectMeta.id) handleReset();
+    } catch (err) {
+      console.error('Failed to delete project.', err);
+    }
+    refreshProjectList();
+  }, [projectMeta.id, handleReset, refreshProjectList]);
+
+  const handleNewProject = useCallback(() => {
+    handleReset();
+    setIsProjectListOpen(false);
+  }, [handleReset]);
+
+  const handleExportProject = useCallback(async () => {
+    try {
+      const record = buildProjectRecord();
+      const blob = await exportProjectArchive(record);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${record.name.replace(/[\\/:*?"<>|]+/g, '-')}${ARCHIVE_FILE_EXTENSION}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      reportError('project', `Could not export the project. ${errorMessage}`, handleExportProject);
+      console.error(err);
+    }
+  }, [buildProjectRecord, reportError]);
 
-  const handleTouchStart = (e: React.TouchEvent, source: 'product1' | 'product2') => {
-    const product = source === 'product1' ? product1 : product2;
-    if (!product || placedProduct) return;
+  const handleImportProject = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file twice
+    if (!file) return;
+    try {
+      const record = await importProjectArchive(file);
+      await saveProject(record);
+      applyProject(record);
+      setIsProjectListOpen(false);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
+      reportError('project', `Could not import the project. ${errorMessage}`);
+      console.error(err);
+    }
+  }, [applyProject, reportError]);
+
+  const handleProductDragStart = (product: Product, e: React.DragEvent) => {
+    setSelectedProductId(product.id);
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setDragImage(transparentDragImage, 0, 0);
+  };
 
-    setSelectedProductSource(source);
+  const handleTouchStart = (product: Product, e: React.TouchEvent) => {
+    setSelectedProductId(product.id);
     setDraggingImageUrl(product.imageUrl);
 
     // Prevent page scroll
@@ -731,23 +1484,37 @@ const App: React.FC = () => {
     };
   }, [isTouchDragging, handleProductDrop]);
 
+  const historyTree = (
+    <HistoryTree
+      entries={sceneHistory}
+      currentEntryId={currentEntryId}
+      compareEntryId={compareEntryId}
+      onSelect={handleSelectHistoryEntry}
+      onCompare={setCompareEntryId}
+      onDelete={handleDeleteHistoryEntry}
+      disabled={isLoading || isMaskingMode || isPickingVariant}
+    />
+  );
+
+  const renderErrors = (scopes: ErrorScope[], className = '') => {
+    const shown = errors.filter(e => scopes.includes(e.scope));
+    if (shown.length === 0) return null;
+    return (
+      <div className={`w-full flex flex-col gap-2 ${className}`}>
+        {shown.map(e => (
+          <ErrorBanner
+            key={e.id}
+            message={e.message}
+            onRetry={e.retry && (() => { dismissError(e.id); e.retry?.(); })}
+            onDismiss={() => dismissError(e.id)}
+          />
+        ))}
+      </div>
+    );
+  };
+
   const renderContent = () => {
-    if (error) {
-       return (
-           <div className="text-center animate-fade-in bg-red-50 border border-red-200 p-8 rounded-lg max-w-2xl mx-auto">
-            <h2 className="text-3xl font-extrabold mb-4 text-red-800">An Error Occurred</h2>
-            <p className="text-lg text-red-700 mb-6">{error}</p>
-            <button
-                onClick={handleReset}
-                className="bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-8 rounded-lg text-lg transition-colors"
-              >
-                Try Again
-            </button>
-          </div>
-        );
-    }
-    
-    if (!product1File || !sceneImage) {
+    if (products.length === 0 || !sceneImage) {
       return (
         <div className="w-full max-w-6xl mx-auto animate-fade-in">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
@@ -755,8 +1522,8 @@ const App: React.FC = () => {
               <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Upload Product</h2>
               <ImageUploader 
                 id="product-uploader"
-                onFileSelect={handleInitialProductUpload}
-                imageUrl={product1?.imageUrl ?? null}
+                onFileSelect={handleAddProduct}
+                imageUrl={products[0]?.imageUrl ?? null}
               />
             </div>
             <div className="flex flex-col">
@@ -769,6 +1536,7 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="text-center mt-10 min-h-[4rem] flex flex-col justify-center items-center">
+            {renderErrors(['products', 'scene'], 'mb-4')}
             <p className="text-zinc-500 animate-fade-in">
               Upload a product image and a scene image to begin.
             </p>
@@ -783,99 +1551,16 @@ const App: React.FC = () => {
               {' '}for an instant start.
             </p>
           </div>
+          {historyTree}
         </div>
       );
     }
 
     return (
       <div className="w-full max-w-7xl mx-auto animate-fade-in">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-8 items-stretch">
-          {/* Product 1 Column */}
-          <div className="md:col-span-1 flex flex-col">
-            <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Product 1</h2>
-            <div className="flex-grow flex items-center justify-center">
-              <div 
-                  draggable={!placedProduct}
-                  onDragStart={(e) => {
-                      if (placedProduct) { e.preventDefault(); return; }
-                      setSelectedProductSource('product1');
-                      e.dataTransfer.effectAllowed = 'move';
-                      e.dataTransfer.setDragImage(transparentDragImage, 0, 0);
-                  }}
-                  onTouchStart={(e) => handleTouchStart(e, 'product1')}
-                  onClick={() => setSelectedProductSource('product1')}
-                  className={`w-full max-w-xs ${!placedProduct ? 'cursor-move' : 'cursor-not-allowed'}`}
-              >
-                  <ObjectCard 
-                    product={product1!} 
-                    isSelected={selectedProductSource === 'product1'} 
-                    onRemoveBackground={() => handleRemoveBackground('product1')}
-                    onManualRemoveBackground={() => handleOpenManualRemoveBg('product1')}
-                    isRemovingBackground={isRemovingBackground === 'product1' || (isProcessingManualBg && productForBgRemoval === 'product1')}
-                    disabled={isLoading || !!isRemovingBackground || isProcessingManualBg || !!placedProduct}
-                  />
-              </div>
-            </div>
-            <div className="text-center mt-4">
-               <div className="h-5 flex items-center justify-center">
-                <button
-                    onClick={handleChangeProduct1}
-                    className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
-                >
-                    Change Product
-                </button>
-               </div>
-            </div>
-          </div>
-          {/* Product 2 Column */}
-          <div className="md:col-span-1 flex flex-col">
-            <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Product 2</h2>
-            <div className="flex-grow flex items-center justify-center">
-              {product2File ? (
-                <div 
-                    draggable={!placedProduct}
-                    onDragStart={(e) => {
-                        if (placedProduct) { e.preventDefault(); return; }
-                        setSelectedProductSource('product2');
-                        e.dataTransfer.effectAllowed = 'move';
-                        e.dataTransfer.setDragImage(transparentDragImage, 0, 0);
-                    }}
-                    onTouchStart={(e) => handleTouchStart(e, 'product2')}
-                    onClick={() => setSelectedProductSource('product2')}
-                    className={`w-full max-w-xs ${!placedProduct ? 'cursor-move' : 'cursor-not-allowed'}`}
-                >
-                    <ObjectCard 
-                      product={product2!} 
-                      isSelected={selectedProductSource === 'product2'}
-                      onRemoveBackground={() => handleRemoveBackground('product2')}
-                      onManualRemoveBackground={() => handleOpenManualRemoveBg('product2')}
-                      isRemovingBackground={isRemovingBackground === 'product2' || (isProcessingManualBg && productForBgRemoval === 'product2')}
-                      disabled={isLoading || !!isRemovingBackground || isProcessingManualBg || !!placedProduct}
-                    />
-                </div>
-              ) : (
-                <ImageUploader
-                  id="product2-uploader"
-                  onFileSelect={(file) => handleProductImageUpload(file, 'product2')}
-                  imageUrl={null}
-                />
-              )}
-            </div>
-            {product2File && (
-              <div className="text-center mt-4">
-                <div className="h-5 flex items-center justify-center">
-                  <button
-                      onClick={handleChangeProduct2}
-                      className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
-                  >
-                      Change Product
-                  </button>
-                </div>
-              </div>
-            )}
-          </div>
+        <div className="grid grid-cols-1 gap-8 items-stretch">
           {/* Scene Column */}
-          <div className="md:col-span-2 flex flex-col">
+          <div className="flex flex-col w-full max-w-5xl mx-auto">
             <h2 className="text-2xl font-extrabold text-center mb-5 text-zinc-800">Scene</h2>
             <div className="flex-grow flex items-center justify-center">
               <ImageUploader 
@@ -885,16 +1570,19 @@ const App: React.FC = () => {
                   imageUrl={sceneImageUrl}
                   imageFile={sceneImage}
                   edits={imageEdits}
-                  isDropZone={!!sceneImage && !isLoading && !isMaskingMode && !placedProduct}
+                  isDropZone={!!sceneImage && !isLoading && !isMaskingMode && !isPickingVariant}
                   onProductDrop={handleProductDrop}
-                  showDebugButton={!!debugImageUrl && !isLoading}
+                  showDebugButton={(!!debugImageUrl || debugCalls.length > 0) && !isLoading}
                   onDebugClick={() => setIsDebugModalOpen(true)}
+                  warning={isLoading ? null : getFidelityWarning(currentHistoryEntry?.fidelity ?? null)}
                   isTouchHovering={isHoveringDropZone}
                   touchOrbPosition={touchOrbPosition}
                   isApplyingEdits={isApplyingEdits}
                   isMaskingMode={isMaskingMode}
                   brushSize={brushSize}
-                  placedProduct={placedProduct}
+                  placedProducts={placedProducts}
+                  activePlacementId={activePlacementId}
+                  onSelectPlacedProduct={setActivePlacementId}
                   onUpdatePlacedProduct={handleUpdatePlacedProduct}
               />
             </div>
@@ -904,7 +1592,7 @@ const App: React.FC = () => {
                     onEditChange={setImageEdits}
                     onApply={handleApplyEdits}
                     onReset={handleResetEdits}
-                    disabled={isLoading || !!placedProduct}
+                    disabled={isLoading || hasPlacements || isPickingVariant}
                     isMaskingMode={isMaskingMode}
                     onToggleMaskingMode={handleToggleMaskingMode}
                     onApplyMask={handleApplyInpainting}
@@ -914,11 +1602,11 @@ const App: React.FC = () => {
              )}
              <div className="text-center mt-4">
               <div className="h-5 flex items-center justify-center gap-6">
-                {sceneImage && !isLoading && !placedProduct && (
+                {sceneImage && !isLoading && !hasPlacements && !isPickingVariant && (
                   <>
                     <button
                         onClick={handleUndo}
-                        disabled={historyIndex <= 0}
+                        disabled={!parentEntryId}
                         className="text-sm text-blue-600 hover:text-blue-800 font-semibold disabled:text-zinc-400 disabled:cursor-not-allowed transition-colors"
                         aria-label="Undo last action"
                     >
@@ -932,7 +1620,7 @@ const App: React.FC = () => {
                     </button>
                     <button
                         onClick={handleRedo}
-                        disabled={historyIndex >= sceneHistory.length - 1}
+                        disabled={!latestChildEntryId}
                         className="text-sm text-blue-600 hover:text-blue-800 font-semibold disabled:text-zinc-400 disabled:cursor-not-allowed transition-colors"
                         aria-label="Redo last action"
                     >
@@ -942,18 +1630,84 @@ const App: React.FC = () => {
                 )}
               </div>
             </div>
+            {historyTree}
+          </div>
+          {/* Product Library */}
+          <div className="flex flex-col">
+            <h2 className="text-2xl font-extrabold text-center mb-2 text-zinc-800">Products</h2>
+            {renderErrors(['products'], 'mb-3')}
+            <ProductSelector
+              products={products}
+              selectedProductId={selectedProductId}
+              onSelect={(product) => setSelectedProductId(product.id)}
+              onAddOwnProductClick={() => setIsAddProductModalOpen(true)}
+              onRemove={handleRemoveProduct}
+              onMove={handleMoveProduct}
+              onRemoveBackground={handleRemoveBackground}
+              onManualRemoveBackground={handleOpenManualRemoveBg}
+              removingBackgroundId={isRemovingBackground ?? (isProcessingManualBg ? productForBgRemoval : null)}
+              onCancelRemoveBackground={handleCancelBackgroundRemoval}
+              inspectableProductIds={inspectableProductIds}
+              onInspect={(product) => setInspectorTarget({ kind: 'product', productId: product.id })}
+              isDraggable={!isLoading && !isMaskingMode}
+              onProductDragStart={handleProductDragStart}
+              onProductTouchStart={handleTouchStart}
+              disabled={isLoading || isRemovingBackground !== null || isProcessingManualBg || hasPlacements || isPickingVariant}
+            />
           </div>
         </div>
-        <div className="text-center mt-10 min-h-[8rem] flex flex-col justify-center items-center">
-           {isLoading ? (
-             <div className="animate-fade-in">
-                <Spinner />
-                <p className="text-xl mt-4 text-zinc-600 transition-opacity duration-500">{loadingMessages[loadingMessageIndex]}</p>
-             </div>
-           ) : placedProduct ? (
+        <div className="text-center mt-10 min-h-[8rem] flex flex-col justify-center items-center gap-4">
+           {!isLoading && renderErrors(['scene'])}
+           {isLoading && progress ? (
+             <GenerationProgress
+                message={progress.message}
+                startedAt={progress.startedAt}
+                steps={progress.steps}
+                showVariants={variantCount > 1}
+                onCancel={handleCancelSceneOperation}
+             />
+           ) : pendingVariants ? (
+             <VariantPicker
+                candidates={pendingVariants.entries.map(entry => ({
+                  id: entry.id,
+                  url: entry.url,
+                  label: pendingVariants.isComparison ? `Prompt ${entry.promptVersions.compose ?? 'unknown'}` : undefined,
+                  warning: getFidelityWarning(entry.fidelity),
+                }))}
+                requestedCount={pendingVariants.requestedCount}
+                onPick={handlePickVariant}
+                onDiscard={handleDiscardVariants}
+             />
+           ) : activePlacement ? (
              <PlacementControls 
-                scale={placedProduct.scale}
-                onScaleChange={(newScale) => handleUpdatePlacedProduct({ scale: newScale })}
+                scale={activePlacement.scale}
+                onScaleChange={(newScale) => handleUpdatePlacedProduct(activePlacement.id, { scale: newScale })}
+                itemCount={placedProducts.length}
+                activeItemName={products.find(p => p.id === activePlacement.productId)?.name ?? null}
+                onRemoveItem={() => handleRemovePlacedProduct(activePlacement.id)}
+                description={placementDescriptions[activePlacement.id] ?? null}
+                onDescriptionChange={(text) => handleDescriptionChange(activePlacement, text)}
+                onRetryDescription={() => handleRetryDescription(activePlacement.id)}
+                unreadyDescriptionCount={placedProducts.filter(p =>
+                  !isDescriptionCurrent(placementDescriptions[p.id], p, currentEntryId, describeRegion)
+                  || placementDescriptions[p.id].status !== 'ready' || !placementDescriptions[p.id].text.trim()
+                ).length}
+                variantCount={variantCount}
+                maxVariantCount={MAX_VARIANT_COUNT}
+                onVariantCountChange={setVariantCount}
+                varyPhrasing={varyPhrasing}
+                onVaryPhrasingChange={setVaryPhrasing}
+                composeVersions={composeVersions}
+                comparedVersions={comparedComposeVersions}
+                onComparedVersionsChange={setComparedComposeVersions}
+                highResolution={highResolution}
+                onHighResolutionChange={setHighResolution}
+                preserveUnchangedPixels={preserveUnchangedPixels}
+                onPreserveUnchangedPixelsChange={setPreserveUnchangedPixels}
+                placementCheck={placementCheck}
+                onPlacementCheckChange={setPlacementCheck}
+                fidelityCheck={fidelityCheck}
+                onFidelityCheckChange={setFidelityCheck}
                 onConfirm={handleConfirmPlacement}
                 onCancel={handleCancelPlacement}
                 disabled={isLoading}
@@ -978,7 +1732,72 @@ const App: React.FC = () => {
         position={touchGhostPosition}
       />
       <div className="flex flex-col items-center gap-8 w-full">
-        <Header />
+        <Header isMockMode={isMockModeEnabled()} />
+        <div className="w-full max-w-7xl flex items-center justify-end gap-3 -mt-4">
+          <label
+            className="flex items-center gap-1.5 text-sm text-zinc-600 cursor-pointer mr-auto"
+            title="Skip cached model responses and generate fresh results"
+          >
+            <input
+              type="checkbox"
+              checked={forceRegenerate}
+              onChange={(e) => setForceRegenerate(e.target.checked)}
+              className="accent-blue-600"
+            />
+            Force regenerate
+          </label>
+          <span className="text-sm text-zinc-500 truncate">{projectMeta.name}</span>
+          <button
+            onClick={handleOpenProjectList}
+            className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+          >
+            Projects
+          </button>
+          <button
+            onClick={() => setIsUsagePanelOpen(true)}
+            className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+            title="Model usage, estimated cost and budget caps"
+          >
+            Usage (${todaysSpend.toFixed(2)} today)
+          </button>
+          <button
+            onClick={() => setInspectorTarget({ kind: 'session' })}
+            className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+            title="Every model call made in this session"
+          >
+            Requests
+          </button>
+          <button
+            onClick={() => setIsSettingsPanelOpen(true)}
+            className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+            title="API key, models and generation parameters"
+          >
+            Settings
+          </button>
+          <button
+            onClick={handleExportProject}
+            disabled={products.length === 0 && sceneHistory.length === 0}
+            className="text-sm text-blue-600 hover:text-blue-800 font-semibold disabled:text-zinc-400 disabled:cursor-not-allowed"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => archiveInputRef.current?.click()}
+            className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+          >
+            Import
+          </button>
+          <input
+            type="file"
+            ref={archiveInputRef}
+            onChange={handleImportProject}
+            accept={`${ARCHIVE_FILE_EXTENSION},application/json`}
+            className="hidden"
+          />
+        </div>
+        {errors.some(e => e.scope === 'project') && (
+          <div className="w-full max-w-7xl">{renderErrors(['project'])}</div>
+        )}
         <main className="w-full">
           {renderContent()}
         </main>
@@ -988,13 +1807,62 @@ const App: React.FC = () => {
         onClose={() => setIsDebugModalOpen(false)}
         imageUrl={debugImageUrl}
         prompt={debugPrompt}
+        timings={debugTimings}
+        calls={debugCalls}
+        playground={promptPlayground}
+        promptEdit={currentHistoryEntry?.promptEdit ?? null}
+        promptVersions={currentHistoryEntry?.promptVersions ?? {}}
+        fidelity={currentHistoryEntry?.fidelity ?? null}
+        onRerun={handleRerunComposite}
       />
       <BackgroundRemovalModal
-        isOpen={!!productForBgRemoval}
+        isOpen={productForBgRemoval !== null}
         onClose={() => setProductForBgRemoval(null)}
-        imageFile={productForBgRemoval === 'product1' ? product1File : product2File}
+        imageFile={productForBgRemovalFile}
         onConfirm={handleConfirmManualRemoveBg}
         isProcessing={isProcessingManualBg}
+        onCancelProcessing={handleCancelBackgroundRemoval}
+      />
+      <AddProductModal
+        isOpen={isAddProductModalOpen}
+        onClose={() => setIsAddProductModalOpen(false)}
+        onFileSelect={handleAddProduct}
+      />
+      <ProjectListModal
+        isOpen={isProjectListOpen}
+        onClose={() => setIsProjectListOpen(false)}
+        projects={projectSummaries}
+        currentProjectId={projectMeta.id}
+        onOpen={handleOpenProject}
+        onDuplicate={handleDuplicateProject}
+        onRename={handleRenameProject}
+        onDelete={handleDeleteProject}
+        onNewProject={handleNewProject}
+      />
+      <UsagePanel
+        isOpen={isUsagePanelOpen}
+        onClose={() => setIsUsagePanelOpen(false)}
+        records={usageRecords}
+        budget={budget}
+        onBudgetChange={setBudgetSettings}
+        onClearUsage={clearUsageRecords}
+      />
+      <SettingsPanel
+        isOpen={isSettingsPanelOpen}
+        onClose={() => setIsSettingsPanelOpen(false)}
+        settings={settings}
+        onSave={saveSettings}
+        isProxyBuild={isProxyBuild()}
+      />
+      <RequestInspector
+        isOpen={inspectorTarget !== null}
+        onClose={() => setInspectorTarget(null)}
+        title={inspectedProduct ? `Requests for "${inspectedProduct.name}"` : 'Requests'}
+        description={inspectedProduct
+          ? 'The model calls that produced this version of the product image.'
+          : 'Every model call made in this session, including failed attempts and cache hits. History entries and products keep their own calls.'}
+        calls={inspectedProduct ? inspectedProduct.calls : modelCalls}
+        onClear={inspectedProduct ? undefined : clearModelCalls}
       />
     </div>
   );
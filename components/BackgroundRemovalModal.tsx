@@ -12,6 +12,7 @@ interface BackgroundRemovalModalProps {
   imageFile: File | null;
   onConfirm: (maskFile: File) => void;
   isProcessing: boolean;
+  onCancelProcessing?: () => void;
 }
 
 const CloseIcon = () => (
@@ -20,7 +21,7 @@ const CloseIcon = () => (
     </svg>
 );
 
-const BackgroundRemovalModal: React.FC<BackgroundRemovalModalProps> = ({ isOpen, onClose, imageFile, onConfirm, isProcessing }) => {
+const BackgroundRemovalModal: React.FC<BackgroundRemovalModalProps> = ({ isOpen, onClose, imageFile, onConfirm, isProcessing, onCancelProcessing }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const imageRef = useRef<HTMLImageElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
@@ -168,7 +169,7 @@ const BackgroundRemovalModal: React.FC<BackgroundRemovalModalProps> = ({ isOpen,
     return (
         <div 
             className="fixed inset-0 bg-black bg-opacity-75 z-50 flex items-center justify-center p-4 animate-fade-in"
-            onClick={onClose}
+            onClick={isProcessing ? undefined : onClose}
             aria-modal="true"
             role="dialog"
         >
@@ -181,6 +182,14 @@ const BackgroundRemovalModal: React.FC<BackgroundRemovalModalProps> = ({ isOpen,
                     <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center z-30 animate-fade-in rounded-xl">
                         <Spinner />
                         <p className="text-lg font-semibold text-zinc-600 mt-4">Processing...</p>
+                        {onCancelProcessing && (
+                            <button
+                                onClick={onCancelProcessing}
+                                className="mt-4 text-sm text-zinc-600 hover:text-zinc-800 font-semibold underline transition-colors"
+                            >
+                                Cancel
+                            </button>
+                        )}
                     </div>
                 )}
                 <div className="flex justify-between items-center mb-4 flex-shrink-0">
@@ -3,13 +3,39 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { FidelityReport, ModelCallRecord, PromptEdit, StageTiming } from './types';
+import { compositeStageLabels, formatDuration } from './GenerationProgress';
+import { ModelCallList } from './RequestInspector';
+import { buildCompositePrompt } from '../services/geminiService';
+import { PromptVersions, getPromptTemplate } from '../services/promptTemplates';
+import { MAX_COLOR_DISTANCE, MAX_HASH_DISTANCE } from '../services/productFidelity';
+
+/**
+ * What the prompt playground needs to rebuild a composite's prompt: its products, in placement order,
+ * the location description written for each (empty for composites made before descriptions were kept)
+ * and the composite template version it used (null if unknown, which rebuilds with the current one).
+ */
+export interface PromptPlayground {
+  products: { name: string; scale: number; }[];
+  locationDescriptions: string[];
+  composeVersion: string | null;
+}
 
 interface DebugModalProps {
   isOpen: boolean;
   onClose: () => void;
   imageUrl: string | null;
   prompt: string | null;
+  timings: StageTiming[];
+  calls: ModelCallRecord[];
+  // Set for composites that can be run again; null when the entry or its products can't be re-run
+  playground: PromptPlayground | null;
+  promptEdit: PromptEdit | null;
+  promptVersions: PromptVersions;
+  // Null for entries that weren't checked
+  fidelity: FidelityReport | null;
+  onRerun: (locationDescriptions: string[], prompt: string) => void;
 }
 
 const CloseIcon = () => (
@@ -18,11 +44,53 @@ const CloseIcon = () => (
     </svg>
 );
 
-const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prompt }) => {
-  if (!isOpen || !imageUrl) {
+const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prompt, timings, calls, playground, promptEdit, promptVersions, fidelity, onRerun }) => {
+  const [draftDescriptions, setDraftDescriptions] = useState<string[]>([]);
+  const [draftPrompt, setDraftPrompt] = useState('');
+  // Once the prompt is edited by hand, description edits no longer rewrite it until it is rebuilt
+  const [isPromptEdited, setIsPromptEdited] = useState(false);
+
+  // Start from the entry's own text every time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraftDescriptions(playground?.locationDescriptions ?? []);
+      setDraftPrompt(prompt ?? '');
+      setIsPromptEdited(false);
+    }
+  }, [isOpen, playground, prompt]);
+
+  if (!isOpen || (!imageUrl && calls.length === 0)) {
     return null;
   }
 
+  const canEditDescriptions = !!playground && playground.locationDescriptions.length === playground.products.length;
+  const rebuildPrompt = (descriptions: string[]) =>
+    buildCompositePrompt(
+      playground!.products.map(product => ({ description: product.name, scale: product.scale })),
+      descriptions,
+      getPromptTemplate('compose', playground!.composeVersion ?? undefined)
+    );
+
+  const handleDescriptionChange = (index: number, value: string) => {
+    const descriptions = draftDescriptions.map((description, i) => i === index ? value : description);
+    setDraftDescriptions(descriptions);
+    if (!isPromptEdited) setDraftPrompt(rebuildPrompt(descriptions));
+  };
+
+  const handleRebuildPrompt = () => {
+    setDraftPrompt(rebuildPrompt(draftDescriptions));
+    setIsPromptEdited(false);
+  };
+
+  const handleReset = () => {
+    setDraftDescriptions(playground?.locationDescriptions ?? []);
+    setDraftPrompt(prompt ?? '');
+    setIsPromptEdited(false);
+  };
+
+  const isDraftChanged = draftPrompt !== (prompt ?? '')
+    || draftDescriptions.some((description, index) => description !== playground?.locationDescriptions[index]);
+
   const handleModalContentClick = (e: React.MouseEvent) => {
     e.stopPropagation();
   };
@@ -49,17 +117,24 @@ const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prom
         </button>
         <div className="text-center mb-4 flex-shrink-0">
           <h2 className="text-2xl font-extrabold text-zinc-800">Debug View</h2>
+          {Object.keys(promptVersions).length > 0 && (
+            <p className="text-xs text-zinc-500 mt-1">
+              Prompt templates: {Object.entries(promptVersions).map(([kind, version]) => `${kind}@${version}`).join(', ')}
+            </p>
+          )}
         </div>
         
         <div className="flex flex-col gap-4 overflow-y-auto">
-          <div>
-            <p className="text-zinc-600 mb-2">This is the image sent to the AI, with a red marker indicating the placement.</p>
-            <div className="rounded-lg overflow-hidden bg-zinc-100">
-                <img src={imageUrl} alt="Debug view of marked scene" className="w-full h-full object-contain" />
+          {imageUrl && (
+            <div>
+              <p className="text-zinc-600 mb-2">This is the image sent to the AI, with a red marker indicating the placement.</p>
+              <div className="rounded-lg overflow-hidden bg-zinc-100">
+                  <img src={imageUrl} alt="Debug view of marked scene" className="w-full h-full object-contain" />
+              </div>
             </div>
-          </div>
+          )}
           
-          {prompt && (
+          {prompt && !playground && (
             <div>
                 <h3 className="text-lg font-bold text-zinc-800 mb-2">Final Prompt to Image Model</h3>
                 <pre className="bg-zinc-100 text-zinc-700 p-4 rounded-lg text-xs whitespace-pre-wrap">
@@ -67,6 +142,151 @@ const DebugModal: React.FC<DebugModalProps> = ({ isOpen, onClose, imageUrl, prom
                 </pre>
             </div>
           )}
+
+          {playground && (
+            <div className="flex flex-col gap-3">
+                <div>
+                    <h3 className="text-lg font-bold text-zinc-800">Prompt Playground</h3>
+                    <p className="text-xs text-zinc-500">
+                        Edit the text this composite was made from and run the composition again on the same scene and placements.
+                        The result is added to the history next to this one.
+                    </p>
+                </div>
+                {canEditDescriptions && playground.products.map((product, index) => (
+                    <label key={index} className="flex flex-col gap-1 text-sm font-semibold text-zinc-700">
+                        Location description: Product {index + 1} ("{product.name}")
+                        <textarea
+                            value={draftDescriptions[index] ?? ''}
+                            onChange={(e) => handleDescriptionChange(index, e.target.value)}
+                            rows={3}
+                            className="w-full border border-zinc-300 rounded-md p-2 text-xs font-normal"
+                        />
+                    </label>
+                ))}
+                <label className="flex flex-col gap-1 text-sm font-semibold text-zinc-700">
+                    Final prompt to image model
+                    <textarea
+                        value={draftPrompt}
+                        onChange={(e) => { setDraftPrompt(e.target.value); setIsPromptEdited(true); }}
+                        rows={14}
+                        spellCheck={false}
+                        className="w-full border border-zinc-300 rounded-md p-2 text-xs font-mono font-normal"
+                    />
+                </label>
+                {canEditDescriptions && isPromptEdited && (
+                    <p className="text-xs text-zinc-500">
+                        The prompt was edited by hand, so description changes no longer update it.{' '}
+                        <button onClick={handleRebuildPrompt} className="text-blue-600 hover:text-blue-800 font-semibold">
+                            Rebuild from descriptions
+                        </button>
+                    </p>
+                )}
+                <div className="flex items-center justify-end gap-3">
+                    <button
+                        onClick={handleReset}
+                        disabled={!isDraftChanged}
+                        className="text-sm text-zinc-500 hover:text-zinc-800 font-semibold disabled:text-zinc-300"
+                    >
+                        Reset
+                    </button>
+                    <button
+                        onClick={() => onRerun(draftDescriptions, draftPrompt)}
+                        disabled={!draftPrompt.trim()}
+                        className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm transition-colors disabled:bg-zinc-400"
+                    >
+                        Run Again
+                    </button>
+                </div>
+            </div>
+          )}
+
+          {promptEdit && (
+            <details className="border border-zinc-200 rounded-lg">
+                <summary className="cursor-pointer px-3 py-2 text-sm font-semibold text-zinc-700">
+                    Original text (this composite was re-run with edits)
+                </summary>
+                <div className="px-3 pb-3 flex flex-col gap-2">
+                    {promptEdit.originalLocationDescriptions.map((description, index) => (
+                        <div key={index}>
+                            <h4 className="text-sm font-bold text-zinc-800 mb-1">Location description: Product {index + 1}</h4>
+                            <pre className="bg-zinc-100 text-zinc-700 p-2 rounded text-xs whitespace-pre-wrap">{description}</pre>
+                        </div>
+                    ))}
+                    <h4 className="text-sm font-bold text-zinc-800">Original prompt</h4>
+                    <pre className="bg-zinc-100 text-zinc-700 p-2 rounded text-xs whitespace-pre-wrap">{promptEdit.originalPrompt}</pre>
+                </div>
+            </details>
+          )}
+
+          {fidelity && fidelity.products.length > 0 && (
+            <div>
+                <h3 className="text-lg font-bold text-zinc-800 mb-1">Product Fidelity</h3>
+                <p className="text-xs text-zinc-500 mb-2">
+                    Each placed product compared with its image. Colour distances above {MAX_COLOR_DISTANCE} and
+                    shape differences above {Math.round(MAX_HASH_DISTANCE * 100)}% are flagged.
+                </p>
+                <table className="w-full text-sm text-zinc-700">
+                    <thead>
+                        <tr className="text-left text-xs text-zinc-500 border-b border-zinc-200">
+                            <th className="py-1 font-semibold">Product</th>
+                            <th className="py-1 font-semibold text-right">Colour</th>
+                            <th className="py-1 font-semibold text-right">Shape</th>
+                            <th className="py-1 font-semibold text-right">Judge</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {fidelity.products.map((product, index) => (
+                            <React.Fragment key={index}>
+                                <tr className={product.issues.length > 0 ? '' : 'border-b border-zinc-100'}>
+                                    <td className="py-1">{product.name}</td>
+                                    <td className="py-1 text-right tabular-nums">{product.colorDistance?.toFixed(2) ?? '–'}</td>
+                                    <td className="py-1 text-right tabular-nums">{product.hashDistance !== null ? `${Math.round(product.hashDistance * 100)}%` : '–'}</td>
+                                    <td className="py-1 text-right" title={product.judge?.answer}>
+                                        {product.judge ? (product.judge.preserved === null ? 'Unclear' : product.judge.preserved ? 'Kept' : 'Altered') : '–'}
+                                    </td>
+                                </tr>
+                                {product.issues.length > 0 && (
+                                    <tr className="border-b border-zinc-100">
+                                        <td colSpan={4} className="pb-1 text-xs text-amber-700">{product.issues.join(' ')}</td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+          )}
+
+          {timings.length > 0 && (
+            <div>
+                <h3 className="text-lg font-bold text-zinc-800 mb-2">Step Timings</h3>
+                <table className="w-full text-sm text-zinc-700">
+                    <tbody>
+                        {timings.map(timing => (
+                            <tr key={`${timing.stage}-${timing.variant ?? ''}-${timing.startedAt}`} className="border-b border-zinc-100">
+                                <td className="py-1">{compositeStageLabels[timing.stage]}</td>
+                                <td className="py-1 text-right tabular-nums">{formatDuration(timing.durationMs)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                    <tfoot>
+                        <tr className="font-semibold">
+                            <td className="pt-2">Total</td>
+                            <td className="pt-2 text-right tabular-nums">
+                                {formatDuration(Math.max(...timings.map(t => t.startedAt + t.durationMs)) - Math.min(...timings.map(t => t.startedAt)))}
+                            </td>
+                        </tr>
+                    </tfoot>
+                </table>
+            </div>
+          )}
+
+          {calls.length > 0 && (
+            <div>
+                <h3 className="text-lg font-bold text-zinc-800 mb-2">Model Calls</h3>
+                <ModelCallList calls={calls} />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+interface ErrorBannerProps {
+  message: string;
+  onRetry?: () => void;
+  onDismiss: () => void;
+}
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ message, onRetry, onDismiss }) => {
+  return (
+    <div
+      className="w-full bg-red-50 border border-red-200 rounded-lg px-4 py-3 flex items-start gap-4 text-left animate-fade-in"
+      role="alert"
+    >
+      <p className="flex-grow text-sm text-red-700">{message}</p>
+      <div className="flex items-center gap-4 flex-shrink-0">
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="text-sm text-red-700 hover:text-red-900 font-bold transition-colors"
+          >
+            Retry
+          </button>
+        )}
+        <button
+          onClick={onDismiss}
+          className="text-sm text-zinc-500 hover:text-zinc-800 font-semibold transition-colors"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorBanner;
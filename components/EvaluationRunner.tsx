@@ -0,0 +1,291 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  CaseResult, DEFAULT_SUITE_URL, EvaluationReport, EvaluationSuite, compareCaseToBaseline, estimateEvaluationCost,
+  formatDelta, formatMetric, formatPresence, loadEvaluationSuite, parseEvaluationReport, renderEvaluationReportHtml, runEvaluation,
+} from '../services/evaluation';
+import { getImageProvider, isAbortError, isMockModeEnabled } from '../services/imageProvider';
+import { loadPromptTemplates } from '../services/promptTemplates';
+import { checkBudget } from '../services/usageTracker';
+import Spinner from './Spinner';
+
+const statusStyles: Record<CaseResult['status'], string> = {
+  pass: 'text-green-700',
+  fail: 'text-amber-700',
+  error: 'text-red-700',
+};
+
+// Helper to offer a generated document as a download
+const downloadText = (text: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ResultRow: React.FC<{ result: CaseResult; baseline: EvaluationReport | null }> = ({ result, baseline }) => {
+  const comparison = compareCaseToBaseline(result, baseline);
+  const previous = comparison.baseline;
+  const { metrics } = result;
+  return (
+    <tr className="border-b border-zinc-100 align-top">
+      <td className="py-2 pr-2 font-semibold text-zinc-800">{result.id}</td>
+      <td className={`py-2 pr-2 font-semibold ${statusStyles[result.status]}`}>
+        {result.status}
+        {previous && comparison.statusChanged && <span className="block text-xs font-normal text-zinc-500">was {previous.status}</span>}
+      </td>
+      <td className="py-2 pr-2 tabular-nums">
+        {formatMetric(metrics?.ssimOutside, 3)} <span className="text-xs text-zinc-500">{formatDelta(comparison.ssimDelta, 3)}</span>
+      </td>
+      <td className="py-2 pr-2 tabular-nums">
+        {formatMetric(metrics?.driftOutside, 1)} <span className="text-xs text-zinc-500">{formatDelta(comparison.driftDelta, 1)}</span>
+      </td>
+      <td className="py-2 pr-2 tabular-nums">
+        {metrics ? `${metrics.outputWidth}x${metrics.outputHeight}` : '-'}
+        {metrics && !metrics.sizeMatches && <span className="block text-xs text-zinc-500">scene {metrics.sceneWidth}x{metrics.sceneHeight}</span>}
+      </td>
+      <td className="py-2 pr-2">{formatPresence(metrics?.presence ?? [])}</td>
+      <td className="py-2 pr-2">
+        <div className="flex gap-1">
+          {result.thumbnails.scene && <img src={result.thumbnails.scene} alt="Scene" className="h-16 w-auto rounded border border-zinc-200" />}
+          {result.thumbnails.result && <img src={result.thumbnails.result} alt="Result" className="h-16 w-auto rounded border border-zinc-200" />}
+        </div>
+      </td>
+      <td className="py-2 text-xs text-zinc-600">
+        {(result.error ? [result.error] : result.failures).map((note, index) => <p key={index}>{note}</p>)}
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * The evaluation harness page: loads a suite of cases, runs them through the composite pipeline
+ * and shows the scores next to a baseline report, if one is loaded.
+ */
+const EvaluationRunner: React.FC = () => {
+  const [suiteUrl, setSuiteUrl] = useState(DEFAULT_SUITE_URL);
+  const [suite, setSuite] = useState<EvaluationSuite | null>(null);
+  const [judge, setJudge] = useState(true);
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [results, setResults] = useState<CaseResult[]>([]);
+  const [report, setReport] = useState<EvaluationReport | null>(null);
+  const [baseline, setBaseline] = useState<EvaluationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const baselineInputRef = useRef<HTMLInputElement>(null);
+
+  const handleLoadSuite = useCallback(async () => {
+    setError(null);
+    try {
+      setSuite(await loadEvaluationSuite(suiteUrl));
+    } catch (err) {
+      setSuite(null);
+      setError(err instanceof Error ? err.message : 'Could not load the suite.');
+    }
+  }, [suiteUrl]);
+
+  useEffect(() => {
+    // Templates served next to the app must be in place before any prompt is written
+    loadPromptTemplates().then(handleLoadSuite);
+  }, []);
+
+  const handleRun = useCallback(async () => {
+    if (!suite) return;
+    const check = checkBudget(estimateEvaluationCost(suite, judge));
+    if (check.status !== 'ok') {
+      const summary = `Today's estimated spend is $${check.spentUsd.toFixed(2)} and this run adds up to $${check.estimatedUsd.toFixed(2)}, which would pass the $${check.limitUsd.toFixed(2)} daily`;
+      if (check.status === 'block') {
+        setError(`${summary} hard cap.`);
+        return;
+      }
+      if (!window.confirm(`${summary} soft cap. Continue anyway?`)) return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setResults([]);
+    setReport(null);
+    try {
+      const newReport = await runEvaluation(suite, {
+        judge,
+        forceRegenerate,
+        signal: controller.signal,
+        onCaseStart: (testCase, index) => setProgress(`Case ${index + 1} of ${suite.cases.length}: ${testCase.id}`),
+        onCaseComplete: result => setResults(previous => [...previous, result]),
+      });
+      setReport(newReport);
+    } catch (err) {
+      if (!isAbortError(err) && !controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : 'The evaluation failed.');
+      }
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+      setProgress(null);
+    }
+  }, [suite, judge, forceRegenerate]);
+
+  const handleCancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const handleLoadBaseline = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setBaseline(parseEvaluationReport(await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the baseline report.');
+    }
+  }, []);
+
+  const fileStem = report ? `evaluation-${new Date(report.createdAt).toISOString().replace(/[:.]/g, '-')}` : '';
+  const provider = getImageProvider();
+
+  return (
+    <div className="min-h-screen bg-white text-zinc-800 flex flex-col items-center p-4 md:p-8">
+      <div className="w-full max-w-7xl flex flex-col gap-6">
+        <header>
+          <h1 className="text-4xl font-extrabold tracking-tight text-zinc-800">Composite Evaluation</h1>
+          <p className="mt-2 text-sm text-zinc-600">
+            Runs every case of a suite through the composite pipeline with {provider.label}
+            {isMockModeEnabled() ? ' (offline mock: no API calls are made)' : ''} and scores the results.
+            Compare a run with a saved report to catch regressions after changing a prompt or provider.
+          </p>
+        </header>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col text-sm text-zinc-600 flex-grow max-w-md">
+            Suite
+            <input
+              type="text"
+              value={suiteUrl}
+              onChange={(e) => setSuiteUrl(e.target.value)}
+              disabled={isRunning}
+              className="mt-1 border border-zinc-300 rounded-lg px-3 py-2 text-sm text-zinc-800"
+            />
+          </label>
+          <button
+            onClick={handleLoadSuite}
+            disabled={isRunning}
+            className="bg-zinc-200 hover:bg-zinc-300 text-zinc-800 font-bold py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            Load
+          </button>
+          <label className="flex items-center gap-1.5 text-sm text-zinc-600 cursor-pointer">
+            <input type="checkbox" checked={judge} onChange={(e) => setJudge(e.target.checked)} disabled={isRunning} />
+            Ask the judge model if products are present
+          </label>
+          <label className="flex items-center gap-1.5 text-sm text-zinc-600 cursor-pointer">
+            <input type="checkbox" checked={forceRegenerate} onChange={(e) => setForceRegenerate(e.target.checked)} disabled={isRunning} />
+            Bypass cache
+          </label>
+        </div>
+
+        {suite && (
+          <p className="text-sm text-zinc-600">
+            {suite.name}: {suite.cases.length} case{suite.cases.length === 1 ? '' : 's'}, estimated cost up to ${estimateEvaluationCost(suite, judge).toFixed(2)}.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-center gap-3">
+          {isRunning ? (
+            <button
+              onClick={handleCancel}
+              className="bg-zinc-200 hover:bg-zinc-300 text-zinc-800 font-bold py-2 px-4 rounded-lg text-sm transition-colors"
+            >
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={handleRun}
+              disabled={!suite}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm transition-colors disabled:bg-zinc-300"
+            >
+              Run Evaluation
+            </button>
+          )}
+          <button
+            onClick={() => report && downloadText(JSON.stringify(report, null, 2), 'application/json', `${fileStem}.json`)}
+            disabled={!report}
+            className="bg-zinc-200 hover:bg-zinc-300 text-zinc-800 font-bold py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            Download JSON
+          </button>
+          <button
+            onClick={() => report && downloadText(renderEvaluationReportHtml(report, baseline), 'text/html', `${fileStem}.html`)}
+            disabled={!report}
+            className="bg-zinc-200 hover:bg-zinc-300 text-zinc-800 font-bold py-2 px-4 rounded-lg text-sm transition-colors disabled:opacity-50"
+          >
+            Download HTML
+          </button>
+          <button
+            onClick={() => baselineInputRef.current?.click()}
+            className="text-sm text-blue-600 hover:text-blue-800 font-semibold"
+          >
+            {baseline ? 'Change Baseline' : 'Load Baseline'}
+          </button>
+          {baseline && (
+            <span className="text-xs text-zinc-500">
+              Baseline: {baseline.provider}, {new Date(baseline.createdAt).toLocaleString()}, {baseline.summary.passed} of {baseline.summary.total} passed
+              <button onClick={() => setBaseline(null)} className="ml-2 text-red-500 hover:text-red-700 font-semibold">Clear</button>
+            </span>
+          )}
+          <input ref={baselineInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleLoadBaseline} />
+        </div>
+
+        {progress && (
+          <div className="flex items-center gap-3 text-sm text-zinc-600">
+            <Spinner />
+            {progress}
+          </div>
+        )}
+        {error && <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">{error}</p>}
+
+        {report && (
+          <p className="text-sm text-zinc-700">
+            <span className="font-semibold">{report.summary.passed} of {report.summary.total} passed</span>, {report.summary.failed} failed, {report.summary.errored} errored.
+            Mean SSIM outside the placements {formatMetric(report.summary.meanSsimOutside, 3)}, mean drift {formatMetric(report.summary.meanDriftOutside, 1)}.
+            {report.summary.productsJudged > 0 && ` The judge found ${report.summary.productsPresent} of ${report.summary.productsJudged} products at their markers.`}
+          </p>
+        )}
+
+        {results.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr className="border-b border-zinc-300 text-zinc-500">
+                  <th className="py-1.5 pr-2 font-semibold">Case</th>
+                  <th className="py-1.5 pr-2 font-semibold">Status</th>
+                  <th className="py-1.5 pr-2 font-semibold">SSIM outside</th>
+                  <th className="py-1.5 pr-2 font-semibold">Drift outside</th>
+                  <th className="py-1.5 pr-2 font-semibold">Size</th>
+                  <th className="py-1.5 pr-2 font-semibold">Product present</th>
+                  <th className="py-1.5 pr-2 font-semibold">Scene / result</th>
+                  <th className="py-1.5 font-semibold">Notes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.map(result => <ResultRow key={result.id} result={result} baseline={baseline} />)}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EvaluationRunner;
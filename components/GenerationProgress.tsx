@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { CompositeStage } from './types';
+import Spinner from './Spinner';
+
+// A pipeline step as shown while it runs; the duration is filled in once it finishes.
+export interface ProgressStep {
+  stage: CompositeStage;
+  variant?: number;
+  startedAt: number;
+  durationMs: number | null;
+}
+
+export const compositeStageLabels: Record<CompositeStage, string> = {
+  prepare: 'Preparing the scene',
+  resize: 'Resizing images',
+  mark: 'Marking placements',
+  describe: 'Describing placement locations',
+  compose: 'Generating the composite',
+  crop: 'Cropping to the scene',
+  blend: 'Blending into the full-resolution scene',
+  verify: 'Checking the product placement',
+  paste: 'Pasting changes onto the scene',
+  fidelity: 'Checking product fidelity',
+};
+
+export const formatDuration = (ms: number) => ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+interface GenerationProgressProps {
+  message: string;
+  startedAt: number;
+  steps: ProgressStep[];
+  showVariants: boolean;
+  onCancel: () => void;
+}
+
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ message, startedAt, steps, showVariants, onCancel }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while mounted so running steps show a live elapsed time
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 200);
+    return () => clearInterval(interval);
+  }, []);
+
+  const stepLabel = (step: ProgressStep) =>
+    `${compositeStageLabels[step.stage]}${showVariants && step.variant !== undefined ? ` (variant ${step.variant + 1})` : ''}`;
+  const runningStep = [...steps].reverse().find(step => step.durationMs === null);
+
+  return (
+    <div className="animate-fade-in w-full max-w-md mx-auto">
+      <Spinner />
+      <p className="text-xl mt-4 text-zinc-600">{runningStep ? `${stepLabel(runningStep)}...` : message}</p>
+      <p className="text-sm text-zinc-400 mt-1">{formatDuration(Math.max(0, now - startedAt))} elapsed</p>
+      {steps.length > 0 && (
+        <ol className="mt-4 text-left text-xs text-zinc-500 space-y-1">
+          {steps.map(step => (
+            <li key={`${step.stage}-${step.variant ?? ''}-${step.startedAt}`} className="flex justify-between gap-4">
+              <span className={step.durationMs === null ? 'font-semibold text-zinc-700' : ''}>{stepLabel(step)}</span>
+              <span className="tabular-nums">
+                {formatDuration(step.durationMs ?? Math.max(0, now - step.startedAt))}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+      <button
+        onClick={onCancel}
+        className="mt-4 text-sm text-zinc-600 hover:text-zinc-800 font-semibold underline transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
+
+export default GenerationProgress;
@@ -4,7 +4,11 @@
 */
 import React from 'react';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  isMockMode?: boolean;
+}
+
+const Header: React.FC<HeaderProps> = ({ isMockMode = false }) => {
   return (
     <header className="w-full p-4 text-center">
       <div className="flex items-center justify-center">
@@ -17,6 +21,11 @@ const Header: React.FC = () => {
         <br />
         Gemini will create a photorealistic composite.
       </p>
+      {isMockMode && (
+        <p className="mt-3 inline-block text-xs font-semibold text-amber-800 bg-amber-100 border border-amber-300 rounded-full px-3 py-1">
+          Offline mock mode: images are composed locally, no API calls are made.
+        </p>
+      )}
     </header>
   );
 };
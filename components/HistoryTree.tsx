@@ -0,0 +1,154 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo } from 'react';
+import { HistoryEntryMeta, HistoryOperation } from './types';
+import { getFidelityWarning } from '../services/productFidelity';
+
+export type HistoryTreeEntry = HistoryEntryMeta & { url: string };
+
+interface HistoryTreeProps {
+  entries: HistoryTreeEntry[];
+  currentEntryId: string | null;
+  compareEntryId: string | null;
+  onSelect: (id: string) => void;
+  onCompare: (id: string | null) => void;
+  onDelete: (id: string) => void;
+  disabled: boolean;
+}
+
+const operationLabels: Record<HistoryOperation, string> = {
+  upload: 'Upload',
+  compose: 'Composite',
+  edit: 'Edits',
+  inpaint: 'Object removed',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const HistoryTree: React.FC<HistoryTreeProps> = ({
+  entries,
+  currentEntryId,
+  compareEntryId,
+  onSelect,
+  onCompare,
+  onDelete,
+  disabled,
+}) => {
+  // Group entries by parent. Entries whose parent is missing are shown as roots so nothing becomes unreachable.
+  const { roots, childrenByParent } = useMemo(() => {
+    const ids = new Set(entries.map(entry => entry.id));
+    const childrenByParent = new Map<string, HistoryTreeEntry[]>();
+    const roots: HistoryTreeEntry[] = [];
+    entries.forEach(entry => {
+      if (entry.parentId && ids.has(entry.parentId)) {
+        childrenByParent.set(entry.parentId, [...(childrenByParent.get(entry.parentId) ?? []), entry]);
+      } else {
+        roots.push(entry);
+      }
+    });
+    return { roots, childrenByParent };
+  }, [entries]);
+
+  const currentEntry = entries.find(entry => entry.id === currentEntryId) ?? null;
+  const compareEntry = entries.find(entry => entry.id === compareEntryId) ?? null;
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const renderNode = (entry: HistoryTreeEntry): React.ReactNode => {
+    const children = childrenByParent.get(entry.id) ?? [];
+    const isCurrent = entry.id === currentEntryId;
+    const isCompared = entry.id === compareEntryId;
+    const fidelityWarning = getFidelityWarning(entry.fidelity);
+
+    return (
+      <div key={entry.id} className="flex items-start">
+        <div className="flex flex-col items-center flex-shrink-0 w-24">
+          <button
+            onClick={() => onSelect(entry.id)}
+            disabled={disabled || isCurrent}
+            className={`relative w-24 h-16 rounded-md overflow-hidden border-2 transition-all bg-zinc-100 ${isCurrent ? 'border-blue-500' : isCompared ? 'border-amber-500' : 'border-transparent hover:border-zinc-300'} disabled:cursor-default`}
+            aria-label={`Go to ${operationLabels[entry.operation]} from ${formatTime(entry.createdAt)}`}
+          >
+            <img src={entry.url} alt={operationLabels[entry.operation]} className="w-full h-full object-cover" />
+            {fidelityWarning && (
+              <span
+                title={fidelityWarning}
+                className="absolute top-1 right-1 w-4 h-4 rounded-full bg-amber-500 text-white text-[10px] font-bold leading-4 text-center shadow"
+              >
+                !
+              </span>
+            )}
+          </button>
+          <p className="text-[11px] font-semibold text-zinc-700 mt-1">{operationLabels[entry.operation]}</p>
+          <p className="text-[10px] text-zinc-400">{formatTime(entry.createdAt)}</p>
+          <div className="flex items-center gap-2 text-[11px]">
+            {!isCurrent && (
+              <button
+                onClick={() => onCompare(isCompared ? null : entry.id)}
+                disabled={disabled}
+                className="text-zinc-500 hover:text-zinc-800 font-semibold disabled:text-zinc-300"
+              >
+                {isCompared ? 'Uncompare' : 'Compare'}
+              </button>
+            )}
+            <button
+              onClick={() => {
+                const message = children.length > 0
+                  ? 'Delete this version and every version made from it? This cannot be undone.'
+                  : 'Delete this version? This cannot be undone.';
+                if (window.confirm(message)) onDelete(entry.id);
+              }}
+              disabled={disabled}
+              className="text-red-500 hover:text-red-700 font-semibold disabled:text-zinc-300"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+        {children.length > 0 && (
+          <div className={`flex flex-col gap-3 pl-3 ml-3 mt-6 ${children.length > 1 ? 'border-l-2 border-zinc-200' : ''}`}>
+            {children.map(renderNode)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full mt-6 animate-fade-in">
+      <h3 className="text-sm font-bold text-zinc-700 mb-2">History</h3>
+      {currentEntry && compareEntry && (
+        <div className="mb-4 bg-zinc-50 border border-zinc-200 rounded-lg p-3">
+          <div className="flex justify-between items-center mb-2">
+            <p className="text-xs text-zinc-500">Comparing the current scene with another version.</p>
+            <button onClick={() => onCompare(null)} className="text-xs text-blue-600 hover:text-blue-800 font-semibold">
+              Close
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {[{ label: 'Current', entry: currentEntry }, { label: 'Compared', entry: compareEntry }].map(({ label, entry }) => (
+              <figure key={label} className="flex flex-col items-center">
+                <img src={entry.url} alt={label} className="w-full max-h-72 object-contain rounded-md bg-white" />
+                <figcaption className="text-xs text-zinc-600 mt-1">
+                  {label}: {operationLabels[entry.operation]} &middot; {formatTime(entry.createdAt)}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="overflow-x-auto pb-2">
+        <div className="flex flex-col gap-4 w-max">
+          {roots.map(renderNode)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryTree;
@@ -5,15 +5,7 @@
 
 import React, { useCallback, useRef, useState, useImperativeHandle, forwardRef, useEffect } from 'react';
 import Spinner from './Spinner';
-import { Edits, ImageUploaderRef } from './types';
-
-interface PlacedProduct {
-  source: 'product1' | 'product2';
-  imageUrl: string;
-  xPercent: number;
-  yPercent: number;
-  scale: number;
-}
+import { Edits, ImageUploaderRef, PlacedProduct } from './types';
 
 interface ImageUploaderProps {
   id: string;
@@ -26,13 +18,17 @@ interface ImageUploaderProps {
   onProductDrop?: (position: {x: number, y: number}, relativePosition: { xPercent: number; yPercent: number; }) => void;
   showDebugButton?: boolean;
   onDebugClick?: () => void;
+  // Shown as a badge over the image, e.g. when a composite may have altered a product; clicking it opens the debug view
+  warning?: string | null;
   isTouchHovering?: boolean;
   touchOrbPosition?: { x: number; y: number } | null;
   isApplyingEdits?: boolean;
   isMaskingMode?: boolean;
   brushSize?: number;
-  placedProduct?: PlacedProduct | null;
-  onUpdatePlacedProduct?: (update: Partial<Omit<PlacedProduct, 'source' | 'imageUrl'>>) => void;
+  placedProducts?: PlacedProduct[];
+  activePlacementId?: number | null;
+  onSelectPlacedProduct?: (id: number) => void;
+  onUpdatePlacedProduct?: (id: number, update: Partial<Omit<PlacedProduct, 'id' | 'productId' | 'imageUrl'>>) => void;
 }
 
 const UploadIcon: React.FC = () => (
@@ -102,7 +98,7 @@ const getTouchDistance = (touches: React.TouchList | TouchList) => {
     );
 };
 
-const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, imageFile = null, edits, isDropZone = false, onProductDrop, showDebugButton, onDebugClick, isTouchHovering = false, touchOrbPosition = null, isApplyingEdits = false, isMaskingMode = false, brushSize = 40, placedProduct, onUpdatePlacedProduct }, ref) => {
+const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, label, onFileSelect, imageUrl, imageFile = null, edits, isDropZone = false, onProductDrop, showDebugButton, onDebugClick, warning = null, isTouchHovering = false, touchOrbPosition = null, isApplyingEdits = false, isMaskingMode = false, brushSize = 40, placedProducts = [], activePlacementId = null, onSelectPlacedProduct, onUpdatePlacedProduct }, ref) => {
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -120,8 +116,11 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
   const lastPointRef = useRef<{ x: number; y: number } | null>(null);
   
   // Placed product interaction state
-  const dragStartRef = useRef<{ startX: number; startY: number; startXPercent: number; startYPercent: number } | null>(null);
-  const pinchStartRef = useRef<{ initialDist: number; initialScale: number } | null>(null);
+  const dragStartRef = useRef<{ id: number; startX: number; startY: number; startXPercent: number; startYPercent: number } | null>(null);
+  const pinchStartRef = useRef<{ id: number; initialDist: number; initialScale: number } | null>(null);
+  const hasPlacedProducts = placedProducts.length > 0;
+  // A preview drag that ends outside the preview still fires a click on the container; swallow it.
+  const suppressClickRef = useRef(false);
 
 
   useImperativeHandle(ref, () => ({
@@ -355,6 +354,10 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
   }, [onProductDrop]);
 
   const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      return;
+    }
     if (isDropZone && onProductDrop) {
       handlePlacement(event.clientX, event.clientY, event.currentTarget);
     } else if (!isMaskingMode) { // Prevent file dialog when masking
@@ -453,10 +456,12 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
 
   // --- Placed Product Interaction Handlers ---
 
-  const handlePreviewDragStart = (e: React.MouseEvent) => {
+  const handlePreviewDragStart = (e: React.MouseEvent, placedProduct: PlacedProduct) => {
       e.preventDefault();
-      if (!placedProduct) return;
+      suppressClickRef.current = true;
+      onSelectPlacedProduct?.(placedProduct.id);
       dragStartRef.current = {
+          id: placedProduct.id,
           startX: e.clientX,
           startY: e.clientY,
           startXPercent: placedProduct.xPercent,
@@ -476,7 +481,7 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
       const deltaXPercent = (deltaX / rect.width) * 100;
       const deltaYPercent = (deltaY / rect.height) * 100;
 
-      onUpdatePlacedProduct({
+      onUpdatePlacedProduct(dragStartRef.current.id, {
           xPercent: dragStartRef.current.startXPercent + deltaXPercent,
           yPercent: dragStartRef.current.startYPercent + deltaYPercent,
       });
@@ -488,14 +493,16 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
       window.removeEventListener('mouseup', handlePreviewDragEnd);
   };
   
-  const handlePreviewTouchStart = (e: React.TouchEvent) => {
-    if (!placedProduct || !onUpdatePlacedProduct) return;
+  const handlePreviewTouchStart = (e: React.TouchEvent, placedProduct: PlacedProduct) => {
+    if (!onUpdatePlacedProduct) return;
     e.preventDefault();
     e.stopPropagation();
+    onSelectPlacedProduct?.(placedProduct.id);
 
     if (e.touches.length === 1) { // Dragging
         const touch = e.touches[0];
         dragStartRef.current = {
+            id: placedProduct.id,
             startX: touch.clientX,
             startY: touch.clientY,
             startXPercent: placedProduct.xPercent,
@@ -503,6 +510,7 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
         };
     } else if (e.touches.length === 2) { // Pinching
         pinchStartRef.current = {
+            id: placedProduct.id,
             initialDist: getTouchDistance(e.touches),
             initialScale: placedProduct.scale,
         };
@@ -511,7 +519,7 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
   };
 
   const handlePreviewTouchMove = (e: React.TouchEvent) => {
-    if (!placedProduct || !onUpdatePlacedProduct) return;
+    if (!onUpdatePlacedProduct) return;
     e.preventDefault();
     e.stopPropagation();
 
@@ -525,7 +533,7 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
         const deltaXPercent = (deltaX / rect.width) * 100;
         const deltaYPercent = (deltaY / rect.height) * 100;
 
-        onUpdatePlacedProduct({
+        onUpdatePlacedProduct(dragStartRef.current.id, {
             xPercent: dragStartRef.current.startXPercent + deltaXPercent,
             yPercent: dragStartRef.current.startYPercent + deltaYPercent,
         });
@@ -536,7 +544,7 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
         const newScale = pinchStartRef.current.initialScale * scaleFactor;
         
         // Clamp scale to reasonable values
-        onUpdatePlacedProduct({ scale: Math.max(0.1, Math.min(newScale, 5.0)) });
+        onUpdatePlacedProduct(pinchStartRef.current.id, { scale: Math.max(0.1, Math.min(newScale, 5.0)) });
     }
   };
 
@@ -573,13 +581,13 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
-        onMouseDown={!placedProduct ? handleDrawingStart : undefined}
-        onMouseMove={!placedProduct ? handleDrawingMove : undefined}
-        onMouseUp={!placedProduct ? handleDrawingEnd : undefined}
-        onMouseLeave={!placedProduct ? handleDrawingEnd : undefined}
-        onTouchStart={!placedProduct ? handleDrawingStart : undefined}
-        onTouchMove={!placedProduct ? handleDrawingMove : undefined}
-        onTouchEnd={!placedProduct ? handleDrawingEnd : undefined}
+        onMouseDown={!hasPlacedProducts ? handleDrawingStart : undefined}
+        onMouseMove={!hasPlacedProducts ? handleDrawingMove : undefined}
+        onMouseUp={!hasPlacedProducts ? handleDrawingEnd : undefined}
+        onMouseLeave={!hasPlacedProducts ? handleDrawingEnd : undefined}
+        onTouchStart={!hasPlacedProducts ? handleDrawingStart : undefined}
+        onTouchMove={!hasPlacedProducts ? handleDrawingMove : undefined}
+        onTouchEnd={!hasPlacedProducts ? handleDrawingEnd : undefined}
         data-dropzone-id={id}
       >
         <input
@@ -627,17 +635,23 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
                 ></div>
             )}
 
-            {placedProduct && (
+            {placedProducts.map((placedProduct, index) => (
                 <div
-                    className="absolute w-32 h-32 cursor-grab active:cursor-grabbing z-20"
+                    key={placedProduct.id}
+                    className={`absolute w-32 h-32 cursor-grab active:cursor-grabbing ${placedProduct.id === activePlacementId ? 'z-30' : 'z-20'}`}
                     style={{
                         left: `${placedProduct.xPercent}%`,
                         top: `${placedProduct.yPercent}%`,
                         transform: `translate(-50%, -50%) scale(${placedProduct.scale})`,
                         touchAction: 'none', // Important for preventing browser gestures
                     }}
-                    onMouseDown={handlePreviewDragStart}
-                    onTouchStart={handlePreviewTouchStart}
+                    // Stop clicks on a preview from bubbling up and staging another placement
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        suppressClickRef.current = false;
+                    }}
+                    onMouseDown={(e) => handlePreviewDragStart(e, placedProduct)}
+                    onTouchStart={(e) => handlePreviewTouchStart(e, placedProduct)}
                     onTouchMove={handlePreviewTouchMove}
                     onTouchEnd={handlePreviewTouchEnd}
                 >
@@ -647,10 +661,15 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
                             alt="Placed product preview" 
                             className="w-full h-full object-contain pointer-events-none"
                         />
-                         <div className="absolute -inset-2 border-2 border-blue-500 border-dashed rounded-lg animate-pulse"></div>
+                         <div className={`absolute -inset-2 border-2 border-dashed rounded-lg ${placedProduct.id === activePlacementId ? 'border-blue-500 animate-pulse' : 'border-zinc-400'}`}></div>
+                         {placedProducts.length > 1 && (
+                            <span className="absolute -top-3 -left-3 w-6 h-6 rounded-full bg-blue-600 text-white text-xs font-bold flex items-center justify-center shadow">
+                                {index + 1}
+                            </span>
+                         )}
                     </div>
                 </div>
-            )}
+            ))}
             
             <div 
                 className="drop-orb" 
@@ -660,6 +679,21 @@ const ImageUploader = forwardRef<ImageUploaderRef, ImageUploaderProps>(({ id, la
                 }}
             ></div>
 
+            {warning && (
+                <button
+                    onClick={(e) => {
+                        e.stopPropagation();
+                        onDebugClick?.();
+                    }}
+                    title={warning}
+                    className="absolute top-2 left-2 flex items-center bg-amber-500 text-white text-xs font-semibold px-3 py-1.5 rounded-md hover:bg-amber-600 transition-all z-20 shadow-lg"
+                    aria-label={warning}
+                >
+                    <WarningIcon />
+                    Check products
+                </button>
+            )}
+
             {showDebugButton && onDebugClick && (
                 <button
                     onClick={(e) => {
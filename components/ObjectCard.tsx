@@ -4,7 +4,7 @@
 */
 
 import React from 'react';
-import { Product } from '../types';
+import { Product } from './types';
 import Spinner from './Spinner';
 
 interface ObjectCardProps {
@@ -14,10 +14,11 @@ interface ObjectCardProps {
     onRemoveBackground?: () => void;
     onManualRemoveBackground?: () => void;
     isRemovingBackground?: boolean;
+    onCancelRemoveBackground?: () => void;
     disabled?: boolean;
 }
 
-const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick, onRemoveBackground, onManualRemoveBackground, isRemovingBackground, disabled = false }) => {
+const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick, onRemoveBackground, onManualRemoveBackground, isRemovingBackground, onCancelRemoveBackground, disabled = false }) => {
     const cardClasses = `
         relative bg-white rounded-lg shadow-md overflow-hidden transition-all duration-300 group
         ${onClick ? 'cursor-pointer hover:shadow-xl hover:scale-105' : ''}
@@ -30,6 +31,14 @@ const ObjectCard: React.FC<ObjectCardProps> = ({ product, isSelected, onClick, o
                 <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center z-10 animate-fade-in">
                     <Spinner />
                     <p className="text-sm font-semibold text-zinc-600 mt-2">Removing...</p>
+                    {onCancelRemoveBackground && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onCancelRemoveBackground(); }}
+                            className="mt-1 text-xs text-zinc-600 hover:text-zinc-800 font-semibold underline"
+                        >
+                            Cancel
+                        </button>
+                    )}
                 </div>
             )}
             <div className="aspect-square w-full bg-zinc-100 flex items-center justify-center">
@@ -4,10 +4,37 @@
 */
 
 import React from 'react';
+import { PlacementDescription } from './types';
+import { FidelityCheckMode, PlacementCheckMode } from '../services/geminiService';
 
 interface PlacementControlsProps {
   scale: number;
   onScaleChange: (newScale: number) => void;
+  itemCount: number;
+  activeItemName: string | null;
+  onRemoveItem: () => void;
+  // The selected product's location description, and how many staged products have none ready yet
+  description: PlacementDescription | null;
+  onDescriptionChange: (text: string) => void;
+  onRetryDescription: () => void;
+  unreadyDescriptionCount: number;
+  variantCount: number;
+  maxVariantCount: number;
+  onVariantCountChange: (count: number) => void;
+  varyPhrasing: boolean;
+  onVaryPhrasingChange: (vary: boolean) => void;
+  // The composite prompt versions available, and the two to compare side by side (null for a normal run)
+  composeVersions: string[];
+  comparedVersions: [string, string] | null;
+  onComparedVersionsChange: (versions: [string, string] | null) => void;
+  highResolution: boolean;
+  onHighResolutionChange: (enabled: boolean) => void;
+  preserveUnchangedPixels: boolean;
+  onPreserveUnchangedPixelsChange: (enabled: boolean) => void;
+  placementCheck: PlacementCheckMode;
+  onPlacementCheckChange: (mode: PlacementCheckMode) => void;
+  fidelityCheck: FidelityCheckMode;
+  onFidelityCheckChange: (mode: FidelityCheckMode) => void;
   onConfirm: () => void;
   onCancel: () => void;
   disabled: boolean;
@@ -16,19 +43,47 @@ interface PlacementControlsProps {
 const PlacementControls: React.FC<PlacementControlsProps> = ({
   scale,
   onScaleChange,
+  itemCount,
+  activeItemName,
+  onRemoveItem,
+  description,
+  onDescriptionChange,
+  onRetryDescription,
+  unreadyDescriptionCount,
+  variantCount,
+  maxVariantCount,
+  onVariantCountChange,
+  varyPhrasing,
+  onVaryPhrasingChange,
+  composeVersions,
+  comparedVersions,
+  onComparedVersionsChange,
+  highResolution,
+  onHighResolutionChange,
+  preserveUnchangedPixels,
+  onPreserveUnchangedPixelsChange,
+  placementCheck,
+  onPlacementCheckChange,
+  fidelityCheck,
+  onFidelityCheckChange,
   onConfirm,
   onCancel,
   disabled,
 }) => {
   const displayScale = Math.round(scale * 100);
+  const canCompare = composeVersions.length > 1;
+  const comparesSameVersion = comparedVersions !== null && comparedVersions[0] === comparedVersions[1];
 
   return (
     <div className={`bg-zinc-50 border border-zinc-200 rounded-lg p-4 w-full max-w-lg mx-auto animate-fade-in transition-opacity ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
-      <h3 className="text-md font-bold text-center mb-4 text-zinc-700">Adjust Placement</h3>
+      <h3 className="text-md font-bold text-center mb-1 text-zinc-700">Adjust Placement</h3>
+      <p className="text-xs text-zinc-500 text-center mb-4">
+        {itemCount === 1 ? '1 product staged' : `${itemCount} products staged`}. Drop more products to place them in the same generation.
+      </p>
       <div className="space-y-4">
         <div>
           <label htmlFor="scale" className="flex justify-between text-sm font-medium mb-1 text-zinc-600">
-            <span>Scale</span>
+            <span className="truncate mr-2">Scale{activeItemName ? ` · ${activeItemName}` : ''}</span>
             <span>{displayScale}%</span>
           </label>
           <input
@@ -45,22 +100,161 @@ const PlacementControls: React.FC<PlacementControlsProps> = ({
             aria-valuetext={`${displayScale}%`}
           />
         </div>
-        <p className="text-xs text-zinc-500 text-center">Drag the product to move it, or use two fingers to resize on touch screens.</p>
+        <div>
+          <label htmlFor="placement-description" className="flex justify-between text-sm font-medium mb-1 text-zinc-600">
+            <span>Location description</span>
+            {description?.status === 'describing' && <span className="text-zinc-400">Describing...</span>}
+          </label>
+          <textarea
+            id="placement-description"
+            value={description?.text ?? ''}
+            onChange={(e) => onDescriptionChange(e.target.value)}
+            disabled={disabled}
+            rows={3}
+            placeholder={description?.status === 'describing' ? 'Describing where the product was placed...' : 'Describe where the product should go.'}
+            className="w-full border border-zinc-300 rounded-md p-2 text-xs text-zinc-700 bg-white"
+          />
+          {description?.status === 'failed' && (
+            <p className="text-xs text-red-600 mt-1">
+              {description.error ?? 'The location could not be described.'} Write a description or{' '}
+              <button onClick={onRetryDescription} className="font-semibold underline hover:text-red-800">try again</button>.
+            </p>
+          )}
+          <p className="text-xs text-zinc-500 mt-1">This text tells the image model where the product goes. Check it, or correct it, before generating.</p>
+        </div>
+        <p className="text-xs text-zinc-500 text-center">Drag a product to move it, or use two fingers to resize on touch screens. Click a product to select it.</p>
+        <div className="flex items-center justify-between gap-4 text-sm text-zinc-600">
+          <label htmlFor="variant-count" className="flex items-center gap-2 font-medium">
+            Variants
+            <select
+              id="variant-count"
+              value={variantCount}
+              onChange={(e) => onVariantCountChange(parseInt(e.target.value, 10))}
+              disabled={disabled || comparedVersions !== null}
+              className="border border-zinc-300 rounded-md px-2 py-1 bg-white"
+            >
+              {Array.from({ length: maxVariantCount }, (_, index) => index + 1).map(count => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+          <label className={`flex items-center gap-2 ${variantCount > 1 && !comparedVersions ? '' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={varyPhrasing}
+              onChange={(e) => onVaryPhrasingChange(e.target.checked)}
+              disabled={disabled || variantCount === 1 || comparedVersions !== null}
+              className="accent-blue-600"
+            />
+            Vary prompt wording
+          </label>
+        </div>
+        <div className={`text-sm text-zinc-600 ${canCompare ? '' : 'opacity-50'}`}>
+          <label className="flex items-center gap-2" title="Generates one result per prompt version with the same seed, so only the wording differs.">
+            <input
+              type="checkbox"
+              checked={comparedVersions !== null}
+              onChange={(e) => onComparedVersionsChange(e.target.checked ? [composeVersions[0], composeVersions[1]] : null)}
+              disabled={disabled || !canCompare}
+              className="accent-blue-600"
+            />
+            Compare prompt versions (A/B)
+          </label>
+          {comparedVersions && (
+            <div className="flex items-center gap-3 mt-2 ml-6">
+              {(['A', 'B'] as const).map((slot, index) => (
+                <label key={slot} className="flex items-center gap-1 font-medium">
+                  {slot}
+                  <select
+                    value={comparedVersions[index]}
+                    onChange={(e) => {
+                      onComparedVersionsChange(index === 0 ? [e.target.value, comparedVersions[1]] : [comparedVersions[0], e.target.value]);
+                    }}
+                    disabled={disabled}
+                    className="border border-zinc-300 rounded-md px-2 py-1 bg-white"
+                  >
+                    {composeVersions.map(version => <option key={version} value={version}>{version}</option>)}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+        <label className="flex items-center gap-2 text-sm text-zinc-600" title="Composites a region around the products at full resolution and blends it back, so the result keeps the scene's original size.">
+          <input
+            type="checkbox"
+            checked={highResolution}
+            onChange={(e) => onHighResolutionChange(e.target.checked)}
+            disabled={disabled}
+            className="accent-blue-600"
+          />
+          Full-resolution output
+        </label>
+        <label className="flex items-center gap-2 text-sm text-zinc-600" title="Only the area the model changed around the products (including shadows) is applied; the rest of the scene keeps its previous pixels.">
+          <input
+            type="checkbox"
+            checked={preserveUnchangedPixels}
+            onChange={(e) => onPreserveUnchangedPixelsChange(e.target.checked)}
+            disabled={disabled}
+            className="accent-blue-600"
+          />
+          Keep the rest of the scene untouched
+        </label>
+        <label className="flex items-center justify-between gap-2 text-sm text-zinc-600" title="Checks that each product appears where it was placed and generates the composite again with a new seed if it doesn't.">
+          <span>Check the product placement</span>
+          <select
+            value={placementCheck}
+            onChange={(e) => onPlacementCheckChange(e.target.value as PlacementCheckMode)}
+            disabled={disabled}
+            className="border border-zinc-300 rounded-md px-2 py-1 bg-white"
+          >
+            <option value="off">Off</option>
+            <option value="pixels">Compare pixels</option>
+            <option value="judge">Compare pixels and ask the model</option>
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2 text-sm text-zinc-600" title="Compares each placed product with its image and flags the composite if its colours, label, logo or text changed.">
+          <span>Check product fidelity</span>
+          <select
+            value={fidelityCheck}
+            onChange={(e) => onFidelityCheckChange(e.target.value as FidelityCheckMode)}
+            disabled={disabled}
+            className="border border-zinc-300 rounded-md px-2 py-1 bg-white"
+          >
+            <option value="off">Off</option>
+            <option value="pixels">Compare pixels</option>
+            <option value="judge">Compare pixels and ask the model</option>
+          </select>
+        </label>
       </div>
       <div className="flex justify-between items-center mt-6">
-        <button
-          onClick={onCancel}
-          disabled={disabled}
-          className="text-sm text-zinc-600 hover:text-zinc-800 font-semibold disabled:text-zinc-400 disabled:cursor-not-allowed transition-colors"
-        >
-          Cancel
-        </button>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onCancel}
+            disabled={disabled}
+            className="text-sm text-zinc-600 hover:text-zinc-800 font-semibold disabled:text-zinc-400 disabled:cursor-not-allowed transition-colors"
+          >
+            Cancel
+          </button>
+          {itemCount > 1 && (
+            <button
+              onClick={onRemoveItem}
+              disabled={disabled}
+              className="text-sm text-red-600 hover:text-red-800 font-semibold disabled:text-zinc-400 disabled:cursor-not-allowed transition-colors"
+            >
+              Remove Selected
+            </button>
+          )}
+        </div>
         <button
           onClick={onConfirm}
-          disabled={disabled}
+          disabled={disabled || unreadyDescriptionCount > 0 || comparesSameVersion}
+          title={unreadyDescriptionCount > 0
+            ? `${unreadyDescriptionCount === 1 ? '1 product needs' : `${unreadyDescriptionCount} products need`} a location description first.`
+            : comparesSameVersion ? 'Pick two different prompt versions to compare.' : undefined}
           className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm transition-colors disabled:bg-blue-400 disabled:cursor-not-allowed"
         >
-          Generate Scene
+          {comparedVersions ? 'Generate A/B Comparison' : variantCount > 1 ? `Generate ${variantCount} Variants` : 'Generate Scene'}
         </button>
       </div>
     </div>
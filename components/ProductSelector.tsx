@@ -4,13 +4,27 @@
 */
 
 import React, { useRef, useState, useCallback, useEffect } from 'react';
-import { Product } from '../types';
+import { Product } from './types';
 import ObjectCard from './ObjectCard';
 
 interface ProductSelectorProps {
     products: Product[];
+    selectedProductId?: number | null;
     onSelect: (product: Product) => void;
     onAddOwnProductClick: () => void;
+    onRemove?: (product: Product) => void;
+    onMove?: (product: Product, direction: 'left' | 'right') => void;
+    onRemoveBackground?: (product: Product) => void;
+    onManualRemoveBackground?: (product: Product) => void;
+    removingBackgroundId?: number | null;
+    onCancelRemoveBackground?: () => void;
+    // Products whose image came from model calls, which can be opened in the request inspector
+    inspectableProductIds?: number[];
+    onInspect?: (product: Product) => void;
+    isDraggable?: boolean;
+    onProductDragStart?: (product: Product, e: React.DragEvent) => void;
+    onProductTouchStart?: (product: Product, e: React.TouchEvent) => void;
+    disabled?: boolean;
 }
 
 const ArrowLeftIcon = () => (
@@ -25,7 +39,24 @@ const ArrowRightIcon = () => (
     </svg>
 );
 
-const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onSelect, onAddOwnProductClick }) => {
+const ProductSelector: React.FC<ProductSelectorProps> = ({
+    products,
+    selectedProductId = null,
+    onSelect,
+    onAddOwnProductClick,
+    onRemove,
+    onMove,
+    onRemoveBackground,
+    onManualRemoveBackground,
+    removingBackgroundId = null,
+    onCancelRemoveBackground,
+    inspectableProductIds = [],
+    onInspect,
+    isDraggable = false,
+    onProductDragStart,
+    onProductTouchStart,
+    disabled = false,
+}) => {
     const scrollContainerRef = useRef<HTMLDivElement>(null);
     const [canScrollLeft, setCanScrollLeft] = useState(false);
     const [canScrollRight, setCanScrollRight] = useState(true);
@@ -85,13 +116,70 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onSelect, o
                     ref={scrollContainerRef}
                     className="flex space-x-6 overflow-x-auto snap-x snap-mandatory py-4 scrollbar-hide"
                 >
-                    {products.map(product => (
-                         <div key={product.id} className="snap-center shrink-0 w-52 md:w-64">
-                            <ObjectCard
-                                product={product}
-                                isSelected={false}
-                                onClick={() => onSelect(product)}
-                            />
+                    {products.map((product, index) => (
+                         <div key={product.id} className="snap-center shrink-0 w-40 md:w-48">
+                            <div
+                                draggable={isDraggable}
+                                onDragStart={(e) => {
+                                    if (!isDraggable) { e.preventDefault(); return; }
+                                    onProductDragStart?.(product, e);
+                                }}
+                                onTouchStart={isDraggable && onProductTouchStart ? (e) => onProductTouchStart(product, e) : undefined}
+                                className={isDraggable ? 'cursor-move' : 'cursor-not-allowed'}
+                            >
+                                <ObjectCard
+                                    product={product}
+                                    isSelected={product.id === selectedProductId}
+                                    onClick={() => onSelect(product)}
+                                    onRemoveBackground={onRemoveBackground ? () => onRemoveBackground(product) : undefined}
+                                    onManualRemoveBackground={onManualRemoveBackground ? () => onManualRemoveBackground(product) : undefined}
+                                    isRemovingBackground={product.id === removingBackgroundId}
+                                    onCancelRemoveBackground={onCancelRemoveBackground}
+                                    disabled={disabled}
+                                />
+                            </div>
+                            {(onMove || onRemove) && (
+                                <div className="flex items-center justify-center gap-3 mt-3 text-sm">
+                                    {onMove && (
+                                        <button
+                                            onClick={() => onMove(product, 'left')}
+                                            disabled={disabled || index === 0}
+                                            className="text-zinc-500 hover:text-zinc-800 disabled:text-zinc-300 disabled:cursor-not-allowed transition-colors"
+                                            aria-label={`Move ${product.name} left`}
+                                        >
+                                            &larr;
+                                        </button>
+                                    )}
+                                    {onRemove && (
+                                        <button
+                                            onClick={() => onRemove(product)}
+                                            disabled={disabled}
+                                            className="text-blue-600 hover:text-blue-800 font-semibold disabled:text-zinc-400 disabled:cursor-not-allowed transition-colors"
+                                        >
+                                            Remove
+                                        </button>
+                                    )}
+                                    {onInspect && inspectableProductIds.includes(product.id) && (
+                                        <button
+                                            onClick={() => onInspect(product)}
+                                            className="text-blue-600 hover:text-blue-800 font-semibold transition-colors"
+                                            title="Show the model calls that produced this image"
+                                        >
+                                            Requests
+                                        </button>
+                                    )}
+                                    {onMove && (
+                                        <button
+                                            onClick={() => onMove(product, 'right')}
+                                            disabled={disabled || index === products.length - 1}
+                                            className="text-zinc-500 hover:text-zinc-800 disabled:text-zinc-300 disabled:cursor-not-allowed transition-colors"
+                                            aria-label={`Move ${product.name} right`}
+                                        >
+                                            &rarr;
+                                        </button>
+                                    )}
+                                </div>
+                            )}
                         </div>
                     ))}
                 </div>
@@ -107,7 +195,8 @@ const ProductSelector: React.FC<ProductSelectorProps> = ({ products, onSelect, o
             <div className="mt-8">
                 <button
                     onClick={onAddOwnProductClick}
-                    className="bg-zinc-100 hover:bg-zinc-200 text-zinc-800 font-bold py-2 px-6 rounded-lg text-md transition-colors border border-zinc-300 shadow-sm"
+                    disabled={disabled}
+                    className="bg-zinc-100 hover:bg-zinc-200 text-zinc-800 font-bold py-2 px-6 rounded-lg text-md transition-colors border border-zinc-300 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                     Add Your Own Product!
                 </button>
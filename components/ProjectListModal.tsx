@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ProjectSummary } from '../services/projectStore';
+
+interface ProjectListModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: ProjectSummary[];
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onNewProject: () => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+const ProjectListModal: React.FC<ProjectListModalProps> = ({
+  isOpen,
+  onClose,
+  projects,
+  currentProjectId,
+  onOpen,
+  onDuplicate,
+  onRename,
+  onDelete,
+  onNewProject,
+}) => {
+  const [thumbnailUrls, setThumbnailUrls] = useState<Record<string, string>>({});
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  useEffect(() => {
+    const urls: Record<string, string> = {};
+    projects.forEach(project => {
+      if (project.thumbnail) urls[project.id] = URL.createObjectURL(project.thumbnail);
+    });
+    setThumbnailUrls(urls);
+    return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+  }, [projects]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleModalContentClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+  };
+
+  const startRename = (project: ProjectSummary) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={handleModalContentClick}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4 flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800">Projects</h2>
+          <p className="text-sm text-zinc-500 mt-1">Your work is saved automatically in this browser.</p>
+        </div>
+
+        <div className="flex flex-col gap-3 overflow-y-auto">
+          {projects.length === 0 && (
+            <p className="text-center text-zinc-500 py-6">No saved projects yet.</p>
+          )}
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className={`flex items-center gap-4 p-3 rounded-lg border ${project.id === currentProjectId ? 'border-blue-500 bg-blue-50' : 'border-zinc-200'}`}
+            >
+              <div className="w-20 h-14 flex-shrink-0 rounded-md overflow-hidden bg-zinc-100">
+                {thumbnailUrls[project.id] && (
+                  <img src={thumbnailUrls[project.id]} alt={project.name} className="w-full h-full object-cover" />
+                )}
+              </div>
+              <div className="flex-grow min-w-0">
+                {renamingId === project.id ? (
+                  <input
+                    autoFocus
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="w-full border border-zinc-300 rounded-md px-2 py-1 text-sm"
+                    aria-label="Project name"
+                  />
+                ) : (
+                  <h3 className="text-sm font-semibold text-zinc-800 truncate">{project.name}</h3>
+                )}
+                <p className="text-xs text-zinc-500">
+                  {project.productCount} products &middot; {project.historyLength} scene versions &middot; {formatDate(project.updatedAt)}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 text-sm flex-shrink-0">
+                <button
+                  onClick={() => onOpen(project.id)}
+                  disabled={project.id === currentProjectId}
+                  className="text-blue-600 hover:text-blue-800 font-semibold disabled:text-zinc-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  {project.id === currentProjectId ? 'Open' : 'Reopen'}
+                </button>
+                <button onClick={() => onDuplicate(project.id)} className="text-zinc-600 hover:text-zinc-800 font-semibold">
+                  Duplicate
+                </button>
+                <button onClick={() => startRename(project)} className="text-zinc-600 hover:text-zinc-800 font-semibold">
+                  Rename
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) onDelete(project.id);
+                  }}
+                  className="text-red-600 hover:text-red-800 font-semibold"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end mt-6 flex-shrink-0">
+          <button
+            onClick={onNewProject}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm transition-colors"
+          >
+            New Project
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectListModal;
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ModelCallPart, ModelCallRecord } from './types';
+import { formatDuration } from './GenerationProgress';
+
+interface RequestInspectorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  description?: string;
+  calls: ModelCallRecord[];
+  onClear?: () => void;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const operationLabels: Record<ModelCallRecord['operation'], string> = {
+  segment: 'Background removal',
+  inpaint: 'Object removal',
+  describe: 'Placement description',
+  compose: 'Composite',
+};
+
+const PartList: React.FC<{ parts: ModelCallPart[]; emptyText: string }> = ({ parts, emptyText }) => {
+  if (parts.length === 0) {
+    return <p className="text-xs text-zinc-500">{emptyText}</p>;
+  }
+  return (
+    <div className="flex flex-wrap gap-2 items-start">
+      {parts.map((part, index) => part.kind === 'image' && part.thumbnailUrl ? (
+        <img
+          key={index}
+          src={part.thumbnailUrl}
+          alt={`Part ${index + 1}`}
+          className="h-24 w-auto rounded border border-zinc-200 bg-[repeating-conic-gradient(#e4e4e7_0%_25%,#fff_0%_50%)] bg-[length:16px_16px]"
+        />
+      ) : (
+        <pre key={index} className="w-full bg-zinc-100 text-zinc-700 p-2 rounded text-xs whitespace-pre-wrap">{part.text || '(empty text)'}</pre>
+      ))}
+    </div>
+  );
+};
+
+const ModelCallItem: React.FC<{ call: ModelCallRecord; index: number }> = ({ call, index }) => {
+  const status = call.error
+    ? <span className="text-red-600 font-semibold">Failed</span>
+    : call.cached
+      ? <span className="text-zinc-500 font-semibold">Cached</span>
+      : <span className="text-green-700 font-semibold">OK</span>;
+
+  return (
+    <details className="border border-zinc-200 rounded-lg">
+      <summary className="cursor-pointer px-3 py-2 text-sm text-zinc-700 flex flex-wrap items-center gap-x-3 gap-y-1">
+        <span className="font-semibold text-zinc-800">
+          {index + 1}. {operationLabels[call.operation]}{call.variant !== undefined ? ` (variant ${call.variant + 1})` : ''}
+        </span>
+        <span className="text-zinc-500">{call.model}</span>
+        {call.promptTemplate && <span className="text-zinc-500">prompt {call.promptTemplate.kind}@{call.promptTemplate.version}</span>}
+        <span className="text-zinc-500 tabular-nums">{new Date(call.startedAt).toLocaleTimeString()}</span>
+        <span className="text-zinc-500 tabular-nums">{call.cached ? '-' : formatDuration(call.durationMs)}</span>
+        <span className="ml-auto">{status}</span>
+      </summary>
+      <div className="px-3 pb-3 flex flex-col gap-3 text-left">
+        {call.error && (
+          <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-2">{call.error}</p>
+        )}
+        <div>
+          <h4 className="text-sm font-bold text-zinc-800 mb-1">Input Images</h4>
+          <PartList parts={call.inputs} emptyText="No images." />
+        </div>
+        <div>
+          <h4 className="text-sm font-bold text-zinc-800 mb-1">Prompt</h4>
+          <pre className="bg-zinc-100 text-zinc-700 p-2 rounded text-xs whitespace-pre-wrap">{call.prompt}</pre>
+        </div>
+        <div>
+          <h4 className="text-sm font-bold text-zinc-800 mb-1">Config</h4>
+          <pre className="bg-zinc-100 text-zinc-700 p-2 rounded text-xs whitespace-pre-wrap">
+            {JSON.stringify({ provider: call.provider, model: call.model, ...call.config }, null, 2)}
+          </pre>
+        </div>
+        <div>
+          <h4 className="text-sm font-bold text-zinc-800 mb-1">
+            Response{call.finishReason ? ` (finish reason: ${call.finishReason})` : ''}
+          </h4>
+          <PartList parts={call.response} emptyText="No response parts." />
+        </div>
+      </div>
+    </details>
+  );
+};
+
+/**
+ * The model calls behind a result, oldest first. Each expands to show its inputs, prompt, config and response.
+ */
+export const ModelCallList: React.FC<{ calls: ModelCallRecord[] }> = ({ calls }) => (
+  <div className="flex flex-col gap-2">
+    {calls.map((call, index) => <ModelCallItem key={call.id} call={call} index={index} />)}
+  </div>
+);
+
+const RequestInspector: React.FC<RequestInspectorProps> = ({ isOpen, onClose, title, description, calls, onClear }) => {
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-4xl p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4 flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800">{title}</h2>
+          {description && <p className="text-xs text-zinc-500 mt-1">{description}</p>}
+        </div>
+
+        <div className="overflow-y-auto">
+          {calls.length > 0
+            ? <ModelCallList calls={calls} />
+            : <p className="text-sm text-zinc-500 text-center">No model calls.</p>}
+        </div>
+
+        {onClear && (
+          <div className="flex justify-start mt-4 flex-shrink-0">
+            <button
+              onClick={onClear}
+              disabled={calls.length === 0}
+              className="text-sm text-red-500 hover:text-red-700 font-semibold disabled:text-zinc-300"
+            >
+              Clear Log
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RequestInspector;
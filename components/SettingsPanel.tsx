@@ -0,0 +1,273 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { ProviderOperation } from '../services/imageProvider';
+import { hasKnownPricing } from '../services/usageTracker';
+import { AppSettings, DEFAULT_SETTINGS, MAX_CANDIDATE_COUNT, MODEL_SUGGESTIONS, WORKING_RESOLUTIONS } from '../services/settings';
+import {
+  PROMPT_TEMPLATE_LABELS, PromptComparisonSummary, PromptTemplateKind, clearPromptComparisons, getDefaultPromptVersion, getPromptTemplates,
+  summarizePromptComparisons,
+} from '../services/promptTemplates';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  isProxyBuild: boolean;
+}
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const operationLabels: Record<ProviderOperation, string> = {
+  describe: 'Placement description',
+  compose: 'Composite',
+  inpaint: 'Object removal',
+  segment: 'Background removal',
+};
+
+const inputClassName = 'w-full border border-zinc-300 rounded-md px-2 py-1 text-sm';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, settings, onSave, isProxyBuild }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const [showKey, setShowKey] = useState(false);
+  const [comparisonSummary, setComparisonSummary] = useState<PromptComparisonSummary>(() => summarizePromptComparisons('compose'));
+
+  // Start from the saved settings every time the panel opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(settings);
+      setShowKey(false);
+      setComparisonSummary(summarizePromptComparisons('compose'));
+    }
+  }, [isOpen, settings]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  const handleClearComparisons = () => {
+    if (!window.confirm('Clear all A/B comparison results?')) return;
+    clearPromptComparisons();
+    setComparisonSummary(summarizePromptComparisons('compose'));
+  };
+
+  const handleSave = () => {
+    onSave(draft);
+    onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4 flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800">Settings</h2>
+          <p className="text-xs text-zinc-500 mt-1">Settings are stored in this browser only.</p>
+        </div>
+
+        <div className="flex flex-col gap-6 overflow-y-auto">
+          <div>
+            <h3 className="text-lg font-bold text-zinc-800 mb-1">API Key</h3>
+            <p className="text-xs text-zinc-500 mb-2">
+              {isProxyBuild
+                ? 'Leave empty to send requests through the app\'s proxy server. With your own key, requests go straight to Gemini and are billed to your account.'
+                : 'Leave empty to use the key the app was started with. With your own key, requests are billed to your account.'}
+              {' '}The key is saved unencrypted in this browser's local storage.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type={showKey ? 'text' : 'password'}
+                value={draft.apiKey}
+                onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                placeholder="Gemini API key"
+                autoComplete="off"
+                spellCheck={false}
+                className={inputClassName}
+              />
+              <button
+                onClick={() => setShowKey(!showKey)}
+                className="text-sm text-blue-600 hover:text-blue-800 font-semibold flex-shrink-0"
+              >
+                {showKey ? 'Hide' : 'Show'}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-bold text-zinc-800 mb-1">Models</h3>
+            <p className="text-xs text-zinc-500 mb-2">Pick a suggested model or type any model name your key can use. Models without a known price are estimated at the highest known prices.</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {(Object.keys(operationLabels) as ProviderOperation[]).map(operation => (
+                <label key={operation} className="flex flex-col gap-1 text-sm text-zinc-700">
+                  {operationLabels[operation]}
+                  <input
+                    list={`model-suggestions-${operation}`}
+                    value={draft.models[operation]}
+                    onChange={(e) => setDraft({ ...draft, models: { ...draft.models, [operation]: e.target.value } })}
+                    placeholder={DEFAULT_SETTINGS.models[operation]}
+                    spellCheck={false}
+                    className={inputClassName}
+                  />
+                  <datalist id={`model-suggestions-${operation}`}>
+                    {MODEL_SUGGESTIONS[operation].map(model => <option key={model} value={model} />)}
+                  </datalist>
+                  {draft.models[operation].trim() && !hasKnownPricing(draft.models[operation].trim()) && (
+                    <span className="text-xs text-amber-700">No known price; costs are estimated at the highest known prices.</span>
+                  )}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-bold text-zinc-800 mb-1">Generation</h3>
+            <p className="text-xs text-zinc-500 mb-2">
+              Higher temperatures give more varied results. Extra candidates make a usable image more likely but cost as much as extra calls; some models accept only one.
+              The working resolution is the size images are sent to the model at; larger is sharper, slower and costs more.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <label className="flex flex-col gap-1 text-sm text-zinc-700">
+                Temperature
+                <input
+                  type="number"
+                  min="0"
+                  max="2"
+                  step="0.1"
+                  value={draft.temperature ?? ''}
+                  onChange={(e) => setDraft({ ...draft, temperature: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                  placeholder="Model default"
+                  className={inputClassName}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-zinc-700">
+                Candidates per call
+                <select
+                  value={draft.candidateCount}
+                  onChange={(e) => setDraft({ ...draft, candidateCount: parseInt(e.target.value, 10) })}
+                  className={inputClassName}
+                >
+                  {Array.from({ length: MAX_CANDIDATE_COUNT }, (_, index) => index + 1).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-sm text-zinc-700">
+                Working resolution
+                <select
+                  value={draft.workingResolution}
+                  onChange={(e) => setDraft({ ...draft, workingResolution: parseInt(e.target.value, 10) })}
+                  className={inputClassName}
+                >
+                  {WORKING_RESOLUTIONS.map(resolution => (
+                    <option key={resolution} value={resolution}>{resolution}px</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-lg font-bold text-zinc-800 mb-1">Prompt Templates</h3>
+            <p className="text-xs text-zinc-500 mb-2">
+              The prompt version used for each operation. Every result records the versions it was made with.
+              Composite versions can also be compared side by side from the placement controls; the counts below are how often each version's result was picked.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {(Object.keys(PROMPT_TEMPLATE_LABELS) as PromptTemplateKind[]).map(kind => (
+                <label key={kind} className="flex flex-col gap-1 text-sm text-zinc-700">
+                  {PROMPT_TEMPLATE_LABELS[kind]}
+                  <select
+                    value={draft.promptVersions[kind] ?? ''}
+                    onChange={(e) => {
+                      const { [kind]: _previous, ...rest } = draft.promptVersions;
+                      setDraft({ ...draft, promptVersions: e.target.value ? { ...rest, [kind]: e.target.value } : rest });
+                    }}
+                    className={inputClassName}
+                  >
+                    <option value="">Default ({getDefaultPromptVersion(kind)})</option>
+                    {getPromptTemplates(kind).map(template => (
+                      <option key={template.version} value={template.version}>
+                        {template.version}{template.description ? ` - ${template.description}` : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+            <div className="mt-3 text-sm text-zinc-700">
+              <h4 className="font-semibold mb-1">Composite A/B results</h4>
+              {Object.keys(comparisonSummary).length === 0 ? (
+                <p className="text-xs text-zinc-500">No comparisons yet.</p>
+              ) : (
+                <ul className="text-xs text-zinc-600 space-y-0.5">
+                  {Object.keys(comparisonSummary).map(version => {
+                    const { wins, comparisons } = comparisonSummary[version];
+                    return (
+                      <li key={version} className="tabular-nums">
+                        {version}: picked {wins} of {comparisons} time{comparisons === 1 ? '' : 's'} ({Math.round(wins / comparisons * 100)}%)
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+              {Object.keys(comparisonSummary).length > 0 && (
+                <button onClick={handleClearComparisons} className="text-xs text-red-500 hover:text-red-700 font-semibold mt-1">
+                  Clear Results
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 mt-6 flex-shrink-0">
+          <button
+            onClick={() => setDraft({ ...DEFAULT_SETTINGS, apiKey: draft.apiKey })}
+            className="text-sm text-zinc-500 hover:text-zinc-800 font-semibold"
+          >
+            Reset to Defaults
+          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onClose}
+              className="bg-zinc-200 hover:bg-zinc-300 text-zinc-800 font-bold py-2 px-4 rounded-lg text-sm transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg text-sm transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,203 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { ProviderOperation } from '../services/imageProvider';
+import { BudgetSettings, UsageRecord, UsageSummary, sessionStartedAt, summarizeUsage, toDayKey } from '../services/usageTracker';
+
+interface UsagePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  records: UsageRecord[];
+  budget: BudgetSettings;
+  onBudgetChange: (budget: BudgetSettings) => void;
+  onClearUsage: () => void;
+}
+
+type UsageScope = 'session' | 'today' | 'all';
+
+const CloseIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+    </svg>
+);
+
+const operationLabels: Record<ProviderOperation, string> = {
+  segment: 'Background removal',
+  inpaint: 'Object removal',
+  describe: 'Placement description',
+  compose: 'Composite',
+};
+
+const scopeLabels: Record<UsageScope, string> = {
+  session: 'This session',
+  today: 'Today',
+  all: 'Last 90 days',
+};
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 4 : 2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+// Helper to parse a budget input; an empty field disables the cap
+const parseLimit = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return value.trim() === '' || Number.isNaN(parsed) || parsed < 0 ? null : parsed;
+};
+
+const SummaryRow: React.FC<{ label: string; summary: UsageSummary }> = ({ label, summary }) => (
+  <tr className="border-b border-zinc-100">
+    <td className="py-1.5 pr-2">{label}</td>
+    <td className="py-1.5 text-right tabular-nums">{summary.calls}</td>
+    <td className="py-1.5 text-right tabular-nums">{formatTokens(summary.inputTokens)}</td>
+    <td className="py-1.5 text-right tabular-nums">{formatTokens(summary.outputTokens)}</td>
+    <td className="py-1.5 text-right tabular-nums">{summary.inputImages} / {summary.outputImages}</td>
+    <td className="py-1.5 text-right tabular-nums">
+      {summary.calls > 0 ? `${(summary.totalLatencyMs / summary.calls / 1000).toFixed(1)} s` : '-'}
+    </td>
+    <td className="py-1.5 text-right tabular-nums font-semibold">{formatCost(summary.costUsd)}</td>
+  </tr>
+);
+
+const SummaryTable: React.FC<{ firstColumn: string; rows: { label: string; summary: UsageSummary }[] }> = ({ firstColumn, rows }) => (
+  <table className="w-full text-sm text-zinc-700">
+    <thead>
+      <tr className="text-xs text-zinc-500 border-b border-zinc-200">
+        <th className="py-1 text-left font-semibold">{firstColumn}</th>
+        <th className="py-1 text-right font-semibold">Calls</th>
+        <th className="py-1 text-right font-semibold">Tokens in</th>
+        <th className="py-1 text-right font-semibold">Tokens out</th>
+        <th className="py-1 text-right font-semibold">Images in / out</th>
+        <th className="py-1 text-right font-semibold">Avg latency</th>
+        <th className="py-1 text-right font-semibold">Est. cost</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map(row => <SummaryRow key={row.label} {...row} />)}
+    </tbody>
+  </table>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ isOpen, onClose, records, budget, onBudgetChange, onClearUsage }) => {
+  const [scope, setScope] = useState<UsageScope>('session');
+
+  const { scopeSummaries, operationRows, dayRows } = useMemo(() => {
+    const today = toDayKey(Date.now());
+    const byScope: Record<UsageScope, UsageRecord[]> = {
+      session: records.filter(record => record.timestamp >= sessionStartedAt),
+      today: records.filter(record => toDayKey(record.timestamp) === today),
+      all: records,
+    };
+    const scopeSummaries = (Object.keys(byScope) as UsageScope[]).map(key => ({ label: scopeLabels[key], summary: summarizeUsage(byScope[key]) }));
+    const operationRows = (Object.keys(operationLabels) as ProviderOperation[])
+      .map(operation => ({ label: operationLabels[operation], summary: summarizeUsage(byScope[scope].filter(record => record.operation === operation)) }))
+      .filter(row => row.summary.calls > 0);
+    const days = new Map<string, UsageRecord[]>();
+    records.forEach(record => {
+      const day = toDayKey(record.timestamp);
+      days.set(day, [...(days.get(day) ?? []), record]);
+    });
+    const dayRows = [...days.entries()]
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([day, dayRecords]) => ({ label: day, summary: summarizeUsage(dayRecords) }));
+    return { scopeSummaries, operationRows, dayRows };
+  }, [records, scope]);
+
+  if (!isOpen) {
+    return null;
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-4xl p-6 md:p-8 relative transform transition-all flex flex-col"
+        style={{ maxHeight: '90vh' }}
+        onClick={(e) => e.stopPropagation()}
+        role="document"
+      >
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-zinc-800 transition-colors"
+          aria-label="Close modal"
+        >
+          <CloseIcon />
+        </button>
+        <div className="text-center mb-4 flex-shrink-0">
+          <h2 className="text-2xl font-extrabold text-zinc-800">Usage</h2>
+          <p className="text-xs text-zinc-500 mt-1">Costs are estimates from published per-token prices. Cached responses are free and not counted.</p>
+        </div>
+
+        <div className="flex flex-col gap-6 overflow-y-auto">
+          <SummaryTable firstColumn="Period" rows={scopeSummaries} />
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-lg font-bold text-zinc-800">By Operation</h3>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as UsageScope)}
+                className="text-sm border border-zinc-300 rounded-md px-2 py-1"
+              >
+                {(Object.keys(scopeLabels) as UsageScope[]).map(key => (
+                  <option key={key} value={key}>{scopeLabels[key]}</option>
+                ))}
+              </select>
+            </div>
+            {operationRows.length > 0
+              ? <SummaryTable firstColumn="Operation" rows={operationRows} />
+              : <p className="text-sm text-zinc-500">No model calls yet.</p>}
+          </div>
+
+          {dayRows.length > 0 && (
+            <div>
+              <h3 className="text-lg font-bold text-zinc-800 mb-2">By Day</h3>
+              <SummaryTable firstColumn="Day" rows={dayRows} />
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-lg font-bold text-zinc-800 mb-1">Daily Budget</h3>
+            <p className="text-xs text-zinc-500 mb-3">
+              Before each model operation its cost is estimated and added to today's spend. Above the soft cap you are asked to confirm; above the hard cap the operation is blocked. Leave a field empty for no cap.
+            </p>
+            <div className="flex flex-wrap gap-6">
+              {([['softLimitUsd', 'Soft cap (USD)'], ['hardLimitUsd', 'Hard cap (USD)']] as const).map(([key, label]) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-zinc-700">
+                  {label}
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    defaultValue={budget[key] ?? ''}
+                    onBlur={(e) => onBudgetChange({ ...budget, [key]: parseLimit(e.target.value) })}
+                    className="w-24 border border-zinc-300 rounded-md px-2 py-1"
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-start">
+            <button
+              onClick={() => {
+                if (window.confirm('Clear all recorded usage? This cannot be undone.')) onClearUsage();
+              }}
+              disabled={records.length === 0}
+              className="text-sm text-red-500 hover:text-red-700 font-semibold disabled:text-zinc-300"
+            >
+              Clear Usage History
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+
+export interface VariantCandidate {
+  id: string;
+  url: string;
+  // Shown instead of the variant number, e.g. the prompt version in an A/B comparison
+  label?: string;
+  // Why the variant may have altered a product; shown as a badge
+  warning?: string | null;
+}
+
+interface VariantPickerProps {
+  candidates: VariantCandidate[];
+  requestedCount: number;
+  onPick: (id: string) => void;
+  onDiscard: () => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ candidates, requestedCount, onPick, onDiscard }) => {
+  return (
+    <div className="bg-zinc-50 border border-zinc-200 rounded-lg p-4 w-full max-w-4xl mx-auto animate-fade-in">
+      <h3 className="text-md font-bold text-center mb-1 text-zinc-700">Pick a Variant</h3>
+      <p className="text-xs text-zinc-500 text-center mb-4">
+        The one you pick becomes the current scene. The others are kept as alternatives in the history.
+        {candidates.some(candidate => candidate.label) && ' Your pick is counted as a win for its prompt version.'}
+        {candidates.length < requestedCount && ` ${requestedCount - candidates.length} of ${requestedCount} variants failed to generate.`}
+      </p>
+      <div className={`grid gap-3 ${candidates.length > 2 ? 'grid-cols-2 md:grid-cols-4' : 'grid-cols-2'}`}>
+        {candidates.map((candidate, index) => (
+          <button
+            key={candidate.id}
+            onClick={() => onPick(candidate.id)}
+            className="group relative flex flex-col items-center rounded-lg border-2 border-transparent hover:border-blue-500 focus:border-blue-500 focus:outline-none p-1 transition-colors"
+            aria-label={`Use ${candidate.label ?? `variant ${index + 1}`}`}
+          >
+            <img src={candidate.url} alt={candidate.label ?? `Variant ${index + 1}`} className="w-full rounded-md object-contain bg-white" />
+            {candidate.warning && (
+              <span title={candidate.warning} className="absolute top-2 right-2 bg-amber-500 text-white text-[10px] font-bold px-1.5 py-0.5 rounded shadow">
+                Check products
+              </span>
+            )}
+            <span className="text-xs font-semibold text-zinc-600 group-hover:text-blue-600 mt-1">{candidate.label ?? `Variant ${index + 1}`}</span>
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-start mt-4">
+        <button
+          onClick={() => {
+            if (window.confirm('Discard all variants? This cannot be undone.')) onDiscard();
+          }}
+          className="text-sm text-zinc-600 hover:text-zinc-800 font-semibold transition-colors"
+        >
+          Discard All
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
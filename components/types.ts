@@ -3,12 +3,140 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import type { ProviderOperation } from '../services/imageProvider';
+import type { PromptTemplateKind, PromptVersions } from '../services/promptTemplates';
+import type { SceneRegion } from '../services/regionCompositing';
+
 export interface Product {
   id: number;
   name: string;
   imageUrl: string;
 }
 
+export interface LibraryProduct extends Product {
+  file: File;
+  // The model calls that produced the current image; empty for uploads.
+  calls: ModelCallRecord[];
+}
+
+export interface PlacedProduct {
+  id: number;
+  productId: number;
+  imageUrl: string;
+  xPercent: number;
+  yPercent: number;
+  scale: number;
+}
+
+// The placement of a product as recorded in history and project files (no blob URLs).
+export type PlacementRecord = Omit<PlacedProduct, 'id' | 'imageUrl'>;
+
+// The location description of a staged placement. It is written once the product stops moving
+// and can be reviewed and edited before the composite is generated.
+export interface PlacementDescription {
+  status: 'describing' | 'ready' | 'failed';
+  text: string;
+  error: string | null;
+  // The scene and position the description is for; moving the product asks for a new one
+  sceneEntryId: string;
+  xPercent: number;
+  yPercent: number;
+  // The high-resolution region it describes (null for the whole scene), which moves with every staged product
+  region: SceneRegion | null;
+  // The model calls that wrote it, added to the history entry of the composite that uses it
+  calls: ModelCallRecord[];
+}
+
+export type HistoryOperation = 'upload' | 'compose' | 'edit' | 'inpaint';
+
+// The steps of a composite generation, in pipeline order.
+export type CompositeStage = 'prepare' | 'resize' | 'mark' | 'describe' | 'compose' | 'crop' | 'blend' | 'verify' | 'paste' | 'fidelity';
+
+// How long one pipeline step took. Steps that run once per variant carry the variant's index.
+export interface StageTiming {
+  stage: CompositeStage;
+  variant?: number;
+  startedAt: number;
+  durationMs: number;
+}
+
+// One part of a model request or response. Images are kept as small thumbnails.
+export interface ModelCallPart {
+  kind: 'image' | 'text';
+  text?: string;
+  thumbnailUrl?: string;
+}
+
+// One call to the model as logged by the request inspector. Calls answered from the response cache
+// are logged too, with `cached` set. Failed attempts carry the error message.
+export interface ModelCallRecord {
+  id: string;
+  operation: ProviderOperation;
+  provider: string;
+  model: string;
+  config: Record<string, unknown>;
+  prompt: string;
+  inputs: ModelCallPart[];
+  response: ModelCallPart[];
+  finishReason: string | null;
+  cached: boolean;
+  variant?: number;
+  // The prompt template the prompt was rendered from; absent on calls logged before templates were versioned
+  promptTemplate?: { kind: PromptTemplateKind; version: string; };
+  startedAt: number;
+  durationMs: number;
+  error: string | null;
+}
+
+// Describes how a scene history entry was produced and where it sits in the history tree.
+// Root entries (uploaded scenes) have no parent; every other entry branches off the scene it was made from.
+export interface HistoryEntryMeta {
+  id: string;
+  parentId: string | null;
+  operation: HistoryOperation;
+  createdAt: number;
+  placements: PlacementRecord[];
+  edits: Edits | null;
+  // Composites record how long each pipeline step took; other operations record none.
+  timings: StageTiming[];
+  // The model calls that produced this entry; uploads and local edits made none.
+  calls: ModelCallRecord[];
+  // Composites record the placement description written for each product, in placement order.
+  locationDescriptions: string[];
+  // Set on composites re-run from the prompt playground with edited text.
+  promptEdit: PromptEdit | null;
+  // The prompt template versions behind the model calls that produced this entry.
+  promptVersions: PromptVersions;
+  // Composites checked for product fidelity record the result; other entries, and unchecked composites, have none.
+  fidelity: FidelityReport | null;
+}
+
+// How faithfully one placed product kept the look of its product image
+export interface ProductFidelity {
+  name: string;
+  // Colour histogram distance (0 identical, 1 no shared colours) and fraction of differing perceptual hash bits;
+  // null when the placed product could not be found
+  colorDistance: number | null;
+  hashDistance: number | null;
+  // The model judge's verdict on text, logos and colours, when it was asked
+  judge: { preserved: boolean | null; answer: string; } | null;
+  // Why the product may have been altered; empty when it looks faithful
+  issues: string[];
+}
+
+// The fidelity check of a composite, one result per product in placement order
+export interface FidelityReport {
+  products: ProductFidelity[];
+  flagged: boolean;
+}
+
+// The text a playground re-run replaced: that of the composite it was edited from.
+export interface PromptEdit {
+  sourceEntryId: string;
+  originalPrompt: string;
+  originalLocationDescriptions: string[];
+}
+
 export interface Edits {
   brightness: number;
   contrast: number;
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import EvaluationRunner from './components/EvaluationRunner';
+import {
+  DEFAULT_SUITE_URL, EvaluationReport, estimateEvaluationCost, findRegressions, loadEvaluationSuite, parseEvaluationReport,
+  renderEvaluationReportHtml, runEvaluation,
+} from './services/evaluation';
+import { loadPromptTemplates } from './services/promptTemplates';
+import { checkBudget } from './services/usageTracker';
+
+// What `npm run eval:headless` exposes to the page before opening it (see server/evalHeadless.ts)
+interface HeadlessBridge {
+  readHeadlessBaseline: () => Promise<string | null>;
+  completeHeadlessEvaluation: (result: { report: EvaluationReport | null; html: string | null; regressions: string[]; error: string | null }) => Promise<void>;
+}
+
+// Runs the suite without the UI and hands the report back to the Node script driving this page
+const runHeadless = async (params: URLSearchParams) => {
+  const bridge = window as unknown as Window & HeadlessBridge;
+  try {
+    await loadPromptTemplates();
+    const suite = await loadEvaluationSuite(params.get('suite') || DEFAULT_SUITE_URL);
+    const judge = params.get('judge') !== '0';
+    // Nobody is there to confirm, so only the hard cap stops the run
+    const check = checkBudget(estimateEvaluationCost(suite, judge));
+    if (check.status === 'block') {
+      throw new Error(`This run adds up to $${check.estimatedUsd.toFixed(2)}, which would pass today's $${check.limitUsd.toFixed(2)} hard cap.`);
+    }
+    const baselineText = await bridge.readHeadlessBaseline();
+    const baseline = baselineText ? parseEvaluationReport(baselineText) : null;
+    const report = await runEvaluation(suite, { judge, forceRegenerate: params.has('force') });
+    await bridge.completeHeadlessEvaluation({
+      report, html: renderEvaluationReportHtml(report, baseline), regressions: findRegressions(report, baseline), error: null,
+    });
+  } catch (err) {
+    await bridge.completeHeadlessEvaluation({
+      report: null, html: null, regressions: [], error: err instanceof Error ? err.message : 'The evaluation failed.',
+    });
+  }
+};
+
+const params = new URLSearchParams(window.location.search);
+if (params.has('headless')) {
+  runHeadless(params);
+} else {
+  const rootElement = document.getElementById('root');
+  if (!rootElement) {
+    throw new Error("Could not find root element to mount to");
+  }
+
+  const root = ReactDOM.createRoot(rootElement);
+  root.render(
+    <React.StrictMode>
+      <EvaluationRunner />
+    </React.StrictMode>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Runs the evaluation suite without a browser window, for CI. It serves the app with Vite, opens the
+ * evaluation page in headless Chromium and exits non-zero when a case regresses (see `findRegressions`).
+ * The HTTP provider goes through the proxy in this directory, which is started for the run.
+ *
+ *   npm run eval:headless -- --provider mock
+ *   npm run eval:headless -- --provider http --baseline baseline.json --out report.json
+ *
+ * Options: `--suite <url>` (default /eval/cases.json), `--no-judge`, `--force` (bypass the response cache).
+ * `--out` also writes the HTML report next to the JSON one.
+ */
+
+import { ChildProcess, spawn } from 'node:child_process';
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+import { chromium } from 'playwright';
+import { ViteDevServer, createServer } from 'vite';
+
+const SERVER_DIR = path.dirname(fileURLToPath(import.meta.url));
+const ROOT_DIR = path.resolve(SERVER_DIR, '..', '..');
+
+// What the evaluation page hands back (see eval.tsx); only the summary is read here
+interface HeadlessResult {
+    report: { summary: { total: number; passed: number; failed: number; errored: number; }; } | null;
+    html: string | null;
+    regressions: string[];
+    error: string | null;
+}
+
+const { values: options } = parseArgs({
+    options: {
+        provider: { type: 'string', default: 'mock' },
+        suite: { type: 'string' },
+        baseline: { type: 'string' },
+        out: { type: 'string' },
+        'no-judge': { type: 'boolean', default: false },
+        force: { type: 'boolean', default: false },
+    },
+});
+
+if (options.provider !== 'mock' && options.provider !== 'http') {
+    console.error(`Unknown provider "${options.provider}". Use "mock" or "http".`);
+    process.exit(2);
+}
+
+// Starts the compiled proxy and resolves once it is listening
+const startProxy = (): Promise<ChildProcess> => new Promise((resolve, reject) => {
+    const proxy = spawn(process.execPath, [path.join(SERVER_DIR, 'index.js')], { stdio: ['ignore', 'pipe', 'inherit'] });
+    proxy.once('error', reject);
+    proxy.once('exit', code => reject(new Error(`The proxy exited with code ${code} before it was ready.`)));
+    proxy.stdout?.on('data', (chunk: Buffer) => {
+        process.stdout.write(chunk);
+        if (chunk.toString().includes('Proxy listening')) resolve(proxy);
+    });
+});
+
+const run = async (): Promise<number> => {
+    const baselineText = options.baseline ? readFileSync(options.baseline, 'utf8') : null;
+    // The Vite config reads this to send requests to the proxy instead of calling Gemini from the page
+    if (options.provider === 'http') process.env.USE_API_PROXY = 'true';
+
+    const browser = await chromium.launch().catch((error: Error) => {
+        throw new Error(`Could not start headless Chromium (run "npx playwright install chromium" first): ${error.message}`);
+    });
+    let proxy: ChildProcess | null = null;
+    let vite: ViteDevServer | null = null;
+    try {
+        if (options.provider === 'http') proxy = await startProxy();
+        vite = await createServer({ root: ROOT_DIR, configFile: path.join(ROOT_DIR, 'vite.config.ts'), logLevel: 'warn' });
+        await vite.listen();
+        const baseUrl = vite.resolvedUrls?.local[0];
+        if (!baseUrl) throw new Error('The Vite dev server did not report its address.');
+        const query = new URLSearchParams({ headless: '1' });
+        if (options.provider === 'mock') query.set('mock', '1');
+        if (options.suite) query.set('suite', options.suite);
+        if (options['no-judge']) query.set('judge', '0');
+        if (options.force) query.set('force', '1');
+
+        const page = await browser.newPage();
+        page.on('console', message => {
+            if (message.type() === 'error') console.error(`[page] ${message.text()}`);
+        });
+        const result = new Promise<HeadlessResult>((resolve, reject) => {
+            page.on('crash', () => reject(new Error('The evaluation page crashed.')));
+            page.exposeFunction('completeHeadlessEvaluation', resolve).catch(reject);
+        });
+        await page.exposeFunction('readHeadlessBaseline', () => baselineText);
+        console.log(`Running the evaluation suite with the ${options.provider} provider...`);
+        await page.goto(new URL(`/eval.html?${query}`, baseUrl).href);
+        const { report, html, regressions, error } = await result;
+
+        if (error || !report) {
+            console.error(`The evaluation did not finish: ${error ?? 'no report was returned.'}`);
+            return 1;
+        }
+        if (options.out) {
+            writeFileSync(options.out, JSON.stringify(report, null, 2));
+            if (html) writeFileSync(options.out.replace(/\.json$/i, '') + '.html', html);
+            console.log(`Report saved to ${options.out}.`);
+        }
+        const { summary } = report;
+        console.log(`${summary.passed} of ${summary.total} passed, ${summary.failed} failed, ${summary.errored} errored.`);
+        if (regressions.length > 0) {
+            console.error(`${regressions.length} regression(s)${baselineText ? ' against the baseline' : ''}:`);
+            regressions.forEach(regression => console.error(`  ${regression}`));
+            return 1;
+        }
+        return 0;
+    } finally {
+        await browser.close();
+        await vite?.close();
+        proxy?.kill();
+    }
+};
+
+run().then(code => {
+    process.exitCode = code;
+}, error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI, Modality, Part } from '@google/genai';
+
+export type ProxyOperation = 'segment' | 'inpaint' | 'describe' | 'compose';
+
+export interface InlineImage {
+    mimeType: string;
+    data: string; // base64
+}
+
+export interface ProxyUsage {
+    inputTokens: number;
+    outputTokens: number;
+    inputImages: number;
+    outputImages: number;
+}
+
+export interface ProxyResult {
+    result: string;
+    model: string;
+    usage: ProxyUsage;
+}
+
+// Matches the error kinds the browser client turns back into typed errors
+export type ProxyErrorKind = 'safety' | 'quota' | 'network' | 'server' | 'malformed-response' | 'text-only' | 'invalid-request';
+
+/**
+ * A failure to report to the client: `status` is the HTTP status and `body` the JSON error payload.
+ */
+export class ProxyError extends Error {
+    readonly status: number;
+    readonly kind: ProxyErrorKind;
+    readonly details: Record<string, unknown>;
+
+    constructor(status: number, kind: ProxyErrorKind, message: string, details: Record<string, unknown> = {}) {
+        super(message);
+        this.name = 'ProxyError';
+        this.status = status;
+        this.kind = kind;
+        this.details = details;
+    }
+
+    get body() {
+        return { error: { kind: this.kind, message: this.message, ...this.details } };
+    }
+}
+
+// Defaults match services/settings.ts. Clients may pick another model only from ALLOWED_MODELS,
+// so a public proxy can't be used to run arbitrary (and arbitrarily priced) models on its key.
+const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+const TEXT_MODEL = 'gemini-2.5-flash';
+const ALLOWED_MODELS = new Set((process.env.ALLOWED_MODELS
+    || 'gemini-2.5-flash-image-preview,gemini-2.5-flash-image,gemini-2.5-flash,gemini-2.5-flash-lite,gemini-2.5-pro')
+    .split(',').map(model => model.trim()).filter(Boolean));
+const MAX_CANDIDATE_COUNT = 4;
+
+const SAFETY_FINISH_REASONS = new Set<string>([
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+    }
+    return client;
+};
+
+// Helper to reject anything that isn't a base64 image so malformed requests never reach the model
+const toImagePart = (value: unknown, field: string): Part => {
+    const image = value as Partial<InlineImage> | null;
+    if (!image || typeof image.mimeType !== 'string' || !image.mimeType.startsWith('image/') || typeof image.data !== 'string' || !image.data) {
+        throw new ProxyError(400, 'invalid-request', `"${field}" must be an image with a mimeType and base64 data.`);
+    }
+    return { inlineData: { mimeType: image.mimeType, data: image.data } };
+};
+
+const toPrompt = (value: unknown): Part => {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new ProxyError(400, 'invalid-request', '"prompt" must be a non-empty string.');
+    }
+    return { text: value };
+};
+
+// Helper to read the optional model override, falling back to the operation's default
+const toModel = (value: unknown, fallback: string): string => {
+    if (value === undefined || value === null || value === '') return fallback;
+    if (typeof value !== 'string' || !ALLOWED_MODELS.has(value)) {
+        throw new ProxyError(400, 'invalid-request', `Model "${String(value)}" is not allowed by this proxy.`);
+    }
+    return value;
+};
+
+// Helper to read the optional sampling parameters, rejecting values the API would refuse anyway
+const toGenerationConfig = (body: Record<string, unknown>) => {
+    const { temperature, candidateCount } = body;
+    if (temperature !== undefined && (typeof temperature !== 'number' || temperature < 0 || temperature > 2)) {
+        throw new ProxyError(400, 'invalid-request', '"temperature" must be a number from 0 to 2.');
+    }
+    if (candidateCount !== undefined && (!Number.isInteger(candidateCount) || (candidateCount as number) < 1 || (candidateCount as number) > MAX_CANDIDATE_COUNT)) {
+        throw new ProxyError(400, 'invalid-request', `"candidateCount" must be an integer from 1 to ${MAX_CANDIDATE_COUNT}.`);
+    }
+    return { temperature: temperature as number | undefined, candidateCount: candidateCount as number | undefined };
+};
+
+// Builds the request for an operation, mirroring the part order the browser's Gemini provider uses
+const buildRequest = (operation: ProxyOperation, body: Record<string, unknown>) => {
+    switch (operation) {
+        case 'segment':
+            return {
+                model: toModel(body.model, IMAGE_MODEL),
+                parts: body.mask
+                    ? [toImagePart(body.image, 'image'), toImagePart(body.mask, 'mask'), toPrompt(body.prompt)]
+                    : [toImagePart(body.image, 'image'), toPrompt(body.prompt)],
+                modalities: [Modality.IMAGE, Modality.TEXT],
+            };
+        case 'inpaint':
+            return {
+                model: toModel(body.model, IMAGE_MODEL),
+                parts: [toImagePart(body.scene, 'scene'), toImagePart(body.mask, 'mask'), toPrompt(body.prompt)],
+                modalities: [Modality.IMAGE, Modality.TEXT],
+            };
+        case 'describe':
+            return {
+                model: toModel(body.model, TEXT_MODEL),
+                parts: [toPrompt(body.prompt), toImagePart(body.markedScene, 'markedScene')],
+                modalities: undefined,
+            };
+        case 'compose': {
+            if (!Array.isArray(body.products) || body.products.length === 0) {
+                throw new ProxyError(400, 'invalid-request', '"products" must be a non-empty array of images.');
+            }
+            const products = body.products as unknown[];
+            return {
+                model: toModel(body.model, IMAGE_MODEL),
+                parts: [...products.map((product, index) => toImagePart(product, `products[${index}]`)), toImagePart(body.scene, 'scene'), toPrompt(body.prompt)],
+                modalities: [Modality.IMAGE],
+            };
+        }
+    }
+};
+
+// Helper to map an SDK or network failure onto a proxy error
+const toProxyError = (error: unknown): unknown => {
+    if (error instanceof ProxyError) return error;
+    if (error instanceof ApiError) {
+        const retryDelay = error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+        if (error.status === 429) {
+            return new ProxyError(429, 'quota', error.message, retryDelay ? { retryAfterMs: Number(retryDelay[1]) * 1000 } : {});
+        }
+        if (error.status >= 500) return new ProxyError(502, 'server', error.message);
+        // The key lives on this server, so a rejected key is reported as a gateway failure rather than a bad request
+        if (error.status === 401 || error.status === 403) {
+            return new ProxyError(502, 'invalid-request', 'The proxy\'s API key was rejected.', { status: error.status });
+        }
+        return new ProxyError(400, 'invalid-request', error.message, { status: error.status });
+    }
+    if (error instanceof TypeError) return new ProxyError(502, 'network', `Could not reach the model: ${error.message}`);
+    return error;
+};
+
+const countImages = (parts: Part[] = []) => parts.filter(part => part.inlineData).length;
+
+/**
+ * Runs one operation against Gemini and returns its result (a data URL, or text for `describe`) with usage.
+ * Blocked, empty and text-only responses are reported as ProxyErrors.
+ */
+export const runOperation = async (
+    operation: ProxyOperation,
+    body: Record<string, unknown>,
+    signal: AbortSignal
+): Promise<ProxyResult> => {
+    const { model, parts, modalities } = buildRequest(operation, body);
+    const generation = toGenerationConfig(body);
+    const seed = operation === 'compose' && typeof body.seed === 'number' ? body.seed : undefined;
+
+    let response: GenerateContentResponse;
+    try {
+        response = await getClient().models.generateContent({
+            model,
+            contents: { parts },
+            config: { responseModalities: modalities, ...generation, seed, abortSignal: signal },
+        });
+    } catch (error) {
+        throw toProxyError(error);
+    }
+
+    // With several candidates, the first usable one wins and the call is only blocked when all of them were
+    const candidates = response.candidates ?? [];
+    const candidate = candidates[0];
+    const outputParts = candidates.flatMap(c => c.content?.parts ?? []);
+    const usage: ProxyUsage = {
+        inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: (response.usageMetadata?.candidatesTokenCount ?? 0) + (response.usageMetadata?.thoughtsTokenCount ?? 0),
+        inputImages: countImages(parts),
+        outputImages: countImages(outputParts),
+    };
+
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = candidate?.finishReason;
+    if (blockReason || (finishReason && candidates.every(c => c.finishReason && SAFETY_FINISH_REASONS.has(c.finishReason)))) {
+        const safetyRatings = (blockReason ? response.promptFeedback?.safetyRatings : candidate?.safetyRatings) ?? [];
+        throw new ProxyError(422, 'safety', `Blocked: ${blockReason ?? finishReason}`, {
+            finishReason: blockReason ?? finishReason,
+            safetyRatings: safetyRatings.map(({ category, probability, blocked }) => ({ category: category ?? 'UNKNOWN', probability, blocked })),
+        });
+    }
+
+    if (operation === 'describe') {
+        const text = candidates.map(c => (c.content?.parts ?? []).map(part => part.text ?? '').join('').trim()).find(Boolean);
+        if (!text) throw new ProxyError(502, 'malformed-response', 'The model returned an empty description.', { finishReason });
+        return { result: text, model, usage };
+    }
+
+    const image = outputParts.find(part => part.inlineData?.data)?.inlineData;
+    if (image) {
+        return { result: `data:${image.mimeType};base64,${image.data}`, model, usage };
+    }
+    const responseText = (candidate?.content?.parts ?? []).map(part => part.text ?? '').join('').trim();
+    if (responseText) {
+        throw new ProxyError(502, 'text-only', 'The model returned text instead of an image.', { finishReason, responseText });
+    }
+    throw new ProxyError(502, 'malformed-response', `The model returned no image${finishReason ? ` (finish reason: ${finishReason})` : ''}.`, { finishReason });
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A small proxy that holds the Gemini API key so production builds never ship it to the browser.
+ * It exposes one POST endpoint per image operation, limits request rates per client and request
+ * sizes, and serves the built app from `dist/` when it exists. The server itself is in proxy.ts.
+ *
+ *   npm run server        # compiles this directory and listens on PORT (default 8787)
+ */
+
+import { readFileSync, existsSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createProxyServer } from './proxy.js';
+
+const ROOT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', '..');
+const STATIC_DIR = path.join(ROOT_DIR, 'dist');
+
+// Reads KEY=VALUE lines from the same .env.local the Vite dev server uses, without overriding the real environment
+const loadEnvFile = (file: string) => {
+    if (!existsSync(file)) return;
+    for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+        const match = line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/);
+        if (!match || process.env[match[1]] !== undefined) continue;
+        process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+};
+loadEnvFile(path.join(ROOT_DIR, '.env.local'));
+loadEnvFile(path.join(ROOT_DIR, '.env'));
+
+const PORT = Number(process.env.PORT) || 8787;
+const MAX_REQUEST_BYTES = Number(process.env.MAX_REQUEST_BYTES) || 20 * 1024 * 1024;
+// Fixed-window limit per client address. A composite with three variants is four model calls.
+const RATE_LIMIT_REQUESTS = Number(process.env.RATE_LIMIT_REQUESTS) || 30;
+const RATE_LIMIT_WINDOW_MS = Number(process.env.RATE_LIMIT_WINDOW_MS) || 60 * 1000;
+
+const server = createProxyServer({
+    maxRequestBytes: MAX_REQUEST_BYTES,
+    rateLimitRequests: RATE_LIMIT_REQUESTS,
+    rateLimitWindowMs: RATE_LIMIT_WINDOW_MS,
+    staticDir: STATIC_DIR,
+});
+
+if (!process.env.GEMINI_API_KEY) {
+    console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment before starting the proxy.');
+    process.exit(1);
+}
+
+server.listen(PORT, () => {
+    console.log(`Proxy listening on http://localhost:${PORT} (${RATE_LIMIT_REQUESTS} requests per ${RATE_LIMIT_WINDOW_MS / 1000}s per client, ${MAX_REQUEST_BYTES} bytes max).`);
+});
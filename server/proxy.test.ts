@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { request, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProxyOptions, createProxyServer } from './proxy.js';
+
+const DEFAULT_OPTIONS: ProxyOptions = { maxRequestBytes: 1024, rateLimitRequests: 100, rateLimitWindowMs: 60000, staticDir: tmpdir() };
+
+let server: Server | null = null;
+
+// Helper to start a proxy with the given limits on a free port and return its address
+const startProxy = async (options: Partial<ProxyOptions> = {}): Promise<string> => {
+    const proxy = createProxyServer({ ...DEFAULT_OPTIONS, ...options });
+    server = proxy;
+    await new Promise<void>(resolve => proxy.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+};
+
+// Helper to send a body in chunks without a Content-Length, so only the streamed size can give it away
+const postChunked = (url: string, chunks: string[]): Promise<{ status: number; body: string; }> => new Promise((resolve, reject) => {
+    const req = request(url, { method: 'POST', headers: { 'Content-Type': 'application/json' } }, res => {
+        let body = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => body += chunk);
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+    });
+    req.on('error', reject);
+    chunks.forEach(chunk => req.write(chunk));
+    req.end();
+});
+
+describe('proxy server', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        const proxy = server;
+        server = null;
+        if (proxy) await new Promise(resolve => proxy.close(resolve));
+    });
+
+    describe('request size limit', () => {
+        it('rejects a body whose declared length is over the limit', async () => {
+            const baseUrl = await startProxy({ maxRequestBytes: 100 });
+            const response = await fetch(`${baseUrl}/api/describe`, { method: 'POST', body: JSON.stringify({ prompt: 'x'.repeat(200) }) });
+
+            expect(response.status).toBe(413);
+            expect(await response.json()).toMatchObject({ error: { kind: 'invalid-request', message: 'Request is larger than 100 bytes.' } });
+        });
+
+        it('rejects a streamed body as soon as it grows past the limit', async () => {
+            const baseUrl = await startProxy({ maxRequestBytes: 100 });
+            const { status, body } = await postChunked(`${baseUrl}/api/describe`, ['{"prompt":"', 'x'.repeat(60), 'x'.repeat(60), '"}']);
+
+            expect(status).toBe(413);
+            expect(JSON.parse(body)).toMatchObject({ error: { kind: 'invalid-request' } });
+        });
+
+        it('reads a body within the limit', async () => {
+            const baseUrl = await startProxy({ maxRequestBytes: 100 });
+            // An array is within the limit but not a valid request, so it is turned away before any model call
+            const response = await fetch(`${baseUrl}/api/describe`, { method: 'POST', body: '[]' });
+
+            expect(response.status).toBe(400);
+            expect(await response.json()).toMatchObject({ error: { message: 'Request body must be a JSON object.' } });
+        });
+    });
+
+    describe('rate limit', () => {
+        const post = (baseUrl: string) => fetch(`${baseUrl}/api/describe`, { method: 'POST', body: '[]' });
+
+        it('answers 429 with the time to wait once a client uses up its window', async () => {
+            const baseUrl = await startProxy({ rateLimitRequests: 2, rateLimitWindowMs: 60000 });
+
+            expect((await post(baseUrl)).status).toBe(400);
+            expect((await post(baseUrl)).status).toBe(400);
+            const limited = await post(baseUrl);
+
+            expect(limited.status).toBe(429);
+            expect(limited.headers.get('retry-after')).toBe('60');
+            const { error } = await limited.json();
+            expect(error.kind).toBe('quota');
+            expect(error.retryAfterMs).toBeGreaterThan(59000);
+            expect(error.retryAfterMs).toBeLessThanOrEqual(60000);
+        });
+
+        it('starts a new window once the old one has passed', async () => {
+            const baseUrl = await startProxy({ rateLimitRequests: 1, rateLimitWindowMs: 200 });
+
+            expect((await post(baseUrl)).status).toBe(400);
+            expect((await post(baseUrl)).status).toBe(429);
+            await new Promise(resolve => setTimeout(resolve, 250));
+            expect((await post(baseUrl)).status).toBe(400);
+        });
+
+        it('does not count requests for unknown operations', async () => {
+            const baseUrl = await startProxy({ rateLimitRequests: 1 });
+
+            expect((await fetch(`${baseUrl}/api/unknown`, { method: 'POST', body: '{}' })).status).toBe(404);
+            expect((await post(baseUrl)).status).toBe(400);
+        });
+    });
+});
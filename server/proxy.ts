@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { existsSync, statSync, createReadStream } from 'node:fs';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import path from 'node:path';
+import { ProxyError, ProxyOperation, runOperation } from './gemini.js';
+
+/**
+ * What the proxy accepts: request bodies up to `maxRequestBytes`, and `rateLimitRequests` API
+ * requests per client address in each fixed window of `rateLimitWindowMs`.
+ */
+export interface ProxyOptions {
+    maxRequestBytes: number;
+    rateLimitRequests: number;
+    rateLimitWindowMs: number;
+    // Where the built app is served from
+    staticDir: string;
+}
+
+const OPERATIONS = new Set<ProxyOperation>(['segment', 'inpaint', 'describe', 'compose']);
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.webp': 'image/webp',
+    '.ico': 'image/x-icon',
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+// Helper to read a JSON body, rejecting it as soon as it grows past the size limit.
+// An oversized body is left unread so the caller can answer before the connection is closed.
+const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> => {
+    return new Promise((resolve, reject) => {
+        const declaredLength = Number(req.headers['content-length']);
+        if (declaredLength > maxBytes) {
+            reject(new ProxyError(413, 'invalid-request', `Request is larger than ${maxBytes} bytes.`));
+            return;
+        }
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                req.removeAllListeners('data');
+                req.removeAllListeners('end');
+                req.pause();
+                reject(new ProxyError(413, 'invalid-request', `Request is larger than ${maxBytes} bytes.`));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            try {
+                const body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+                if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error('not an object');
+                resolve(body);
+            } catch {
+                reject(new ProxyError(400, 'invalid-request', 'Request body must be a JSON object.'));
+            }
+        });
+        req.on('error', reject);
+    });
+};
+
+/**
+ * Creates the proxy's HTTP server: one POST endpoint per image operation under /api, and the built app everywhere else.
+ * The server is not listening yet.
+ */
+export const createProxyServer = ({ maxRequestBytes, rateLimitRequests, rateLimitWindowMs, staticDir }: ProxyOptions): Server => {
+    const rateWindows = new Map<string, { startedAt: number; count: number; }>();
+
+    // Drop expired windows so the map doesn't grow with every client ever seen
+    const sweepTimer = setInterval(() => {
+        const now = Date.now();
+        rateWindows.forEach((window, client) => {
+            if (now - window.startedAt >= rateLimitWindowMs) rateWindows.delete(client);
+        });
+    }, rateLimitWindowMs);
+    sweepTimer.unref();
+
+    // Counts a request against the client's window. Returns the milliseconds to wait when over the limit, or 0.
+    const takeRateLimit = (client: string): number => {
+        const now = Date.now();
+        const window = rateWindows.get(client);
+        if (!window || now - window.startedAt >= rateLimitWindowMs) {
+            rateWindows.set(client, { startedAt: now, count: 1 });
+            return 0;
+        }
+        if (window.count >= rateLimitRequests) {
+            return window.startedAt + rateLimitWindowMs - now;
+        }
+        window.count++;
+        return 0;
+    };
+
+    const handleApi = async (req: IncomingMessage, res: ServerResponse, operation: string) => {
+        if (!OPERATIONS.has(operation as ProxyOperation)) {
+            sendJson(res, 404, { error: { kind: 'invalid-request', message: `Unknown operation "${operation}".` } });
+            return;
+        }
+        if (req.method !== 'POST') {
+            sendJson(res, 405, { error: { kind: 'invalid-request', message: 'Use POST.' } }, { Allow: 'POST' });
+            return;
+        }
+
+        const client = req.socket.remoteAddress ?? 'unknown';
+        const waitMs = takeRateLimit(client);
+        if (waitMs > 0) {
+            console.warn(`Rate limit reached for ${client}.`);
+            sendJson(res, 429, { error: { kind: 'quota', message: 'Too many requests to the proxy.', retryAfterMs: waitMs } }, { 'Retry-After': String(Math.ceil(waitMs / 1000)) });
+            return;
+        }
+
+        // Stop the model call if the browser cancels or disconnects
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+
+        const startedAt = Date.now();
+        try {
+            const body = await readJsonBody(req, maxRequestBytes);
+            const result = await runOperation(operation as ProxyOperation, body, controller.signal);
+            console.log(`${operation} for ${client} finished in ${Date.now() - startedAt}ms.`);
+            sendJson(res, 200, result);
+        } catch (error) {
+            if (controller.signal.aborted) {
+                console.log(`${operation} for ${client} was cancelled.`);
+                return;
+            }
+            if (error instanceof ProxyError && error.status === 413) {
+                // Answer before closing, then discard the rest of the body so the client reads the 413 instead of a reset
+                console.warn(`${operation} for ${client} failed: ${error.message}`);
+                sendJson(res, error.status, error.body, { Connection: 'close' });
+                req.resume();
+                return;
+            }
+            if (error instanceof ProxyError) {
+                console.warn(`${operation} for ${client} failed: ${error.message}`);
+                sendJson(res, error.status, error.body);
+                return;
+            }
+            console.error(`${operation} for ${client} failed unexpectedly.`, error);
+            sendJson(res, 500, { error: { kind: 'server', message: 'The proxy failed to handle the request.' } });
+        }
+    };
+
+    // Serves the built app, falling back to index.html so client-side URLs (e.g. ?mock) still load
+    const serveStatic = (req: IncomingMessage, res: ServerResponse, pathname: string) => {
+        let decoded: string;
+        try {
+            decoded = decodeURIComponent(pathname);
+        } catch {
+            sendJson(res, 400, { error: { kind: 'invalid-request', message: 'Malformed URL.' } });
+            return;
+        }
+        const requested = path.normalize(path.join(staticDir, decoded));
+        const inside = requested.startsWith(staticDir + path.sep);
+        const file = inside && existsSync(requested) && statSync(requested).isFile() ? requested : path.join(staticDir, 'index.html');
+        if (!existsSync(file)) {
+            sendJson(res, 404, { error: { kind: 'invalid-request', message: 'Not found. Run "npm run build" to serve the app from this server.' } });
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream' });
+        if (req.method === 'HEAD') {
+            res.end();
+            return;
+        }
+        createReadStream(file).pipe(res);
+    };
+
+    const server = createServer((req, res) => {
+        let pathname: string;
+        try {
+            ({ pathname } = new URL(req.url ?? '/', 'http://localhost'));
+        } catch {
+            sendJson(res, 400, { error: { kind: 'invalid-request', message: 'Malformed URL.' } });
+            return;
+        }
+        const apiMatch = pathname.match(/^\/api\/([\w-]+)\/?$/);
+        if (apiMatch) {
+            handleApi(req, res, apiMatch[1]);
+            return;
+        }
+        serveStatic(req, res, pathname);
+    });
+    server.on('close', () => clearInterval(sweepTimer));
+    return server;
+};
@@ -0,0 +1,595 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    PlacementCheckMode, estimateCompositeCost, estimateDescriptionCost, generateCompositeImage, getUserMessage, judgeProductPresence,
+} from './geminiService';
+import { ProviderOperation, getImageProvider, isAbortError } from './imageProvider';
+import { loadImage } from './imageLoading';
+import { getPlacementChangeAreas } from './regionCompositing';
+import { PROMPT_TEMPLATE_LABELS, PromptTemplateKind, PromptVersions, getPromptTemplate, getPromptVersions } from './promptTemplates';
+import { getSettings } from './settings';
+
+/**
+ * Offline evaluation of composite quality, so prompt and provider changes can be regression-tested.
+ * A suite is a JSON file listing cases: a scene, the products to place with their drop positions and scales,
+ * and the composite options to use. Image paths are relative to the suite file. Every case is run through
+ * generateCompositeImage with the active provider (the mock provider stands in for the models with `?mock=1`)
+ * and scored on how much of the scene drifted outside the placements, whether the result kept the scene's
+ * aspect ratio and size, and, optionally, whether a model judge sees each product at its marker.
+ * Reports are JSON documents that can be kept as a baseline for later runs, and render to a standalone HTML page.
+ */
+export const REPORT_FORMAT = 'home-canvas-evaluation';
+export const REPORT_VERSION = 1;
+export const DEFAULT_SUITE_URL = '/eval/cases.json';
+
+export interface EvaluationProduct {
+    image: string;
+    name: string;
+    xPercent: number;
+    yPercent: number;
+    scale: number;
+}
+
+export interface EvaluationCase {
+    id: string;
+    scene: string;
+    products: EvaluationProduct[];
+    highResolution?: boolean;
+    preserveUnchangedPixels?: boolean;
+    // Off unless set, so retries don't hide a prompt that leaves products out
+    placementCheck?: PlacementCheckMode;
+}
+
+export interface EvaluationSuite {
+    name: string;
+    url: string;
+    cases: EvaluationCase[];
+}
+
+/**
+ * What a case is held to. Drift is measured only outside the areas around the placements,
+ * where the scene should come back unchanged.
+ */
+export interface EvaluationThresholds {
+    minSsimOutside: number;
+    maxDriftOutside: number;
+    maxAspectRatioError: number;
+}
+
+export const DEFAULT_THRESHOLDS: EvaluationThresholds = { minSsimOutside: 0.9, maxDriftOutside: 6, maxAspectRatioError: 0.01 };
+
+export interface CaseMetrics {
+    sceneWidth: number;
+    sceneHeight: number;
+    outputWidth: number;
+    outputHeight: number;
+    // Whether the result has the scene's pixel dimensions; required when unchanged pixels are preserved
+    sizeMatches: boolean;
+    // Relative difference between the result's aspect ratio and the scene's
+    aspectRatioError: number;
+    // Structural similarity (1 is identical) outside the placements; null when the placements cover the whole scene
+    ssimOutside: number | null;
+    // Mean absolute difference per channel (0-255) outside the placements
+    driftOutside: number | null;
+    // Fraction of the pixels outside the placements that visibly changed
+    changedFractionOutside: number | null;
+    // One judge verdict per product, in the order of the case's products; empty when the judge was skipped
+    presence: { name: string; present: boolean | null; answer: string; }[];
+}
+
+export interface CaseResult {
+    id: string;
+    status: 'pass' | 'fail' | 'error';
+    failures: string[];
+    error: string | null;
+    durationMs: number;
+    prompt: string | null;
+    promptVersions: PromptVersions;
+    metrics: CaseMetrics | null;
+    // Small JPEG data URLs, so the report stays readable on its own
+    thumbnails: { scene: string | null; result: string | null; };
+}
+
+export interface EvaluationSummary {
+    total: number;
+    passed: number;
+    failed: number;
+    errored: number;
+    meanSsimOutside: number | null;
+    meanDriftOutside: number | null;
+    productsJudged: number;
+    productsPresent: number;
+}
+
+export interface EvaluationReport {
+    format: typeof REPORT_FORMAT;
+    version: typeof REPORT_VERSION;
+    suite: string;
+    createdAt: number;
+    provider: string;
+    models: Record<ProviderOperation, string>;
+    settings: { workingResolution: number; temperature: number | null; candidateCount: number; };
+    // The template version in effect for every kind of prompt during the run
+    promptVersions: PromptVersions;
+    judged: boolean;
+    thresholds: EvaluationThresholds;
+    cases: CaseResult[];
+    summary: EvaluationSummary;
+}
+
+export interface EvaluationRunOptions {
+    judge: boolean;
+    forceRegenerate?: boolean;
+    signal?: AbortSignal;
+    thresholds?: EvaluationThresholds;
+    onCaseStart?: (testCase: EvaluationCase, index: number) => void;
+    onCaseComplete?: (result: CaseResult, index: number) => void;
+}
+
+// Drift is measured on copies downscaled to this long edge, which smooths over resampling and JPEG noise
+const DRIFT_DIMENSION = 256;
+// SSIM window size and step, in pixels of the downscaled copies
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+// A pixel counts as visibly changed when any channel moves by more than this
+const CHANGE_THRESHOLD = 40;
+const THUMBNAIL_DIMENSION = 320;
+
+// Helper to narrow parsed JSON to an object whose fields can then be checked one by one
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isEvaluationProduct = (value: unknown): value is EvaluationProduct =>
+    isRecord(value) && typeof value.image === 'string' && typeof value.name === 'string'
+    && [value.xPercent, value.yPercent, value.scale].every(field => typeof field === 'number' && Number.isFinite(field));
+
+const PLACEMENT_CHECK_MODES: readonly unknown[] = ['off', 'pixels', 'judge'] satisfies PlacementCheckMode[];
+
+// Helper to check one case read from a suite file, with a message naming what is wrong
+const validateCase = (testCase: unknown, index: number): EvaluationCase => {
+    const label = `Case ${isRecord(testCase) && typeof testCase.id === 'string' ? `"${testCase.id}"` : index + 1}`;
+    if (!isRecord(testCase) || typeof testCase.id !== 'string' || !testCase.id.trim()) throw new Error(`${label} needs an id.`);
+    if (typeof testCase.scene !== 'string') throw new Error(`${label} needs a scene image path.`);
+    const { products, highResolution, preserveUnchangedPixels, placementCheck } = testCase;
+    if (!Array.isArray(products) || products.length === 0) throw new Error(`${label} needs at least one product.`);
+    products.forEach((product, productIndex) => {
+        if (!isEvaluationProduct(product)) throw new Error(`${label}, product ${productIndex + 1} needs an image, a name, xPercent, yPercent and scale.`);
+    });
+    if (highResolution !== undefined && typeof highResolution !== 'boolean') throw new Error(`${label}: highResolution must be true or false.`);
+    if (preserveUnchangedPixels !== undefined && typeof preserveUnchangedPixels !== 'boolean') throw new Error(`${label}: preserveUnchangedPixels must be true or false.`);
+    if (placementCheck !== undefined && !PLACEMENT_CHECK_MODES.includes(placementCheck)) throw new Error(`${label}: placementCheck must be "off", "pixels" or "judge".`);
+    return {
+        id: testCase.id,
+        scene: testCase.scene,
+        products: products as EvaluationProduct[],
+        highResolution: highResolution as boolean | undefined,
+        preserveUnchangedPixels: preserveUnchangedPixels as boolean | undefined,
+        placementCheck: placementCheck as PlacementCheckMode | undefined,
+    };
+};
+
+/**
+ * Loads and checks a suite file.
+ * @param url Where the suite is served; image paths in it are resolved against this URL.
+ */
+export const loadEvaluationSuite = async (url: string = DEFAULT_SUITE_URL): Promise<EvaluationSuite> => {
+    const response = await fetch(url, { cache: 'no-cache' });
+    if (!response.ok) throw new Error(`Could not load the evaluation suite from ${url} (${response.status}).`);
+    let parsed: unknown;
+    try {
+        parsed = await response.json();
+    } catch {
+        throw new Error(`${url} is not a valid evaluation suite.`);
+    }
+    if (!isRecord(parsed) || !Array.isArray(parsed.cases)) throw new Error(`${url} has no list of cases.`);
+    const cases = parsed.cases.map(validateCase);
+    const ids = new Set(cases.map(testCase => testCase.id));
+    if (ids.size !== cases.length) throw new Error(`Case ids in ${url} must be unique, so reports can be compared.`);
+    return { name: typeof parsed.name === 'string' ? parsed.name : url, url: new URL(url, window.location.href).href, cases };
+};
+
+/**
+ * Estimates the cost in USD of running a suite: one composite per case, plus one judge call per product when judging.
+ */
+export const estimateEvaluationCost = (suite: EvaluationSuite, judge: boolean): number =>
+    suite.cases.reduce((total, testCase) => total
+        + estimateCompositeCost(testCase.products.length, 1, true, { placementCheck: testCase.placementCheck })
+        + (judge ? testCase.products.length * estimateDescriptionCost() : 0), 0);
+
+// Helper to fetch an image referenced by a suite as a File
+const fetchImageFile = async (path: string, suiteUrl: string, signal?: AbortSignal): Promise<File> => {
+    const url = new URL(path, suiteUrl).href;
+    const response = await fetch(url, { signal });
+    if (!response.ok) throw new Error(`Could not load ${path} (${response.status}).`);
+    const blob = await response.blob();
+    return new File([blob], path.split('/').pop() || 'image', { type: blob.type || 'image/jpeg' });
+};
+
+// Helper to convert a data URL string to a File object
+const dataUrlToFile = async (dataUrl: string, filename: string): Promise<File> => {
+    const blob = await (await fetch(dataUrl)).blob();
+    return new File([blob], filename, { type: blob.type });
+};
+
+// Helper to draw an image into a canvas of the given size (stretching it if needed)
+const drawToCanvas = (img: HTMLImageElement, width: number, height: number): CanvasRenderingContext2D => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for evaluation.');
+    }
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx;
+};
+
+// Helper to make a small JPEG copy of an image for the report
+const makeThumbnail = (img: HTMLImageElement): string => {
+    const scale = Math.min(1, THUMBNAIL_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+    const ctx = drawToCanvas(img, Math.max(1, Math.round(img.naturalWidth * scale)), Math.max(1, Math.round(img.naturalHeight * scale)));
+    return ctx.canvas.toDataURL('image/jpeg', 0.8);
+};
+
+/**
+ * Compares a result with the scene it started from, outside the areas where the placements may change it.
+ * The result is stretched to the scene's shape first; a different aspect ratio is reported separately.
+ */
+const measureDrift = (
+    scene: HTMLImageElement,
+    result: HTMLImageElement,
+    placements: { xPercent: number; yPercent: number; scale: number; }[]
+): Pick<CaseMetrics, 'ssimOutside' | 'driftOutside' | 'changedFractionOutside'> => {
+    const scale = Math.min(1, DRIFT_DIMENSION / Math.max(scene.naturalWidth, scene.naturalHeight));
+    const width = Math.max(1, Math.round(scene.naturalWidth * scale));
+    const height = Math.max(1, Math.round(scene.naturalHeight * scale));
+    const before = drawToCanvas(scene, width, height).getImageData(0, 0, width, height).data;
+    const after = drawToCanvas(result, width, height).getImageData(0, 0, width, height).data;
+
+    const areas = getPlacementChangeAreas(placements, width, height);
+    const outside = new Uint8Array(width * height);
+    const lumaBefore = new Float32Array(width * height);
+    const lumaAfter = new Float32Array(width * height);
+    let outsideCount = 0, driftSum = 0, changedCount = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const p = y * width + x;
+            const i = p * 4;
+            lumaBefore[p] = 0.299 * before[i] + 0.587 * before[i + 1] + 0.114 * before[i + 2];
+            lumaAfter[p] = 0.299 * after[i] + 0.587 * after[i + 1] + 0.114 * after[i + 2];
+            if (areas.some(area => Math.abs(x - area.x) <= area.radius && Math.abs(y - area.y) <= area.radius)) continue;
+            outside[p] = 1;
+            outsideCount++;
+            const changes = [0, 1, 2].map(c => Math.abs(after[i + c] - before[i + c]));
+            driftSum += (changes[0] + changes[1] + changes[2]) / 3;
+            if (Math.max(...changes) > CHANGE_THRESHOLD) changedCount++;
+        }
+    }
+    if (outsideCount === 0) return { ssimOutside: null, driftOutside: null, changedFractionOutside: null };
+
+    // Mean SSIM over the windows that lie entirely outside the placements
+    let ssimSum = 0, windowCount = 0;
+    for (let top = 0; top + SSIM_WINDOW <= height; top += SSIM_STEP) {
+        for (let left = 0; left + SSIM_WINDOW <= width; left += SSIM_STEP) {
+            let inside = false, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+            for (let y = top; y < top + SSIM_WINDOW && !inside; y++) {
+                for (let x = left; x < left + SSIM_WINDOW; x++) {
+                    const p = y * width + x;
+                    if (!outside[p]) {
+                        inside = true;
+                        break;
+                    }
+                    const a = lumaBefore[p], b = lumaAfter[p];
+                    sumA += a; sumB += b; sumAA += a * a; sumBB += b * b; sumAB += a * b;
+                }
+            }
+            if (inside) continue;
+            const n = SSIM_WINDOW * SSIM_WINDOW;
+            const meanA = sumA / n, meanB = sumB / n;
+            const varA = sumAA / n - meanA * meanA, varB = sumBB / n - meanB * meanB, covariance = sumAB / n - meanA * meanB;
+            ssimSum += ((2 * meanA * meanB + SSIM_C1) * (2 * covariance + SSIM_C2))
+                / ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+            windowCount++;
+        }
+    }
+    return {
+        ssimOutside: windowCount > 0 ? ssimSum / windowCount : null,
+        driftOutside: driftSum / outsideCount,
+        changedFractionOutside: changedCount / outsideCount,
+    };
+};
+
+// Helper to list the checks a case's metrics fail
+const findFailures = (metrics: CaseMetrics, testCase: EvaluationCase, thresholds: EvaluationThresholds): string[] => {
+    const failures: string[] = [];
+    if (metrics.ssimOutside !== null && metrics.ssimOutside < thresholds.minSsimOutside) {
+        failures.push(`SSIM outside the placements is ${metrics.ssimOutside.toFixed(3)} (minimum ${thresholds.minSsimOutside}).`);
+    }
+    if (metrics.driftOutside !== null && metrics.driftOutside > thresholds.maxDriftOutside) {
+        failures.push(`Pixel drift outside the placements is ${metrics.driftOutside.toFixed(1)} (maximum ${thresholds.maxDriftOutside}).`);
+    }
+    if (metrics.aspectRatioError > thresholds.maxAspectRatioError) {
+        failures.push(`The aspect ratio is off by ${(metrics.aspectRatioError * 100).toFixed(1)}%.`);
+    }
+    if ((testCase.preserveUnchangedPixels ?? true) && !metrics.sizeMatches) {
+        failures.push(`The result is ${metrics.outputWidth}x${metrics.outputHeight} instead of ${metrics.sceneWidth}x${metrics.sceneHeight}.`);
+    }
+    metrics.presence.forEach(({ name, present }) => {
+        if (present === false) failures.push(`The judge did not find ${name} at its marker.`);
+    });
+    return failures;
+};
+
+// Helper to run one case. Failures other than cancellation are recorded in the result rather than thrown.
+const runCase = async (testCase: EvaluationCase, suiteUrl: string, options: EvaluationRunOptions): Promise<CaseResult> => {
+    const { judge, forceRegenerate, signal, thresholds = DEFAULT_THRESHOLDS } = options;
+    const startedAt = Date.now();
+    let sceneThumbnail: string | null = null;
+    try {
+        const [sceneFile, productFiles] = await Promise.all([
+            fetchImageFile(testCase.scene, suiteUrl, signal),
+            Promise.all(testCase.products.map(product => fetchImageFile(product.image, suiteUrl, signal))),
+        ]);
+        const sceneImg = await loadImage(sceneFile);
+        sceneThumbnail = makeThumbnail(sceneImg);
+
+        const { variants } = await generateCompositeImage(
+            testCase.products.map((product, index) => ({
+                image: productFiles[index],
+                description: product.name,
+                dropPosition: { xPercent: product.xPercent, yPercent: product.yPercent },
+                scale: product.scale,
+            })),
+            sceneFile,
+            sceneFile.name,
+            {
+                count: 1,
+                highResolution: testCase.highResolution ?? false,
+                preserveUnchangedPixels: testCase.preserveUnchangedPixels ?? true,
+                placementCheck: testCase.placementCheck ?? 'off',
+                signal,
+                forceRegenerate,
+            }
+        );
+        const [variant] = variants;
+        const resultImg = await loadImage(variant.finalImageUrl);
+
+        const presence: CaseMetrics['presence'] = [];
+        if (judge) {
+            const resultFile = await dataUrlToFile(variant.finalImageUrl, `evaluation-${testCase.id}.jpeg`);
+            for (const [index, product] of testCase.products.entries()) {
+                const verdict = await judgeProductPresence(resultFile, productFiles[index], product.name, { xPercent: product.xPercent, yPercent: product.yPercent }, { signal, forceRegenerate });
+                presence.push({ name: product.name, ...verdict });
+            }
+        }
+
+        const sceneAspectRatio = sceneImg.naturalWidth / sceneImg.naturalHeight;
+        const metrics: CaseMetrics = {
+            sceneWidth: sceneImg.naturalWidth,
+            sceneHeight: sceneImg.naturalHeight,
+            outputWidth: resultImg.naturalWidth,
+            outputHeight: resultImg.naturalHeight,
+            sizeMatches: resultImg.naturalWidth === sceneImg.naturalWidth && resultImg.naturalHeight === sceneImg.naturalHeight,
+            aspectRatioError: Math.abs(resultImg.naturalWidth / resultImg.naturalHeight - sceneAspectRatio) / sceneAspectRatio,
+            ...measureDrift(sceneImg, resultImg, testCase.products),
+            presence,
+        };
+        const failures = findFailures(metrics, testCase, thresholds);
+        return {
+            id: testCase.id,
+            status: failures.length > 0 ? 'fail' : 'pass',
+            failures,
+            error: null,
+            durationMs: Date.now() - startedAt,
+            prompt: variant.finalPrompt,
+            promptVersions: getPromptVersions(variant.calls),
+            metrics,
+            thumbnails: { scene: sceneThumbnail, result: makeThumbnail(resultImg) },
+        };
+    } catch (error) {
+        if (isAbortError(error) || signal?.aborted) throw error;
+        console.error(`Evaluation case ${testCase.id} failed:`, error);
+        return {
+            id: testCase.id,
+            status: 'error',
+            failures: [],
+            error: getUserMessage(error),
+            durationMs: Date.now() - startedAt,
+            prompt: null,
+            promptVersions: {},
+            metrics: null,
+            thumbnails: { scene: sceneThumbnail, result: null },
+        };
+    }
+};
+
+// Helper to average the non-null values of a metric
+const mean = (values: (number | null | undefined)[]): number | null => {
+    const present = values.filter((value): value is number => typeof value === 'number');
+    return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+};
+
+export const summarizeEvaluation = (cases: CaseResult[]): EvaluationSummary => {
+    const verdicts = cases.flatMap(result => result.metrics?.presence ?? []);
+    return {
+        total: cases.length,
+        passed: cases.filter(result => result.status === 'pass').length,
+        failed: cases.filter(result => result.status === 'fail').length,
+        errored: cases.filter(result => result.status === 'error').length,
+        meanSsimOutside: mean(cases.map(result => result.metrics?.ssimOutside)),
+        meanDriftOutside: mean(cases.map(result => result.metrics?.driftOutside)),
+        productsJudged: verdicts.filter(verdict => verdict.present !== null).length,
+        productsPresent: verdicts.filter(verdict => verdict.present === true).length,
+    };
+};
+
+/**
+ * Runs every case of a suite, one after another, and builds the report.
+ * Cancelling through `signal` stops the run and rejects.
+ */
+export const runEvaluation = async (suite: EvaluationSuite, options: EvaluationRunOptions): Promise<EvaluationReport> => {
+    const provider = getImageProvider();
+    const { workingResolution, temperature, candidateCount } = getSettings();
+    const kinds = Object.keys(PROMPT_TEMPLATE_LABELS) as PromptTemplateKind[];
+    console.log(`Evaluating ${suite.cases.length} case(s) from ${suite.name} with ${provider.label}...`);
+
+    const cases: CaseResult[] = [];
+    for (const [index, testCase] of suite.cases.entries()) {
+        options.onCaseStart?.(testCase, index);
+        const result = await runCase(testCase, suite.url, options);
+        console.log(`Evaluation case ${testCase.id}: ${result.status}`, result.failures, result.error ?? '');
+        cases.push(result);
+        options.onCaseComplete?.(result, index);
+    }
+
+    return {
+        format: REPORT_FORMAT,
+        version: REPORT_VERSION,
+        suite: suite.name,
+        createdAt: Date.now(),
+        provider: provider.label,
+        models: { ...provider.models },
+        settings: { workingResolution, temperature, candidateCount },
+        promptVersions: Object.fromEntries(kinds.map(kind => [kind, getPromptTemplate(kind).version])),
+        judged: options.judge,
+        thresholds: options.thresholds ?? DEFAULT_THRESHOLDS,
+        cases,
+        summary: summarizeEvaluation(cases),
+    };
+};
+
+// Helper to recognise a saved report by its format marker; the rest is trusted as written by runEvaluation
+const isEvaluationReport = (value: unknown): value is EvaluationReport =>
+    isRecord(value) && value.format === REPORT_FORMAT && typeof value.version === 'number' && Array.isArray(value.cases);
+
+/**
+ * Reads a report saved from an earlier run, to compare a new run against.
+ */
+export const parseEvaluationReport = (text: string): EvaluationReport => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("The selected file is not a valid evaluation report.");
+    }
+    if (!isEvaluationReport(parsed)) {
+        throw new Error("The selected file is not a Home Canvas evaluation report.");
+    }
+    if (parsed.version > REPORT_VERSION) {
+        throw new Error(`This report was created by a newer version of the app (format v${parsed.version}).`);
+    }
+    return parsed;
+};
+
+/**
+ * How one case moved against the baseline run. Deltas are null when either run has no value.
+ */
+export interface CaseComparison {
+    baseline: CaseResult | null;
+    statusChanged: boolean;
+    ssimDelta: number | null;
+    driftDelta: number | null;
+}
+
+export const compareCaseToBaseline = (result: CaseResult, baseline: EvaluationReport | null): CaseComparison => {
+    const previous = baseline?.cases.find(candidate => candidate.id === result.id) ?? null;
+    const delta = (current?: number | null, before?: number | null) =>
+        typeof current === 'number' && typeof before === 'number' ? current - before : null;
+    return {
+        baseline: previous,
+        statusChanged: previous !== null && previous.status !== result.status,
+        ssimDelta: delta(result.metrics?.ssimOutside, previous?.metrics?.ssimOutside),
+        driftDelta: delta(result.metrics?.driftOutside, previous?.metrics?.driftOutside),
+    };
+};
+
+/**
+ * Lists the cases that should fail a headless run: every case that doesn't pass, except those
+ * that already didn't pass in the baseline.
+ */
+export const findRegressions = (report: EvaluationReport, baseline: EvaluationReport | null = null): string[] =>
+    report.cases.flatMap(result => {
+        const previous = compareCaseToBaseline(result, baseline).baseline;
+        if (result.status === 'pass' || (previous && previous.status !== 'pass')) return [];
+        const notes = result.error ? [result.error] : result.failures;
+        return [`${result.id}: ${result.status}${previous ? ` (was ${previous.status})` : ''}${notes.length > 0 ? `. ${notes.join(' ')}` : ''}`];
+    });
+
+export const formatMetric = (value: number | null | undefined, digits: number): string =>
+    typeof value === 'number' ? value.toFixed(digits) : '-';
+
+export const formatDelta = (value: number | null, digits: number): string =>
+    value === null ? '' : `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+export const formatPresence = (presence: CaseMetrics['presence']): string =>
+    presence.length === 0 ? '-' : presence.map(({ name, present }) => `${name}: ${present === null ? 'unclear' : present ? 'yes' : 'no'}`).join(', ');
+
+// Helper to escape text and attribute values for the HTML report; a loaded baseline may hold anything
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+/**
+ * Renders a report as a standalone HTML page, with the baseline's values alongside when one is given.
+ */
+export const renderEvaluationReportHtml = (report: EvaluationReport, baseline: EvaluationReport | null = null): string => {
+    const { summary } = report;
+    const describeRun = (run: EvaluationReport) =>
+        `${escapeHtml(run.provider)} (${escapeHtml(Object.values(run.models).join(', '))}), prompts ${escapeHtml(Object.entries(run.promptVersions).map(([kind, version]) => `${kind}@${version}`).join(', '))}`;
+    const rows = report.cases.map(result => {
+        const comparison = compareCaseToBaseline(result, baseline);
+        const metrics = result.metrics;
+        const previous = comparison.baseline;
+        const thumbnail = (url: string | null, alt: string) => url ? `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}">` : '';
+        const notes = result.error ? [result.error] : result.failures;
+        return `<tr class="${escapeHtml(result.status)}">
+<td><strong>${escapeHtml(result.id)}</strong></td>
+<td>${escapeHtml(result.status)}${previous && comparison.statusChanged ? `<br><small>was ${escapeHtml(previous.status)}</small>` : ''}</td>
+<td>${formatMetric(metrics?.ssimOutside, 3)} <small>${formatDelta(comparison.ssimDelta, 3)}</small></td>
+<td>${formatMetric(metrics?.driftOutside, 1)} <small>${formatDelta(comparison.driftDelta, 1)}</small></td>
+<td>${metrics ? `${metrics.outputWidth}x${metrics.outputHeight}<br><small>scene ${metrics.sceneWidth}x${metrics.sceneHeight}, aspect off ${(metrics.aspectRatioError * 100).toFixed(1)}%</small>` : '-'}</td>
+<td>${escapeHtml(formatPresence(metrics?.presence ?? []))}</td>
+<td>${thumbnail(result.thumbnails.scene, 'Scene')}${thumbnail(result.thumbnails.result, 'Result')}${thumbnail(previous?.thumbnails.result ?? null, 'Baseline result')}</td>
+<td>${notes.map(note => escapeHtml(note)).join('<br>')}${result.prompt ? `<details><summary>Prompt</summary><pre>${escapeHtml(result.prompt)}</pre></details>` : ''}</td>
+</tr>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>Evaluation: ${escapeHtml(report.suite)}</title>
+<style>
+body { font-family: sans-serif; color: #27272a; margin: 2rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+th, td { border: 1px solid #e4e4e7; padding: 0.5rem; text-align: left; vertical-align: top; }
+tr.fail td:nth-child(2) { color: #b45309; font-weight: bold; }
+tr.error td:nth-child(2) { color: #b91c1c; font-weight: bold; }
+tr.pass td:nth-child(2) { color: #15803d; font-weight: bold; }
+img { height: 120px; margin-right: 0.25rem; border: 1px solid #e4e4e7; }
+pre { white-space: pre-wrap; font-size: 0.75rem; background: #f4f4f5; padding: 0.5rem; }
+small { color: #71717a; }
+</style>
+</head>
+<body>
+<h1>Evaluation: ${escapeHtml(report.suite)}</h1>
+<p>Run ${new Date(report.createdAt).toLocaleString()} with ${describeRun(report)}. Working resolution ${report.settings.workingResolution}px.${report.judged ? '' : ' The presence judge was skipped.'}</p>
+${baseline ? `<p>Compared with the run of ${escapeHtml(new Date(baseline.createdAt).toLocaleString())} with ${describeRun(baseline)}: ${escapeHtml(String(baseline.summary.passed))} of ${escapeHtml(String(baseline.summary.total))} passed.</p>` : ''}
+<p><strong>${summary.passed} of ${summary.total} passed</strong>, ${summary.failed} failed, ${summary.errored} errored.
+Mean SSIM outside the placements ${formatMetric(summary.meanSsimOutside, 3)}, mean drift ${formatMetric(summary.meanDriftOutside, 1)}.
+${summary.productsJudged > 0 ? `The judge found ${summary.productsPresent} of ${summary.productsJudged} products at their markers.` : ''}</p>
+<p><small>Thresholds: SSIM at least ${report.thresholds.minSsimOutside}, drift at most ${report.thresholds.maxDriftOutside}, aspect ratio within ${(report.thresholds.maxAspectRatioError * 100).toFixed(1)}%.</small></p>
+<table>
+<thead><tr><th>Case</th><th>Status</th><th>SSIM outside</th><th>Drift outside</th><th>Size</th><th>Product present</th><th>Scene / result${baseline ? ' / baseline' : ''}</th><th>Notes</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+};
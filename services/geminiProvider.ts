@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError, FinishReason, GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Modality, SafetyRating } from "@google/genai";
+import {
+    ImageGenerationProvider, ProviderOperation, ProviderResponse, SegmentRequest, InpaintRequest, DescribeRequest, ComposeRequest,
+} from './imageProvider';
+import { recordUsage } from './usageTracker';
+import { getSettings } from './settings';
+import {
+    GenerationError, MalformedResponseError, NetworkError, SafetyBlockError, SafetyRatingSummary, TextOnlyResponseError, errorFromHttpStatus,
+} from './generationErrors';
+
+// A key from the settings panel takes precedence over the one built into the app
+const createClient = () => new GoogleGenAI({ apiKey: getSettings().apiKey || process.env.API_KEY! });
+
+// Finish reasons that mean the output was withheld by a safety or policy filter
+const SAFETY_FINISH_REASONS = new Set<string>([
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+const summarizeSafetyRatings = (ratings: SafetyRating[] = []): SafetyRatingSummary[] =>
+    ratings.map(({ category, probability, blocked }) => ({ category: category ?? 'UNKNOWN', probability, blocked }));
+
+// Helper to turn an SDK or fetch failure into a typed error; cancellation is passed through untouched
+const toGenerationError = (error: unknown, signal?: AbortSignal): unknown => {
+    if (signal?.aborted || error instanceof GenerationError) return error;
+    if (error instanceof ApiError) {
+        // 429 responses carry the suggested wait as e.g. "retryDelay": "17s" in the error details
+        const retryDelay = error.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+        return errorFromHttpStatus(error.status, error.message, {
+            cause: error,
+            retryAfterMs: retryDelay ? Number(retryDelay[1]) * 1000 : undefined,
+        });
+    }
+    if (error instanceof TypeError) {
+        return new NetworkError(`Network request failed: ${error.message}`, { cause: error });
+    }
+    return error;
+};
+
+// Helper to count the inline images in a list of parts
+const countImages = (parts: { inlineData?: unknown }[] = []) => parts.filter(part => part.inlineData).length;
+
+// Helper to describe a raw response for the request inspector
+const toProviderResponse = (params: GenerateContentParameters, response: GenerateContentResponse): ProviderResponse => {
+    const { abortSignal: _abortSignal, ...config } = params.config ?? {};
+    return {
+        config: { ...config },
+        parts: (response.candidates ?? []).flatMap(c => c.content?.parts ?? []).map(part => part.inlineData?.data
+            ? { imageDataUrl: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }
+            : { text: part.text ?? '' }),
+        finishReason: response.promptFeedback?.blockReason ?? response.candidates?.[0]?.finishReason,
+    };
+};
+
+// Helper to call the model, record its usage and reject blocked prompts with a typed error
+const generate = async (
+    operation: ProviderOperation,
+    params: GenerateContentParameters & { contents: { parts: { inlineData?: unknown }[] } },
+    onResponse?: (response: ProviderResponse) => void
+): Promise<GenerateContentResponse> => {
+    let response: GenerateContentResponse;
+    const startedAt = Date.now();
+    try {
+        response = await createClient().models.generateContent(params);
+    } catch (error) {
+        throw toGenerationError(error, params.config?.abortSignal);
+    }
+
+    const usage = response.usageMetadata;
+    recordUsage({
+        timestamp: startedAt,
+        model: params.model,
+        operation,
+        inputTokens: usage?.promptTokenCount ?? 0,
+        outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+        inputImages: countImages(params.contents.parts),
+        outputImages: (response.candidates ?? []).reduce((total, c) => total + countImages(c.content?.parts), 0),
+        latencyMs: Date.now() - startedAt,
+    });
+    onResponse?.(toProviderResponse(params, response));
+
+    const { promptFeedback } = response;
+    if (promptFeedback?.blockReason) {
+        throw new SafetyBlockError(`Prompt blocked: ${promptFeedback.blockReason}`, {
+            finishReason: promptFeedback.blockReason,
+            safetyRatings: summarizeSafetyRatings(promptFeedback.safetyRatings),
+        });
+    }
+    // With several candidates, the call only counts as blocked when every one of them was
+    const candidates = response.candidates ?? [];
+    const candidate = candidates[0];
+    if (candidate?.finishReason && candidates.every(c => c.finishReason && SAFETY_FINISH_REASONS.has(c.finishReason))) {
+        throw new SafetyBlockError(`Response blocked: ${candidate.finishReason}`, {
+            finishReason: candidate.finishReason,
+            safetyRatings: summarizeSafetyRatings(candidate.safetyRatings),
+        });
+    }
+    return response;
+};
+
+// Helper function to convert a File object to a Gemini API Part
+const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+
+    const arr = dataUrl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mimeType = mimeMatch[1];
+    const data = arr[1];
+    return { inlineData: { mimeType, data } };
+};
+
+// Helper to pull the first inline image of any candidate out of a response as a data URL, explaining why when there is none
+const extractImageDataUrl = (response: GenerateContentResponse, operation: string): string => {
+    const candidate = response.candidates?.[0];
+    const parts = candidate?.content?.parts ?? [];
+    const imagePartFromResponse = (response.candidates ?? [])
+        .flatMap(c => c.content?.parts ?? [])
+        .find(part => part.inlineData?.data);
+    if (imagePartFromResponse?.inlineData) {
+        const { mimeType, data } = imagePartFromResponse.inlineData;
+        console.log(`Received image data (${mimeType}), length:`, data?.length);
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    console.error(`${operation} response did not contain an image part.`, response);
+    const finishReason = candidate?.finishReason;
+    const responseText = parts.map(part => part.text ?? '').join('').trim();
+    if (responseText) {
+        throw new TextOnlyResponseError(`The model returned text instead of an image for ${operation.toLowerCase()}.`, { finishReason, responseText });
+    }
+    throw new MalformedResponseError(
+        `The model returned no image for ${operation.toLowerCase()}${finishReason ? ` (finish reason: ${finishReason})` : ''}.`,
+        { finishReason }
+    );
+};
+
+const segment = async ({ image, mask, prompt, signal, generation, onResponse }: SegmentRequest): Promise<string> => {
+    const parts = mask
+        ? [await fileToPart(image), await fileToPart(mask), { text: prompt }]
+        : [await fileToPart(image), { text: prompt }];
+
+    const response = await generate('segment', {
+      model: getSettings().models.segment,
+      contents: { parts },
+      config: {
+          responseModalities: [Modality.IMAGE, Modality.TEXT],
+          ...generation,
+          abortSignal: signal,
+      },
+    }, onResponse);
+
+    return extractImageDataUrl(response, 'Background removal');
+};
+
+const inpaint = async ({ scene, mask, prompt, signal, generation, onResponse }: InpaintRequest): Promise<string> => {
+    // The order [scene, mask, text] is crucial for the model to understand the context.
+    const response = await generate('inpaint', {
+        model: getSettings().models.inpaint,
+        contents: { parts: [await fileToPart(scene), await fileToPart(mask), { text: prompt }] },
+        config: {
+            responseModalities: [Modality.IMAGE, Modality.TEXT],
+            ...generation,
+            abortSignal: signal,
+        },
+    }, onResponse);
+
+    return extractImageDataUrl(response, 'Inpainting');
+};
+
+const describe = async ({ markedScene, prompt, signal, generation, onResponse }: DescribeRequest): Promise<string> => {
+    const response = await generate('describe', {
+      model: getSettings().models.describe,
+      contents: { parts: [{ text: prompt }, await fileToPart(markedScene)] },
+      config: {
+          ...generation,
+          abortSignal: signal,
+      },
+    }, onResponse);
+    // Take the first candidate that answered
+    const text = (response.candidates ?? [])
+        .map(c => (c.content?.parts ?? []).map(part => part.text ?? '').join('').trim())
+        .find(Boolean);
+    if (!text) {
+        throw new MalformedResponseError('The model returned an empty description.', { finishReason: response.candidates?.[0]?.finishReason });
+    }
+    return text;
+};
+
+const compose = async ({ products, scene, prompt, seed, signal, generation, onResponse }: ComposeRequest): Promise<string> => {
+    // Products first, in prompt order, then the clean scene, then the instructions.
+    const productParts = await Promise.all(products.map(product => fileToPart(product.image)));
+    const response = await generate('compose', {
+      model: getSettings().models.compose,
+      contents: { parts: [...productParts, await fileToPart(scene), { text: prompt }] },
+      config: {
+          responseModalities: [Modality.IMAGE],
+          ...generation,
+          seed,
+          abortSignal: signal,
+      },
+    }, onResponse);
+
+    return extractImageDataUrl(response, 'Composition');
+};
+
+export const geminiProvider: ImageGenerationProvider = {
+    id: 'gemini',
+    label: 'Google Gemini',
+    get models() {
+        return getSettings().models;
+    },
+    segment,
+    inpaint,
+    describe,
+    compose,
+};
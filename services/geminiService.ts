@@ -4,11 +4,121 @@
 */
 
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import { CompositeStage, FidelityReport, ModelCallRecord, ProductFidelity, StageTiming } from '../components/types';
+import { GenerationParameters, ProviderResponse, getImageProvider } from './imageProvider';
+import { SceneRegion, computeCompositeRegion, cropImageRegion, toRegionPosition, blendRegionIntoScene, pasteChangedRegion, measurePlacementChanges } from './regionCompositing';
+import { withRetry } from './retry';
+import { CacheKeyPart, computeCacheKey, forgetCachedResponse, withResponseCache } from './responseCache';
+import { ModelCallDetails, inspectModelCall, logCachedCall } from './requestInspector';
+import { ESTIMATED_IMAGE_TOKENS, checkBudget, estimateTokenCost } from './usageTracker';
+import { getSettings } from './settings';
+import { PromptTemplate, getPromptTemplate, renderPromptTemplate } from './promptTemplates';
+import { PlacementCheckError, PlacementCheckFailure } from './generationErrors';
+import { createComparisonImage, getFidelityIssues, measureProductFidelity } from './productFidelity';
+
+export * from './generationErrors';
+export { DEFAULT_RETRY_OPTIONS, setRetryOptions, getRetryOptions } from './retry';
+export type { RetryOptions } from './retry';
+export { clearResponseCache } from './responseCache';
+
+/**
+ * Options accepted by every service call. Identical requests are answered from the response cache
+ * unless `forceRegenerate` is set; `signal` cancels the request. `onModelCall` receives the request
+ * inspector's record of every model call made (or answered from the cache) along the way.
+ */
+export interface RequestOptions {
+    signal?: AbortSignal;
+    forceRegenerate?: boolean;
+    onModelCall?: (record: ModelCallRecord) => void;
+}
+
+// Typical prompt and answer sizes, used to estimate what an operation will cost before it runs
+const ESTIMATED_PROMPT_TOKENS = 800;
+const ESTIMATED_DESCRIPTION_TOKENS = 150;
+
+// Helper to read the sampling parameters from the settings; they are part of every cache key
+const getGenerationParameters = (): GenerationParameters => {
+    const { temperature, candidateCount } = getSettings();
+    return {
+        temperature: temperature ?? undefined,
+        candidateCount: candidateCount > 1 ? candidateCount : undefined,
+    };
+};
+
+// Helper to run one provider call through the response cache and retries.
+// Every attempt and every cache hit is logged by the request inspector and collected into `calls`.
+const runModelCall = async (
+    label: string,
+    details: ModelCallDetails,
+    keyParts: CacheKeyPart[],
+    run: (onResponse: (response: ProviderResponse) => void) => Promise<string>,
+    { signal, forceRegenerate, onModelCall }: RequestOptions,
+    calls: ModelCallRecord[] = []
+): Promise<string> => {
+    const collect = (record: ModelCallRecord) => {
+        calls.push(record);
+        onModelCall?.(record);
+    };
+    let calledModel = false;
+    const result = await withResponseCache(
+        label,
+        keyParts,
+        () => withRetry(label, () => {
+            calledModel = true;
+            return inspectModelCall(details, run, collect, signal);
+        }, signal),
+        forceRegenerate
+    );
+    if (!calledModel) {
+        const record = await logCachedCall(details, result);
+        if (record) collect(record);
+    }
+    return result;
+};
+
+/**
+ * Estimates the cost in USD of describing one placement's location.
+ */
+export const estimateDescriptionCost = (): number =>
+    estimateTokenCost(getImageProvider().models.describe, ESTIMATED_IMAGE_TOKENS + ESTIMATED_PROMPT_TOKENS, ESTIMATED_DESCRIPTION_TOKENS);
+
+// Helper to estimate one composition attempt, including the judge calls of its placement check
+const estimateAttemptCost = (productCount: number, placementCheck: PlacementCheckMode): number => {
+    const { models } = getImageProvider();
+    const { candidateCount } = getSettings();
+    const composeCost = estimateTokenCost(models.compose, (productCount + 1) * ESTIMATED_IMAGE_TOKENS + ESTIMATED_PROMPT_TOKENS, candidateCount * ESTIMATED_IMAGE_TOKENS);
+    return composeCost + (placementCheck === 'judge' ? productCount * estimateDescriptionCost() : 0);
+};
+
+/**
+ * Estimates the cost in USD of a composite generation: one description per product plus one composition per variant,
+ * and one judge call per product and variant for each check that asks the judge.
+ * Generations given their descriptions write none. Cached responses cost nothing, and candidates that fail
+ * the placement check are generated again on top of this, so it is the cost of a run that goes as planned.
+ * Each of those retries is checked against the daily hard cap before it is sent.
+ */
+export const estimateCompositeCost = (
+    productCount: number,
+    variantCount: number,
+    includeDescriptions = true,
+    { placementCheck = 'off', fidelityCheck = 'off' }: Partial<Pick<CompositeOptions, 'placementCheck' | 'fidelityCheck'>> = {}
+): number => {
+    const describeCost = estimateDescriptionCost();
+    // The judges are sent both images side by side as one, so each costs about as much as a description
+    const fidelityCost = fidelityCheck === 'judge' ? productCount * describeCost : 0;
+    return (includeDescriptions ? productCount * describeCost : 0) + variantCount * (estimateAttemptCost(productCount, placementCheck) + fidelityCost);
+};
+
+/**
+ * Estimates the cost in USD of a single background removal or object removal.
+ */
+export const estimateImageEditCost = (operation: 'segment' | 'inpaint'): number =>
+    estimateTokenCost(getImageProvider().models[operation], 2 * ESTIMATED_IMAGE_TOKENS + ESTIMATED_PROMPT_TOKENS, getSettings().candidateCount * ESTIMATED_IMAGE_TOKENS);
 
 // Helper to get intrinsic image dimensions from a File object
-const getImageDimensions = (file: File): Promise<{ width: number; height: number }> => {
+const getImageDimensions = (file: File, signal?: AbortSignal): Promise<{ width: number; height: number }> => {
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
         const reader = new FileReader();
         reader.readAsDataURL(file);
         reader.onload = (event) => {
@@ -31,12 +141,15 @@ const cropToOriginalAspectRatio = (
     imageDataUrl: string,
     originalWidth: number,
     originalHeight: number,
-    targetDimension: number
+    targetDimension: number,
+    signal?: AbortSignal
 ): Promise<string> => {
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
         const img = new Image();
         img.src = imageDataUrl;
         img.onload = () => {
+            if (signal?.aborted) return reject(signal.reason);
             // Re-calculate the dimensions of the content area within the padded square image
             const aspectRatio = originalWidth / originalHeight;
             let contentWidth, contentHeight;
@@ -76,8 +189,9 @@ const cropToOriginalAspectRatio = (
 // New resize logic inspired by the reference to enforce a consistent aspect ratio without cropping.
 // It resizes the image to fit within a square and adds padding, ensuring a consistent
 // input size for the AI model, which enhances stability.
-const resizeImage = (file: File, targetDimension: number): Promise<File> => {
+const resizeImage = (file: File, targetDimension: number, signal?: AbortSignal): Promise<File> => {
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
         const reader = new FileReader();
         reader.readAsDataURL(file);
         reader.onload = (event) => {
@@ -87,6 +201,7 @@ const resizeImage = (file: File, targetDimension: number): Promise<File> => {
             const img = new Image();
             img.src = event.target.result as string;
             img.onload = () => {
+                if (signal?.aborted) return reject(signal.reason);
                 const canvas = document.createElement('canvas');
                 canvas.width = targetDimension;
                 canvas.height = targetDimension;
@@ -138,8 +253,9 @@ const resizeImage = (file: File, targetDimension: number): Promise<File> => {
 };
 
 // New helper to resize an image to specific dimensions, potentially changing aspect ratio.
-const resizeImageToDimensions = (file: File, width: number, height: number): Promise<File> => {
+const resizeImageToDimensions = (file: File, width: number, height: number, signal?: AbortSignal): Promise<File> => {
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
         const reader = new FileReader();
         reader.readAsDataURL(file);
         reader.onload = (event) => {
@@ -149,6 +265,7 @@ const resizeImageToDimensions = (file: File, width: number, height: number): Pro
             const img = new Image();
             img.src = event.target.result as string;
             img.onload = () => {
+                if (signal?.aborted) return reject(signal.reason);
                 const canvas = document.createElement('canvas');
                 canvas.width = width;
                 canvas.height = height;
@@ -191,25 +308,6 @@ const dataUrlToFile = (dataurl: string, filename: string): File => {
     return new File([u8arr], filename, {type:mime});
 };
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
-    const dataUrl = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = error => reject(error);
-    });
-    
-    const arr = dataUrl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-    
-    const mimeType = mimeMatch[1];
-    const data = arr[1];
-    return { inlineData: { mimeType, data } };
-};
-
 // Helper to convert File to a data URL string
 const fileToDataUrl = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -220,13 +318,33 @@ const fileToDataUrl = (file: File): Promise<string> => {
     });
 };
 
-// Helper to draw a marker on an image and return a new File object
-const markImage = async (
-    paddedSquareFile: File, 
+// Helper to translate content-relative percentages into percentages of the padded square.
+// Mirrors the offset calculation in markImage so providers receive the same location the marker shows.
+const toPaddedPosition = (
     position: { xPercent: number; yPercent: number; },
     originalDimensions: { originalWidth: number; originalHeight: number; }
+): { xPercent: number; yPercent: number; } => {
+    const { originalWidth, originalHeight } = originalDimensions;
+    const aspectRatio = originalWidth / originalHeight;
+    // Work in a unit square: the content fills the long edge and is centered on the short one.
+    const contentWidth = aspectRatio > 1 ? 1 : aspectRatio;
+    const contentHeight = aspectRatio > 1 ? 1 / aspectRatio : 1;
+    return {
+        xPercent: ((1 - contentWidth) / 2 + (position.xPercent / 100) * contentWidth) * 100,
+        yPercent: ((1 - contentHeight) / 2 + (position.yPercent / 100) * contentHeight) * 100,
+    };
+};
+
+// Helper to draw markers on an image and return a new File object.
+// With more than one position, each marker is labelled with its 1-based index.
+const markImage = async (
+    paddedSquareFile: File, 
+    positions: { xPercent: number; yPercent: number; }[],
+    originalDimensions: { originalWidth: number; originalHeight: number; },
+    signal?: AbortSignal
 ): Promise<File> => {
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
         const reader = new FileReader();
         reader.readAsDataURL(paddedSquareFile);
         reader.onload = (event) => {
@@ -236,6 +354,7 @@ const markImage = async (
             const img = new Image();
             img.src = event.target.result as string;
             img.onload = () => {
+                if (signal?.aborted) return reject(signal.reason);
                 const canvas = document.createElement('canvas');
                 canvas.width = img.width;
                 canvas.height = img.height;
@@ -266,25 +385,38 @@ const markImage = async (
                 const offsetX = (targetDimension - contentWidth) / 2;
                 const offsetY = (targetDimension - contentHeight) / 2;
 
-                // Calculate the marker's coordinates relative to the actual image content
-                const markerXInContent = (position.xPercent / 100) * contentWidth;
-                const markerYInContent = (position.yPercent / 100) * contentHeight;
-
-                // The final position on the canvas is the content's offset plus the relative position
-                const finalMarkerX = offsetX + markerXInContent;
-                const finalMarkerY = offsetY + markerYInContent;
-
                 // Make radius proportional to image size, but with a minimum
                 const markerRadius = Math.max(5, Math.min(canvas.width, canvas.height) * 0.015);
 
-                // Draw the marker (red circle with white outline) at the corrected coordinates
-                ctx.beginPath();
-                ctx.arc(finalMarkerX, finalMarkerY, markerRadius, 0, 2 * Math.PI, false);
-                ctx.fillStyle = 'red';
-                ctx.fill();
-                ctx.lineWidth = markerRadius * 0.2;
-                ctx.strokeStyle = 'white';
-                ctx.stroke();
+                positions.forEach((position, index) => {
+                    // Calculate the marker's coordinates relative to the actual image content
+                    const markerXInContent = (position.xPercent / 100) * contentWidth;
+                    const markerYInContent = (position.yPercent / 100) * contentHeight;
+
+                    // The final position on the canvas is the content's offset plus the relative position
+                    const finalMarkerX = offsetX + markerXInContent;
+                    const finalMarkerY = offsetY + markerYInContent;
+
+                    // Draw the marker (red circle with white outline) at the corrected coordinates
+                    ctx.beginPath();
+                    ctx.arc(finalMarkerX, finalMarkerY, markerRadius, 0, 2 * Math.PI, false);
+                    ctx.fillStyle = 'red';
+                    ctx.fill();
+                    ctx.lineWidth = markerRadius * 0.2;
+                    ctx.strokeStyle = 'white';
+                    ctx.stroke();
+
+                    if (positions.length > 1) {
+                        ctx.font = `bold ${Math.round(markerRadius * 2)}px sans-serif`;
+                        ctx.textAlign = 'left';
+                        ctx.textBaseline = 'middle';
+                        ctx.lineWidth = markerRadius * 0.3;
+                        ctx.strokeStyle = 'black';
+                        ctx.strokeText(`${index + 1}`, finalMarkerX + markerRadius * 1.4, finalMarkerY);
+                        ctx.fillStyle = 'white';
+                        ctx.fillText(`${index + 1}`, finalMarkerX + markerRadius * 1.4, finalMarkerY);
+                    }
+                });
 
                 canvas.toBlob((blob) => {
                     if (blob) {
@@ -303,301 +435,813 @@ const markImage = async (
     });
 };
 
+
 /**
  * Removes the background from a given product image.
  * @param imageFile The file of the product image.
+ * @param options Optional signal to cancel the request, and whether to bypass the response cache.
  * @returns A promise that resolves to a base64 data URL of the image with a transparent background.
  */
-export const removeBackground = async (imageFile: File): Promise<string> => {
+export const removeBackground = async (imageFile: File, options: RequestOptions = {}): Promise<string> => {
     console.log('Starting background removal process...');
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const imagePart = await fileToPart(imageFile);
-    const prompt = `Your task is to act as a precise background removal tool. Isolate the main foreground object in this image and remove its background completely. The output image must have a transparent background and be returned as a PNG. Do not add any shadows, reflections, or other elements. Only return the isolated object on a transparent background.`;
-    const textPart = { text: prompt };
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
-      contents: { parts: [imagePart, textPart] },
-      config: {
-          responseModalities: [Modality.IMAGE, Modality.TEXT],
-      },
-    });
-    
-    console.log('Received background removal response.');
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        console.log(`Received image data from background removal (${mimeType}).`);
-        // The model should return a PNG, but we construct the data URL safely anyway
-        return `data:${mimeType};base64,${data}`;
-    }
-
-    console.error("Background removal response did not contain an image part.", response);
-    throw new Error("The AI model did not return an image for background removal. Please try again.");
+    const provider = getImageProvider();
+
+    const template = getPromptTemplate('segment');
+    const prompt = template.text;
+
+    const generation = getGenerationParameters();
+    const { signal } = options;
+    const resultDataUrl = await runModelCall(
+        'Background removal',
+        { operation: 'segment', provider: provider.label, model: provider.models.segment, prompt, images: [imageFile], config: { ...generation }, template },
+        ['segment', provider.models.segment, JSON.stringify(generation), prompt, imageFile],
+        onResponse => provider.segment({ image: imageFile, prompt, signal, generation, onResponse }),
+        options
+    );
+    console.log(`Received background removal result from ${provider.label}.`);
+    return resultDataUrl;
 };
 
 /**
  * Removes the background from an image based on a user-provided mask.
  * @param imageFile The original product image file.
  * @param maskFile The mask file where white indicates the object to keep.
+ * @param options Optional signal to cancel the request, and whether to bypass the response cache.
  * @returns A promise resolving to the base64 data URL of the object with a transparent background.
  */
-export const removeBackgroundWithMask = async (imageFile: File, maskFile: File): Promise<string> => {
+export const removeBackgroundWithMask = async (imageFile: File, maskFile: File, options: RequestOptions = {}): Promise<string> => {
     console.log('Starting brush-based background removal process...');
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const { width, height } = await getImageDimensions(imageFile);
-    const resizedMask = await resizeImageToDimensions(maskFile, width, height);
-
-    const imagePart = await fileToPart(imageFile);
-    const maskPart = await fileToPart(resizedMask);
-    
-    const prompt = `**Role:** You are a precise background removal tool.
-**Task:** You have been provided with two images: an 'original image' and a 'mask'. Your job is to perfectly isolate the object from the 'original image' that corresponds to the white area in the 'mask' image. Remove everything else and make the background transparent.
-**Output:** Return ONLY the isolated object as a PNG with a transparent background. Do not add any shadows, reflections, or other elements.`;
-    const textPart = { text: prompt };
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image-preview',
-      contents: { parts: [imagePart, maskPart, textPart] },
-      config: {
-          responseModalities: [Modality.IMAGE, Modality.TEXT],
-      },
-    });
-    
-    console.log('Received brush-based background removal response.');
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        console.log(`Received image data from brush-based removal (${mimeType}).`);
-        return `data:${mimeType};base64,${data}`;
-    }
+    const provider = getImageProvider();
+    const { signal } = options;
+
+    const { width, height } = await getImageDimensions(imageFile, signal);
+    const resizedMask = await resizeImageToDimensions(maskFile, width, height, signal);
 
-    console.error("Brush-based removal response did not contain an image part.", response);
-    throw new Error("The AI model did not return an image for background removal. Please try again.");
+    const template = getPromptTemplate('segment-mask');
+    const prompt = template.text;
+
+    const generation = getGenerationParameters();
+    const resultDataUrl = await runModelCall(
+        'Brush background removal',
+        {
+            operation: 'segment', provider: provider.label, model: provider.models.segment, prompt,
+            images: [imageFile, resizedMask], config: { ...generation }, template,
+        },
+        ['segment', provider.models.segment, JSON.stringify(generation), prompt, imageFile, resizedMask],
+        onResponse => provider.segment({ image: imageFile, mask: resizedMask, prompt, signal, generation, onResponse }),
+        options
+    );
+    console.log(`Received brush-based background removal result from ${provider.label}.`);
+    return resultDataUrl;
 };
 
 /**
  * Inpaints a masked area of a scene image.
  * @param sceneImage The original scene image file.
  * @param maskImage The mask file (where the drawn area indicates what to remove).
+ * @param options Optional signal to cancel the request, and whether to bypass the response cache.
  * @returns A promise resolving to the base64 data URL of the inpainted image.
  */
-export const inpaintImage = async (sceneImage: File, maskImage: File): Promise<string> => {
+export const inpaintImage = async (sceneImage: File, maskImage: File, options: RequestOptions = {}): Promise<string> => {
     console.log('Starting inpainting process...');
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const provider = getImageProvider();
+    const { signal } = options;
 
     // Ensure scene and mask have the same dimensions for pixel-perfect alignment.
     // The mask is generated from a smaller preview, so we downscale the scene to match.
-    const { width: originalWidth, height: originalHeight } = await getImageDimensions(sceneImage);
-    const { width: maskWidth, height: maskHeight } = await getImageDimensions(maskImage);
+    const { width: originalWidth, height: originalHeight } = await getImageDimensions(sceneImage, signal);
+    const { width: maskWidth, height: maskHeight } = await getImageDimensions(maskImage, signal);
 
     // Only resize if dimensions are different to avoid unnecessary processing
     const sceneToProcess = (originalWidth !== maskWidth || originalHeight !== maskHeight)
-        ? await resizeImageToDimensions(sceneImage, maskWidth, maskHeight)
+        ? await resizeImageToDimensions(sceneImage, maskWidth, maskHeight, signal)
         : sceneImage;
-        
-    const scenePart = await fileToPart(sceneToProcess);
-    const maskPart = await fileToPart(maskImage);
 
-    const prompt = `**Role:** You are a visual content editor specializing in generative inpainting.
+    const template = getPromptTemplate('inpaint');
+    const prompt = template.text;
+
+    const generation = getGenerationParameters();
+    const resultDataUrl = await runModelCall(
+        'Inpainting',
+        {
+            operation: 'inpaint', provider: provider.label, model: provider.models.inpaint, prompt,
+            images: [sceneToProcess, maskImage], config: { ...generation }, template,
+        },
+        ['inpaint', provider.models.inpaint, JSON.stringify(generation), prompt, sceneToProcess, maskImage],
+        onResponse => provider.inpaint({ scene: sceneToProcess, mask: maskImage, prompt, signal, generation, onResponse }),
+        options
+    );
+    console.log(`Received inpainting result from ${provider.label}.`);
+
+    // If we downscaled the original scene, we need to upscale the result
+    // to match the original dimensions for a high-quality output.
+    if (sceneToProcess !== sceneImage) {
+        const resultFile = dataUrlToFile(resultDataUrl, 'inpainted-result.jpeg');
+        const finalResizedFile = await resizeImageToDimensions(resultFile, originalWidth, originalHeight, signal);
+        return fileToDataUrl(finalResizedFile);
+    } else {
+        return resultDataUrl;
+    }
+};
+
 
-**Task:** You have been provided with two images.
-1.  The first image is the 'scene'.
-2.  The second image is the 'mask'.
+/**
+ * A product to place in the scene during a composite generation.
+ */
+export interface CompositeObject {
+    image: File;
+    description: string;
+    dropPosition: { xPercent: number; yPercent: number; };
+    scale: number;
+}
+
+// Helper to turn a scale factor into an instruction for the image model
+const getScaleInstruction = (scale: number): string => {
+    if (scale > 1.0) {
+        const percentage = Math.round((scale - 1.0) * 100);
+        return `The product must be scaled to appear larger than its typical realistic size, approximately ${percentage}% larger.`;
+    }
+    if (scale < 1.0) {
+        const percentage = Math.round((1.0 - scale) * 100);
+        return `The product must be scaled to appear smaller than its typical realistic size, approximately ${percentage}% smaller.`;
+    }
+    return `The product must be scaled appropriately to look realistic in the scene.`;
+};
 
-Your job is to remove the content from the 'scene' that corresponds to the white area in the 'mask' image. You must then fill this area with new, AI-generated content that seamlessly and photorealistically blends with the surrounding image. The generated content must match the original scene's lighting, shadows, perspective, and texture.
+/**
+ * Controls how many candidates a composite generation produces and how they are varied.
+ * Every variant uses a different seed; `varyPhrasing` also appends a different emphasis to each variant's prompt.
+ * `compareComposeVersions` instead runs an A/B comparison: one variant per composite template version,
+ * all with the same seed so only the wording differs. `count` and `varyPhrasing` are then ignored.
+ */
+export interface CompositeVariantOptions {
+    count: number;
+    mode: 'parallel' | 'sequential';
+    varyPhrasing: boolean;
+    compareComposeVersions: [string, string] | null;
+}
 
-**Output:** Return only the final, edited image. Do not include any text, explanations, or other content.`;
-    
-    const textPart = { text: prompt };
+export const DEFAULT_VARIANT_OPTIONS: CompositeVariantOptions = { count: 1, mode: 'parallel', varyPhrasing: false, compareComposeVersions: null };
 
-    // The order [scene, mask, text] is crucial for the model to understand the context.
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [scenePart, maskPart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
+export const MAX_VARIANT_COUNT = 4;
 
-    console.log('Received inpainting response.');
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-    if (imagePartFromResponse?.inlineData) {
-        const { mimeType, data } = imagePartFromResponse.inlineData;
-        console.log(`Received image data from inpainting (${mimeType}).`);
-        const resultDataUrl = `data:${mimeType};base64,${data}`;
-
-        // If we downscaled the original scene, we need to upscale the result
-        // to match the original dimensions for a high-quality output.
-        if (sceneToProcess !== sceneImage) {
-            const resultFile = dataUrlToFile(resultDataUrl, 'inpainted-result.jpeg');
-            const finalResizedFile = await resizeImageToDimensions(resultFile, originalWidth, originalHeight);
-            return fileToDataUrl(finalResizedFile);
-        } else {
-            return resultDataUrl;
+/**
+ * How each candidate is checked for its products before it is accepted. `pixels` compares the scene before and
+ * after inside each product's footprint; `judge` also asks the describe model whether each product is at its marker.
+ */
+export type PlacementCheckMode = 'off' | 'pixels' | 'judge';
+
+/**
+ * How each accepted candidate is checked for changes to its products' labels, logos, text and colours.
+ * `pixels` compares colour histograms and perceptual hashes with the product images; `judge` also asks the
+ * describe model to compare each product image with the placed product. Candidates are flagged, not discarded.
+ */
+export type FidelityCheckMode = 'off' | 'pixels' | 'judge';
+
+/**
+ * Options for a composite generation. With `highResolution`, scenes larger than the model's
+ * working resolution are composited in a region around the placements and blended back,
+ * so the result keeps the scene's original pixel dimensions. With `preserveUnchangedPixels`,
+ * only the area the model actually changed around the placements (product and shadow) is pasted
+ * onto the previous scene, so the rest of the photo doesn't drift from one generation to the next.
+ * A candidate that fails the `placementCheck` is generated again with a new seed, up to `maxPlacementAttempts`
+ * times in all; a variant whose every attempt fails is reported with a PlacementCheckError.
+ * The `fidelityCheck` result of each candidate is returned with it.
+ */
+export interface CompositeOptions extends CompositeVariantOptions {
+    highResolution: boolean;
+    preserveUnchangedPixels: boolean;
+    placementCheck: PlacementCheckMode;
+    maxPlacementAttempts: number;
+    fidelityCheck: FidelityCheckMode;
+}
+
+export const DEFAULT_PLACEMENT_ATTEMPTS = 3;
+
+/**
+ * The part of the scene a composite of these placements is generated from: with `highResolution`, the region
+ * around the placements when the scene is larger than the working resolution, and otherwise null for the whole scene.
+ * Location descriptions written beforehand must describe the same part (see describePlacement).
+ */
+export const getCompositeRegion = (
+    sceneWidth: number,
+    sceneHeight: number,
+    placements: { xPercent: number; yPercent: number; scale: number; }[],
+    highResolution: boolean
+): SceneRegion | null => {
+    const { workingResolution } = getSettings();
+    return highResolution && placements.length > 0 && Math.max(sceneWidth, sceneHeight) > workingResolution
+        ? computeCompositeRegion(placements, sceneWidth, sceneHeight, workingResolution)
+        : null;
+};
+
+export const DEFAULT_COMPOSITE_OPTIONS: CompositeOptions = {
+    ...DEFAULT_VARIANT_OPTIONS, highResolution: false, preserveUnchangedPixels: true, placementCheck: 'pixels', maxPlacementAttempts: DEFAULT_PLACEMENT_ATTEMPTS,
+    fidelityCheck: 'pixels',
+};
+
+// A product counts as added when at least this fraction of its footprint changed...
+const MIN_PLACEMENT_CHANGE = 0.05;
+// ...and its footprint changed this many times more than the scene away from the placements, which a re-rendered scene doesn't pass
+const PLACEMENT_CHANGE_CONTRAST = 2;
+
+// Appended to the prompt when a candidate is generated again after failing the placement check
+const placementRetryReminder = 'A previous attempt returned the scene without every product at its marked location. Each product must be clearly visible at its specified location.';
+
+/**
+ * One candidate produced by a composite generation.
+ */
+export interface CompositeVariant {
+    finalImageUrl: string;
+    finalPrompt: string;
+    seed: number;
+    // The shared steps followed by this variant's own steps
+    timings: StageTiming[];
+    // The shared description calls followed by this variant's composition calls
+    calls: ModelCallRecord[];
+    // The placement description of each product, in the order the products were given
+    locationDescriptions: string[];
+    // Null when the fidelity check is off
+    fidelity: FidelityReport | null;
+}
+
+/**
+ * Text to use instead of what a composite generation would write itself, to re-run a composite
+ * with edited text. Either one skips the scene analysis. A given prompt is sent as-is to every
+ * variant, without phrasing variations; the descriptions are then only recorded with the result.
+ */
+export interface CompositeTextOverrides {
+    locationDescriptions?: string[];
+    prompt?: string;
+}
+
+/**
+ * Reported while a composite generation runs. Every step is reported when it starts and again,
+ * with its timing, when it finishes or fails. Per-variant steps carry the variant's index.
+ */
+export type CompositeProgressEvent =
+    | { type: 'stage-start'; stage: CompositeStage; variant?: number; startedAt: number; }
+    | { type: 'stage-end'; timing: StageTiming; };
+
+// Helper to run one pipeline step, reporting its progress and recording its timing
+const runStage = async <T>(
+    stage: CompositeStage,
+    task: () => Promise<T>,
+    timings: StageTiming[],
+    onProgress?: (event: CompositeProgressEvent) => void,
+    variant?: number
+): Promise<T> => {
+    const startedAt = Date.now();
+    onProgress?.({ type: 'stage-start', stage, variant, startedAt });
+    try {
+        return await task();
+    } finally {
+        const timing: StageTiming = { stage, variant, startedAt, durationMs: Date.now() - startedAt };
+        timings.push(timing);
+        onProgress?.({ type: 'stage-end', timing });
+    }
+};
+
+// Helper to pass the request options on to a nested service call while also collecting its model calls into `calls`
+const collectingCalls = (options: RequestOptions, calls: ModelCallRecord[]): RequestOptions => ({
+    ...options,
+    onModelCall: record => {
+        calls.push(record);
+        options.onModelCall?.(record);
+    },
+});
+
+// Helper to read the verdict from a judge's answer, which should start with a yes or a no. Anything else gives null.
+const parseVerdict = (answer: string): boolean | null => {
+    const verdict = answer.trim().match(/^[\s*_"']*(yes|no)\b/i);
+    return verdict ? verdict[1].toLowerCase() === 'yes' : null;
+};
+
+// Helper to check that every product appears where it was placed in a generated scene, before any unchanged pixels are pasted back.
+// Returns why the check failed, or nothing if it passed. The judge is only asked once the pixels look right.
+const checkPlacements = async (
+    objects: CompositeObject[],
+    environmentImage: File,
+    sceneImageUrl: string,
+    useJudge: boolean,
+    options: RequestOptions,
+    calls: ModelCallRecord[]
+): Promise<string[]> => {
+    const changes = await measurePlacementChanges(environmentImage, sceneImageUrl, objects.map(object => ({ ...object.dropPosition, scale: object.scale })));
+    const formatPercent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+    const reasons = objects.flatMap((object, index) => {
+        const changed = changes.placements[index];
+        return changed < MIN_PLACEMENT_CHANGE || changed < changes.background * PLACEMENT_CHANGE_CONTRAST
+            ? [`Almost nothing changed where "${object.description}" was placed (${formatPercent(changed)} of its area, ${formatPercent(changes.background)} of the rest of the scene).`]
+            : [];
+    });
+    if (reasons.length > 0 || !useJudge) return reasons;
+
+    const sceneFile = dataUrlToFile(sceneImageUrl, 'placement-check.jpeg');
+    for (const object of objects) {
+        const { present, answer } = await judgeProductPresence(sceneFile, object.image, object.description, object.dropPosition, collectingCalls(options, calls));
+        if (present === false) {
+            reasons.push(`The judge did not see "${object.description}" at its marker: ${answer}`);
+        } else if (present === null) {
+            console.warn(`The judge's answer about ${object.description} was neither yes nor no; accepting the placement.`);
         }
     }
+    return reasons;
+};
 
-    console.error("Inpainting response did not contain an image part.", response);
-    throw new Error("The AI model did not return an image for inpainting. Please try again.");
+// Helper to check every product of an accepted candidate for changes to its look. Never fails the candidate; issues are reported.
+const checkFidelity = async (
+    objects: CompositeObject[],
+    environmentImage: File,
+    imageUrl: string,
+    useJudge: boolean,
+    options: RequestOptions,
+    calls: ModelCallRecord[]
+): Promise<FidelityReport> => {
+    const products: ProductFidelity[] = [];
+    for (const object of objects) {
+        const { colorDistance, hashDistance, crop } = await measureProductFidelity(
+            object.image, environmentImage, imageUrl, { ...object.dropPosition, scale: object.scale }
+        );
+        const judge = useJudge && crop
+            ? await judgeProductFidelity(object.image, crop, object.description, collectingCalls(options, calls))
+            : null;
+        const issues = getFidelityIssues({ colorDistance, hashDistance }, judge);
+        if (issues.length > 0) console.warn(`${object.description} may have been altered:`, issues);
+        products.push({ name: object.description, colorDistance, hashDistance, judge, issues });
+    }
+    return { products, flagged: products.some(product => product.issues.length > 0) };
+};
+
+// Alternative emphases appended to the prompt when variants should differ in more than their seed
+const phrasingVariations = [
+    '',
+    'Favour the most natural, understated integration: the products should look as if they were photographed in the scene.',
+    'Pay extra attention to matching the direction, softness and colour temperature of the scene\'s lighting on each product.',
+    'Pay extra attention to contact shadows, reflections and how each product rests on or against the surfaces around it.',
+];
+
+/**
+ * Describes the location of one placement in the scene, the way the composite pipeline would, so the
+ * description can be reviewed before generating. Unlike the pipeline, a failure is reported rather than
+ * replaced with a generic description. Descriptions are cached per scene, region and position.
+ * @param environmentImage The scene.
+ * @param dropPosition Where the product was placed, as percentages (0-100) of the scene's size.
+ * @param region The part of the scene the composite will be generated from (see getCompositeRegion), or null for all of it.
+ *   The description, including its relative-to-image position, is written for that part.
+ * @param options Cancellation, cache bypass and a listener for the model call's record.
+ * @returns The description.
+ */
+export const describePlacement = async (
+    environmentImage: File,
+    dropPosition: { xPercent: number; yPercent: number; },
+    region: SceneRegion | null,
+    options: RequestOptions = {}
+): Promise<string> => {
+    const { signal } = options;
+    const provider = getImageProvider();
+    const { workingResolution } = getSettings();
+    const generation = getGenerationParameters();
+    const template = getPromptTemplate('describe');
+    const descriptionPrompt = template.text;
+
+    const { width: sceneWidth, height: sceneHeight } = await getImageDimensions(environmentImage, signal);
+    const workingScene = region ? await cropImageRegion(environmentImage, region) : environmentImage;
+    const workingPosition = region ? toRegionPosition(dropPosition, sceneWidth, sceneHeight, region) : dropPosition;
+    const resizedEnvironmentImage = await resizeImage(workingScene, workingResolution, signal);
+    const markedImage = await markImage(
+        resizedEnvironmentImage, [workingPosition], { originalWidth: region?.width ?? sceneWidth, originalHeight: region?.height ?? sceneHeight }, signal
+    );
+
+    console.log(`Describing the placement at ${dropPosition.xPercent.toFixed(1)}%, ${dropPosition.yPercent.toFixed(1)}% with ${provider.label}...`);
+    const description = await runModelCall(
+        'Location description',
+        {
+            operation: 'describe', provider: provider.label, model: provider.models.describe,
+            prompt: descriptionPrompt, images: [markedImage], config: { ...generation }, template,
+        },
+        [
+            'describe', provider.models.describe, JSON.stringify(generation), descriptionPrompt, workingResolution,
+            environmentImage, JSON.stringify(dropPosition), JSON.stringify(region),
+        ],
+        onResponse => provider.describe({
+            markedScene: markedImage,
+            prompt: descriptionPrompt,
+            signal,
+            generation,
+            onResponse,
+        }),
+        options
+    );
+    console.log('Generated placement description:', description);
+    return description.trim();
+};
+
+/**
+ * A model judge's answer to whether a product appears where it was placed.
+ * `present` is null when the answer was neither a yes nor a no (the mock provider, for one, can't judge).
+ */
+export interface PresenceVerdict {
+    present: boolean | null;
+    answer: string;
+}
+
+/**
+ * Asks the describe model whether a product is visible at its drop position in a generated scene.
+ * The product image is shown next to the marked scene, since a product's name (often its file name) says little
+ * about what it looks like. Verdicts are cached per image, product and position.
+ * @param image The generated scene.
+ * @param productImage The product image that was placed.
+ * @param productName The product's name, as given to the composite prompt.
+ * @param dropPosition Where the product was placed, as percentages (0-100) of the scene's size.
+ * @param options Cancellation, cache bypass and a listener for the model call's record.
+ * @returns The verdict and the model's full answer.
+ */
+export const judgeProductPresence = async (
+    image: File,
+    productImage: File,
+    productName: string,
+    dropPosition: { xPercent: number; yPercent: number; },
+    options: RequestOptions = {}
+): Promise<PresenceVerdict> => {
+    const { signal } = options;
+    const provider = getImageProvider();
+    const { workingResolution } = getSettings();
+    const generation = getGenerationParameters();
+    const template = getPromptTemplate('judge');
+    const judgePrompt = renderPromptTemplate(template.text, { productName });
+
+    const { width: originalWidth, height: originalHeight } = await getImageDimensions(image, signal);
+    const resizedImage = await resizeImage(image, workingResolution, signal);
+    const markedImage = await markImage(resizedImage, [dropPosition], { originalWidth, originalHeight }, signal);
+    const comparisonImage = await createComparisonImage(productImage, markedImage, workingResolution);
+
+    const answer = await runModelCall(
+        'Presence check',
+        {
+            operation: 'describe', provider: provider.label, model: provider.models.describe,
+            prompt: judgePrompt, images: [comparisonImage], config: { ...generation }, template,
+        },
+        [
+            'judge', provider.models.describe, JSON.stringify(generation), judgePrompt, workingResolution,
+            image, productImage, JSON.stringify(dropPosition),
+        ],
+        onResponse => provider.describe({
+            markedScene: comparisonImage,
+            prompt: judgePrompt,
+            signal,
+            generation,
+            onResponse,
+        }),
+        options
+    );
+    console.log(`Presence check for ${productName}:`, answer);
+    return { present: parseVerdict(answer), answer: answer.trim() };
+};
+
+/**
+ * Asks the describe model whether a placed product kept the text, logos and colours of its product image.
+ * The two are sent side by side in one image; verdicts are cached per pair of images and product.
+ * @param productImage The product image that was placed.
+ * @param placedImage The placed product, cut out of the generated scene.
+ * @param productName The product's name, as given to the composite prompt.
+ * @param options Cancellation, cache bypass and a listener for the model call's record.
+ * @returns Whether the product was preserved (null for an answer that was neither yes nor no) and the model's full answer.
+ */
+export const judgeProductFidelity = async (
+    productImage: File,
+    placedImage: File,
+    productName: string,
+    options: RequestOptions = {}
+): Promise<{ preserved: boolean | null; answer: string; }> => {
+    const provider = getImageProvider();
+    const { workingResolution } = getSettings();
+    const generation = getGenerationParameters();
+    const template = getPromptTemplate('fidelity');
+    const fidelityPrompt = renderPromptTemplate(template.text, { productName });
+    const comparisonImage = await createComparisonImage(productImage, placedImage, Math.round(workingResolution / 2));
+
+    const answer = await runModelCall(
+        'Fidelity check',
+        {
+            operation: 'describe', provider: provider.label, model: provider.models.describe,
+            prompt: fidelityPrompt, images: [comparisonImage], config: { ...generation }, template,
+        },
+        ['fidelity', provider.models.describe, JSON.stringify(generation), fidelityPrompt, workingResolution, productImage, placedImage],
+        onResponse => provider.describe({
+            markedScene: comparisonImage,
+            prompt: fidelityPrompt,
+            signal: options.signal,
+            generation,
+            onResponse,
+        }),
+        options
+    );
+    console.log(`Fidelity check for ${productName}:`, answer);
+    return { preserved: parseVerdict(answer), answer: answer.trim() };
 };
 
+/**
+ * Writes the composition prompt for the given products and their placement descriptions (in the same order)
+ * from a composite prompt template. Exported so the prompt playground can rebuild the prompt after a description is edited.
+ * @param template The template to use; defaults to the version chosen in the settings.
+ */
+export const buildCompositePrompt = (
+    objects: Pick<CompositeObject, 'description' | 'scale'>[],
+    locationDescriptions: string[],
+    template: PromptTemplate = getPromptTemplate('compose')
+): string => {
+  const productCount = objects.length;
+  const single = productCount === 1;
+  const placementInstructions = objects.map((object, index) => renderPromptTemplate(template.partials?.placement ?? '', {
+    productNumber: index + 1,
+    productName: object.description,
+    productLabel: single ? `Product ${index + 1}` : `Product ${index + 1} ("${object.description}")`,
+    locationDescription: locationDescriptions[index],
+    scaleInstruction: getScaleInstruction(object.scale),
+  })).join('\n');
+
+  return renderPromptTemplate(template.text, {
+    productCount,
+    productImages: single ? `a 'product' image` : `${productCount} 'product' images`,
+    productPronoun: single ? 'it' : 'them',
+    productHeading: single ? 'Product' : 'Products',
+    productNoun: single ? 'product' : 'products',
+    productEach: single ? 'it' : 'each one',
+    productImagesInstruction: single
+      ? `The first image provided.`
+      : `The first ${productCount} images provided, in the order they are listed below (Product 1 is the first image, Product 2 the second, and so on).`,
+    placementInstructions,
+  });
+};
 
 /**
- * Generates a composite image using a multi-modal AI model.
- * @param objectImage The file for the object to be placed.
- * @param objectDescription A text description of the object.
+ * Generates composite image candidates using a multi-modal AI model.
+ * All objects are placed in a single generation so the scene is only re-rendered once per variant;
+ * the scene analysis is shared between variants.
+ * @param objects The products to place, each with its own drop position (0-100) and scale (1.0 is default).
  * @param environmentImage The file for the background environment.
  * @param environmentDescription A text description of the environment.
- * @param dropPosition The relative x/y coordinates (0-100) where the product was dropped.
- * @param scale The scaling factor for the product (1.0 is default).
- * @returns A promise that resolves to an object containing the base64 data URL of the generated image and the debug image.
+ * @param options How many candidates to generate, how to vary them and how to blend them back into the scene,
+ * plus the request options (cancellation and cache bypass), optional text overrides and an optional listener for per-step progress.
+ * @returns A promise that resolves to the generated candidates (at least one) and the debug image.
  */
 export const generateCompositeImage = async (
-    objectImage: File, 
-    objectDescription: string,
+    objects: CompositeObject[],
     environmentImage: File,
     environmentDescription: string,
-    dropPosition: { xPercent: number; yPercent: number; },
-    scale: number,
-): Promise<{ finalImageUrl: string; debugImageUrl: string; finalPrompt: string; }> => {
-  console.log('Starting multi-step image generation process...');
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-
-  // Get original scene dimensions for final cropping and correct marker placement
-  const { width: originalWidth, height: originalHeight } = await getImageDimensions(environmentImage);
-  
-  // Define standard dimension for model inputs
-  const MAX_DIMENSION = 1024;
+    options: Partial<CompositeOptions> & RequestOptions & CompositeTextOverrides & { onProgress?: (event: CompositeProgressEvent) => void; } = {},
+): Promise<{ variants: CompositeVariant[]; debugImageUrl: string; }> => {
+  console.log(`Starting multi-step image generation process for ${objects.length} product(s)...`);
+  if (objects.length === 0) {
+    throw new Error("At least one product must be placed before generating a scene.");
+  }
+  const {
+    count, mode, varyPhrasing, compareComposeVersions, highResolution, preserveUnchangedPixels, placementCheck, maxPlacementAttempts,
+    fidelityCheck, signal, forceRegenerate, onProgress,
+    locationDescriptions: locationDescriptionsOverride, prompt: promptOverride,
+  } = { ...DEFAULT_COMPOSITE_OPTIONS, ...options };
+  if (locationDescriptionsOverride && locationDescriptionsOverride.length !== objects.length) {
+    throw new Error("Every placed product needs exactly one location description.");
+  }
+  const composeTemplates = compareComposeVersions
+    ? compareComposeVersions.map(version => getPromptTemplate('compose', version))
+    : [getPromptTemplate('compose')];
+  const variantCount = compareComposeVersions ? composeTemplates.length : Math.min(MAX_VARIANT_COUNT, Math.max(1, Math.round(count)));
+  const provider = getImageProvider();
+  const { workingResolution } = getSettings();
+  const generation = getGenerationParameters();
+  // Timings of the steps and model calls shared by every variant
+  const timings: StageTiming[] = [];
+  const calls: ModelCallRecord[] = [];
+
+  // STEP 0: In high-resolution mode, work on the region around the placements at full resolution
+  // instead of the whole scene downscaled. Scenes that already fit the model need no region.
+  const { sceneWidth, sceneHeight, region, workingScene } = await runStage('prepare', async () => {
+    const { width: sceneWidth, height: sceneHeight } = await getImageDimensions(environmentImage, signal);
+    const region = getCompositeRegion(
+      sceneWidth, sceneHeight, objects.map(object => ({ ...object.dropPosition, scale: object.scale })), highResolution
+    );
+    if (region) {
+      console.log(`High-resolution mode: compositing a ${region.width}x${region.height} region of the ${sceneWidth}x${sceneHeight} scene.`);
+    }
+    const workingScene = region ? await cropImageRegion(environmentImage, region) : environmentImage;
+    signal?.throwIfAborted();
+    return { sceneWidth, sceneHeight, region, workingScene };
+  }, timings, onProgress);
+  const workingObjects = region
+    ? objects.map(object => ({ ...object, dropPosition: toRegionPosition(object.dropPosition, sceneWidth, sceneHeight, region) }))
+    : objects;
+  // Product sizes are relative to the whole scene's width; keep them that way inside the region.
+  const placementScaleFactor = region ? sceneWidth / Math.max(region.width, region.height) : 1;
+
+  // Get working dimensions for final cropping and correct marker placement
+  const originalWidth = region?.width ?? sceneWidth;
+  const originalHeight = region?.height ?? sceneHeight;
+  const originalDimensions = { originalWidth, originalHeight };
   
   // STEP 1: Prepare images by resizing
   console.log('Resizing product and scene images...');
-  const resizedObjectImage = await resizeImage(objectImage, MAX_DIMENSION);
-  const resizedEnvironmentImage = await resizeImage(environmentImage, MAX_DIMENSION);
+  const { resizedObjectImages, resizedEnvironmentImage } = await runStage('resize', async () => ({
+    resizedObjectImages: await Promise.all(workingObjects.map(object => resizeImage(object.image, workingResolution, signal))),
+    resizedEnvironmentImage: await resizeImage(workingScene, workingResolution, signal),
+  }), timings, onProgress);
 
-  // STEP 2: Mark the resized scene image for the description model and debug view
+  // STEP 2: Mark the resized scene image for the debug view (all markers, numbered)
   console.log('Marking scene image for analysis...');
-  // Pass original dimensions to correctly calculate marker position on the padded image
-  const markedResizedEnvironmentImage = await markImage(resizedEnvironmentImage, dropPosition, { originalWidth, originalHeight });
-
-  // The debug image is now the marked one.
-  const debugImageUrl = await fileToDataUrl(markedResizedEnvironmentImage);
-
-
-  // STEP 3: Generate semantic location description with Gemini 2.5 Flash Lite using the MARKED image
-  console.log('Generating semantic location description with gemini-2.5-flash...');
-  
-  const markedEnvironmentImagePart = await fileToPart(markedResizedEnvironmentImage);
-
-  const descriptionPrompt = `
-You are an expert scene analyst. I will provide you with an image that has a red marker on it.
-Your task is to provide a very dense, semantic description of what is at the exact location of the red marker.
-Be specific about surfaces, objects, and spatial relationships. This description will be used to guide another AI in placing a new object.
-
-Example semantic descriptions:
-- "The product location is on the dark grey fabric of the sofa cushion, in the middle section, slightly to the left of the white throw pillow."
-- "The product location is on the light-colored wooden floor, in the patch of sunlight coming from the window, about a foot away from the leg of the brown leather armchair."
-- "The product location is on the white marble countertop, just to the right of the stainless steel sink and behind the green potted plant."
+  const { markedResizedEnvironmentImage, debugImageUrl } = await runStage('mark', async () => {
+    // Pass original dimensions to correctly calculate marker position on the padded image
+    const markedResizedEnvironmentImage = await markImage(resizedEnvironmentImage, workingObjects.map(o => o.dropPosition), originalDimensions, signal);
+    // The debug image is now the marked one.
+    return { markedResizedEnvironmentImage, debugImageUrl: await fileToDataUrl(markedResizedEnvironmentImage) };
+  }, timings, onProgress);
+
+
+  // STEP 3: Generate a semantic location description per product, each from an image marked at that product's spot only.
+  // Text edited in the prompt playground is used as it is.
+  const semanticLocationDescriptions: string[] = locationDescriptionsOverride ? [...locationDescriptionsOverride] : [];
+  if (!locationDescriptionsOverride && promptOverride === undefined) {
+    const describeTemplate = getPromptTemplate('describe');
+    const descriptionPrompt = describeTemplate.text;
+    console.log(`Generating semantic location descriptions with ${provider.label}...`);
+    await runStage('describe', async () => {
+      for (const object of workingObjects) {
+        try {
+          const singleMarkedImage = workingObjects.length === 1
+            ? markedResizedEnvironmentImage
+            : await markImage(resizedEnvironmentImage, [object.dropPosition], originalDimensions, signal);
+          const description = await runModelCall(
+            'Location description',
+            {
+              operation: 'describe', provider: provider.label, model: provider.models.describe,
+              prompt: descriptionPrompt, images: [singleMarkedImage], config: { ...generation }, template: describeTemplate,
+            },
+            ['describe', provider.models.describe, JSON.stringify(generation), descriptionPrompt, singleMarkedImage],
+            onResponse => provider.describe({
+              markedScene: singleMarkedImage,
+              prompt: descriptionPrompt,
+              signal,
+              generation,
+              onResponse,
+            }),
+            options,
+            calls
+          );
+          console.log(`Generated description for ${object.description}:`, description);
+          semanticLocationDescriptions.push(description);
+        } catch (error) {
+          // A cancelled run must stop here rather than fall back to a generic description
+          if (signal?.aborted) throw signal.reason;
+          console.error('Failed to generate semantic location description:', error);
+          // Fallback to a generic statement if the description generation fails
+          semanticLocationDescriptions.push(`at the specified location.`);
+        }
+      }
+    }, timings, onProgress);
+  }
 
-On top of the semantic description above, give a rough relative-to-image description.
+  // STEP 4: Generate composite image using the CLEAN image and the descriptions
+  console.log('Preparing to generate composite image...');
 
-Example relative-to-image descriptions:
-- "The product location is about 10% away from the bottom-left of the image."
-- "The product location is about 20% away from the right of the image."
+  const prompts = composeTemplates.map(template => promptOverride ?? buildCompositePrompt(objects, semanticLocationDescriptions, template));
+
+  const composeProducts = workingObjects.map((object, index) => ({
+    image: resizedObjectImages[index],
+    placement: { ...toPaddedPosition(object.dropPosition, originalDimensions), scale: object.scale * placementScaleFactor },
+  }));
+  // Seeds derive from the inputs so re-running the same placement can be answered from the cache;
+  // forcing a regeneration picks new seeds and therefore new candidates.
+  const baseSeed = forceRegenerate
+    ? Math.floor(Math.random() * 1_000_000)
+    : parseInt((await computeCacheKey([prompts[0], resizedEnvironmentImage, ...resizedObjectImages])).slice(0, 8), 16) % 1_000_000;
+
+  const generateVariant = async (index: number): Promise<CompositeVariant> => {
+    const variantSeed = compareComposeVersions ? baseSeed : baseSeed + index;
+    const template = composeTemplates[index % composeTemplates.length];
+    const prompt = prompts[index % prompts.length];
+    const variation = varyPhrasing && !promptOverride && !compareComposeVersions ? phrasingVariations[index % phrasingVariations.length] : '';
+    const variantBasePrompt = variation ? `${prompt}\n**Emphasis for this version:** ${variation}\n` : prompt;
+    const variantTimings: StageTiming[] = [];
+    const variantCalls: ModelCallRecord[] = [];
+    const attemptCount = placementCheck === 'off' ? 1 : Math.max(1, Math.round(maxPlacementAttempts));
+    const failedAttempts: PlacementCheckFailure[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      // Retries use seeds no other variant uses, and remind the model what went wrong unless the prompt was hand-edited
+      const seed = variantSeed + (attempt - 1) * MAX_VARIANT_COUNT;
+      const variantPrompt = attempt > 1 && promptOverride === undefined ? `${variantBasePrompt}\n**Reminder:** ${placementRetryReminder}\n` : variantBasePrompt;
+
+      console.log(`Sending images and augmented prompt to ${provider.label} (variant ${index + 1}/${variantCount}, attempt ${attempt}/${attemptCount}, seed ${seed})...`);
+      const label = `Composition (variant ${index + 1}${attempt > 1 ? `, attempt ${attempt}` : ''})`;
+      const composeKeyParts: CacheKeyPart[] = [
+        'compose', provider.models.compose, JSON.stringify(generation), variantPrompt, seed, resizedEnvironmentImage,
+        ...composeProducts.flatMap(({ image, placement }) => [image, JSON.stringify(placement)]),
+      ];
+      const generatedSquareImageUrl = await runStage('compose', () => runModelCall(
+        label,
+        {
+          operation: 'compose', provider: provider.label, model: provider.models.compose, prompt: variantPrompt,
+          images: [...resizedObjectImages, resizedEnvironmentImage], config: { ...generation, seed }, variant: index,
+          // Hand-edited prompts no longer come from a template
+          template: promptOverride === undefined ? template : undefined,
+        },
+        composeKeyParts,
+        onResponse => provider.compose({
+          products: composeProducts,
+          scene: resizedEnvironmentImage, // IMPORTANT: Use clean image
+          prompt: variantPrompt,
+          seed,
+          signal,
+          generation,
+          onResponse,
+        }),
+        options,
+        variantCalls
+      ), variantTimings, onProgress, index);
+
+      console.log('Cropping generated image to original aspect ratio...');
+      const croppedImageUrl = await runStage('crop', () => cropToOriginalAspectRatio(
+          generatedSquareImageUrl,
+          originalWidth,
+          originalHeight,
+          workingResolution,
+          signal
+      ), variantTimings, onProgress, index);
+
+      signal?.throwIfAborted();
+      const sceneImageUrl = region
+        ? await runStage('blend', () => blendRegionIntoScene(environmentImage, croppedImageUrl, region), variantTimings, onProgress, index)
+        : croppedImageUrl;
+
+      // Check the products are where they were placed before accepting the composite; a failed attempt is generated again
+      if (placementCheck !== 'off') {
+        const reasons = await runStage('verify', () => checkPlacements(
+          objects, environmentImage, sceneImageUrl, placementCheck === 'judge', options, variantCalls
+        ), variantTimings, onProgress, index);
+        if (reasons.length > 0) {
+          failedAttempts.push({ attempt, seed, reasons });
+          console.warn(`Variant ${index + 1}, attempt ${attempt} failed the placement check:`, reasons);
+          // Otherwise running the composite again would replay this attempt from the cache
+          await forgetCachedResponse(label, composeKeyParts);
+          if (attempt < attemptCount) {
+            // The run was only approved for one attempt per variant, so retries must still fit under the hard cap
+            const budget = checkBudget(estimateAttemptCost(objects.length, placementCheck));
+            if (budget.status !== 'block') continue;
+            console.warn(`Variant ${index + 1}: not retrying, today's $${budget.limitUsd.toFixed(2)} hard cap would be passed.`);
+            throw new PlacementCheckError(`Variant ${index + 1} failed the placement check and retrying would pass the hard cap.`, { attempts: failedAttempts, stoppedByBudget: true });
+          }
+          throw new PlacementCheckError(`Variant ${index + 1} failed the placement check in all ${attemptCount} attempts.`, { attempts: failedAttempts });
+        }
+      }
 
-Provide only the two descriptions concatenated in a few sentences.
-`;
-  
-  let semanticLocationDescription = '';
-  try {
-    const descriptionResponse = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [{ text: descriptionPrompt }, markedEnvironmentImagePart] }
-    });
-    semanticLocationDescription = descriptionResponse.text;
-    console.log('Generated description:', semanticLocationDescription);
-  } catch (error) {
-    console.error('Failed to generate semantic location description:', error);
-    // Fallback to a generic statement if the description generation fails
-    semanticLocationDescription = `at the specified location.`;
-  }
+      let finalImageUrl = sceneImageUrl;
+      if (preserveUnchangedPixels) {
+        signal?.throwIfAborted();
+        console.log('Pasting the changed region back onto the previous scene...');
+        finalImageUrl = await runStage('paste', () => pasteChangedRegion(
+          environmentImage,
+          sceneImageUrl,
+          objects.map(object => ({ ...object.dropPosition, scale: object.scale }))
+        ), variantTimings, onProgress, index);
+      }
 
-  // STEP 4: Generate composite image using the CLEAN image and the description
-  console.log('Preparing to generate composite image...');
-  
-  const objectImagePart = await fileToPart(resizedObjectImage);
-  const cleanEnvironmentImagePart = await fileToPart(resizedEnvironmentImage); // IMPORTANT: Use clean image
-  
-  let scaleInstruction = `The product must be scaled appropriately to look realistic in the scene.`;
-  if (scale !== 1.0) {
-      if (scale > 1.0) {
-          const percentage = Math.round((scale - 1.0) * 100);
-          scaleInstruction = `The product must be scaled to appear larger than its typical realistic size, approximately ${percentage}% larger.`;
-      } else { // scale < 1.0
-          const percentage = Math.round((1.0 - scale) * 100);
-          scaleInstruction = `The product must be scaled to appear smaller than its typical realistic size, approximately ${percentage}% smaller.`;
+      // Flag products whose label, logo, text or colour changed, on the image that will be kept
+      const fidelity = fidelityCheck === 'off' ? null : await runStage('fidelity', () => checkFidelity(
+        objects, environmentImage, finalImageUrl, fidelityCheck === 'judge', options, variantCalls
+      ), variantTimings, onProgress, index);
+      return {
+        finalImageUrl, finalPrompt: variantPrompt, seed, timings: [...timings, ...variantTimings], calls: [...calls, ...variantCalls],
+        locationDescriptions: semanticLocationDescriptions, fidelity,
+      };
+    }
+  };
+
+  // Run the variants, keeping whichever succeed. Sequential mode is gentler on rate limits.
+  const indices = Array.from({ length: variantCount }, (_, index) => index);
+  let results: PromiseSettledResult<CompositeVariant>[];
+  if (mode === 'sequential') {
+    results = [];
+    for (const index of indices) {
+      try {
+        results.push({ status: 'fulfilled', value: await generateVariant(index) });
+      } catch (reason) {
+        results.push({ status: 'rejected', reason });
       }
+    }
+  } else {
+    results = await Promise.allSettled(indices.map(generateVariant));
   }
 
-  const prompt = `
-**Role:**
-You are a visual composition expert. Your task is to take a 'product' image and seamlessly integrate it into a 'scene' image, adjusting for perspective, lighting, and scale.
-
-**Specifications:**
--   **Product to add:**
-    The first image provided. It may be surrounded by black padding or background, which you should ignore and treat as transparent and only keep the product. If the product already has a transparent background (PNG), respect the transparency.
--   **Scene to use:**
-    The second image provided. It may also be surrounded by black padding, which you should ignore.
--   **Placement Instruction (Crucial):**
-    -   You must place the product at the location described below exactly. You should only place the product once. Use this dense, semantic description to find the exact spot in the scene.
-    -   **Product location Description:** "${semanticLocationDescription}"
--   **Final Image Requirements:**
-    -   The output image's style, lighting, shadows, reflections, and camera perspective must exactly match the original scene.
-    -   Do not just copy and paste the product. You must intelligently re-render it to fit the context. Adjust the product's perspective and orientation to its most natural position, and ensure it casts realistic shadows according to the scene's light sources.
-    -   ${scaleInstruction}
-    -   The product must have proportional realism. For example, a lamp product can't be bigger than a sofa in scene.
-    -   You must not return the original scene image without product placement. The product must be always present in the composite image.
-
-The output should ONLY be the final, composed image. Do not add any text or explanation.
-`;
-
-  const textPart = { text: prompt };
-  
-  console.log('Sending images and augmented prompt...');
-  
-  const response: GenerateContentResponse = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image-preview',
-    contents: { parts: [objectImagePart, cleanEnvironmentImagePart, textPart] }, // IMPORTANT: Use clean image
-    config: {
-        responseModalities: [Modality.IMAGE],
-    },
-  });
-
-  console.log('Received response.');
-  
-  const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
-
-  if (imagePartFromResponse?.inlineData) {
-    const { mimeType, data } = imagePartFromResponse.inlineData;
-    console.log(`Received image data (${mimeType}), length:`, data.length);
-    const generatedSquareImageUrl = `data:${mimeType};base64,${data}`;
-    
-    console.log('Cropping generated image to original aspect ratio...');
-    const finalImageUrl = await cropToOriginalAspectRatio(
-        generatedSquareImageUrl,
-        originalWidth,
-        originalHeight,
-        MAX_DIMENSION
-    );
-    
-    return { finalImageUrl, debugImageUrl, finalPrompt: prompt };
+  // Cancelling discards any variants that finished before the signal fired
+  signal?.throwIfAborted();
+  const variants = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+  if (variants.length === 0) {
+    throw failures[0];
+  }
+  if (failures.length > 0) {
+    console.warn(`${failures.length} of ${variantCount} variants failed to generate.`, failures);
   }
 
-  console.error("Model response did not contain an image part.", response);
-  throw new Error("The AI model did not return an image. Please try again.");
-};
\ No newline at end of file
+  return { variants, debugImageUrl };
+};
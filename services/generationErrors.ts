@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A provider-independent summary of one safety rating returned with a blocked request.
+ */
+export interface SafetyRatingSummary {
+    category: string;
+    probability?: string;
+    blocked?: boolean;
+}
+
+export type GenerationErrorKind = 'safety' | 'quota' | 'network' | 'server' | 'malformed-response' | 'text-only' | 'invalid-request' | 'placement-check';
+
+interface GenerationErrorDetails {
+    finishReason?: string;
+    cause?: unknown;
+}
+
+/**
+ * Base class for every failure of an image operation. `message` is technical and meant for logs;
+ * `userMessage` explains what happened and what to try. `retryable` failures are worth trying again unchanged.
+ */
+export abstract class GenerationError extends Error {
+    abstract readonly kind: GenerationErrorKind;
+    abstract readonly retryable: boolean;
+    abstract readonly userMessage: string;
+    readonly finishReason?: string;
+
+    constructor(message: string, { finishReason, cause }: GenerationErrorDetails = {}) {
+        super(message, { cause });
+        this.name = new.target.name;
+        this.finishReason = finishReason;
+    }
+}
+
+// The request or the generated image was blocked by the model's safety filters.
+export class SafetyBlockError extends GenerationError {
+    readonly kind = 'safety';
+    readonly retryable = false;
+    readonly userMessage = 'The request was blocked by the model\'s safety filters. Try different product or scene images, or a different placement.';
+    readonly safetyRatings: SafetyRatingSummary[];
+
+    constructor(message: string, details: GenerationErrorDetails & { safetyRatings?: SafetyRatingSummary[] } = {}) {
+        super(message, details);
+        this.safetyRatings = details.safetyRatings ?? [];
+    }
+}
+
+// Gemini names the exhausted quota in its 429 message, e.g. "GenerateRequestsPerDayPerProjectPerModel-FreeTier"
+const DAILY_QUOTA_PATTERN = /PerDay|per_day/i;
+
+// Rate limited or out of quota (HTTP 429). `retryAfterMs` is set when the backend says how long to wait.
+// A per-minute rate limit clears within a minute and is retried; a `daily` quota that is used up is not.
+export class QuotaExceededError extends GenerationError {
+    readonly kind = 'quota';
+    readonly retryable: boolean;
+    readonly userMessage: string;
+    readonly retryAfterMs?: number;
+    readonly daily: boolean;
+
+    constructor(message: string, details: GenerationErrorDetails & { retryAfterMs?: number; daily?: boolean; } = {}) {
+        super(message, details);
+        this.retryAfterMs = details.retryAfterMs;
+        this.daily = details.daily ?? DAILY_QUOTA_PATTERN.test(message);
+        this.retryable = !this.daily;
+        this.userMessage = this.daily
+            ? 'The API\'s daily quota is used up. Try again tomorrow, or use an API key with a higher quota in Settings.'
+            : 'The API rate limit was reached. Wait a minute and try again, or generate fewer variants at once.';
+    }
+}
+
+// The request never got a response, e.g. the connection dropped.
+export class NetworkError extends GenerationError {
+    readonly kind = 'network';
+    readonly retryable = true;
+    readonly userMessage = 'Could not reach the AI service. Check your internet connection and try again.';
+}
+
+// The backend failed or was overloaded (HTTP 5xx).
+export class ServerError extends GenerationError {
+    readonly kind = 'server';
+    readonly retryable = true;
+    readonly userMessage = 'The AI service had a temporary problem. Please try again in a moment.';
+}
+
+// The response arrived but was empty or could not be understood.
+export class MalformedResponseError extends GenerationError {
+    readonly kind = 'malformed-response';
+    readonly retryable = true;
+    readonly userMessage = 'The AI model returned an unexpected response. Please try again.';
+}
+
+// The model answered with text instead of an image. `responseText` holds what it said.
+export class TextOnlyResponseError extends GenerationError {
+    readonly kind = 'text-only';
+    readonly retryable = true;
+    readonly userMessage: string;
+    readonly responseText: string;
+
+    constructor(message: string, details: GenerationErrorDetails & { responseText: string }) {
+        super(message, details);
+        this.responseText = details.responseText;
+        this.userMessage = details.responseText
+            ? `The AI model replied with text instead of an image: "${details.responseText.slice(0, 200)}". Try again, or adjust the placement.`
+            : 'The AI model did not return an image. Try again, or adjust the placement.';
+    }
+}
+
+// The request was rejected as invalid (other HTTP 4xx), e.g. a missing or wrong API key. Retrying won't help.
+export class InvalidRequestError extends GenerationError {
+    readonly kind = 'invalid-request';
+    readonly retryable = false;
+    readonly userMessage: string;
+    readonly status?: number;
+
+    constructor(message: string, details: GenerationErrorDetails & { status?: number } = {}) {
+        super(message, details);
+        this.status = details.status;
+        this.userMessage = details.status === 401 || details.status === 403
+            ? 'The AI service rejected the API key. Check that it is set and valid.'
+            : 'The AI service rejected the request. Try smaller images or a different placement.';
+    }
+}
+
+/**
+ * Why one composite attempt failed the placement check, with the seed it was generated with.
+ */
+export interface PlacementCheckFailure {
+    attempt: number;
+    seed: number;
+    reasons: string[];
+}
+
+// Every attempt at a composite came back with a product missing or away from its placement. `attempts` says why each failed,
+// and `stoppedByBudget` is set when attempts were left because the daily hard cap would have been passed.
+export class PlacementCheckError extends GenerationError {
+    readonly kind = 'placement-check';
+    readonly retryable = false;
+    readonly userMessage: string;
+    readonly attempts: PlacementCheckFailure[];
+    readonly stoppedByBudget: boolean;
+
+    constructor(message: string, details: GenerationErrorDetails & { attempts: PlacementCheckFailure[]; stoppedByBudget?: boolean; }) {
+        super(message, details);
+        this.attempts = details.attempts;
+        this.stoppedByBudget = details.stoppedByBudget ?? false;
+        const report = details.attempts.map(({ attempt, reasons }) => `Attempt ${attempt}: ${reasons.join(' ')}`).join(' ');
+        const attemptCount = details.attempts.length;
+        const summary = this.stoppedByBudget
+            ? `The product was missing or not where it was placed in ${attemptCount === 1 ? 'the only attempt' : `all ${attemptCount} attempts`} made before today's hard cap stopped further attempts.`
+            : `The product was missing or not where it was placed in all ${attemptCount} attempts.`;
+        this.userMessage = `${summary} ${report} Try again, move or resize the product, or turn off the placement check.`;
+    }
+}
+
+/**
+ * Maps an HTTP failure to the matching error class.
+ */
+export const errorFromHttpStatus = (status: number, message: string, details: GenerationErrorDetails & { retryAfterMs?: number } = {}): GenerationError => {
+    if (status === 429) return new QuotaExceededError(message, details);
+    if (status === 408) return new NetworkError(message, details);
+    if (status >= 500) return new ServerError(message, details);
+    return new InvalidRequestError(message, { ...details, status });
+};
+
+/**
+ * The text to show the user for any failure: the explanation for typed errors, the message otherwise.
+ */
+export const getUserMessage = (error: unknown): string => {
+    if (error instanceof GenerationError) return error.userMessage;
+    return error instanceof Error ? error.message : 'An unknown error occurred.';
+};
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    ComposeRequest, DescribeRequest, ImageGenerationProvider, InpaintRequest, ProviderOperation, ProviderRequest,
+    SegmentRequest,
+} from './imageProvider';
+import { recordUsage } from './usageTracker';
+import { getSettings } from './settings';
+import {
+    GenerationError, InvalidRequestError, MalformedResponseError, NetworkError, QuotaExceededError, SafetyBlockError,
+    SafetyRatingSummary, ServerError, TextOnlyResponseError,
+} from './generationErrors';
+
+/**
+ * Runs every operation through the local proxy server (see `server/`), which holds the API key.
+ * Requests and responses are JSON; images travel as base64 with their MIME type.
+ */
+interface InlineImage {
+    mimeType: string;
+    data: string;
+}
+
+interface ProxyResponse {
+    result: string;
+    model: string;
+    usage: { inputTokens: number; outputTokens: number; inputImages: number; outputImages: number; };
+}
+
+interface ProxyErrorBody {
+    kind?: string;
+    message?: string;
+    finishReason?: string;
+    safetyRatings?: SafetyRatingSummary[];
+    retryAfterMs?: number;
+    responseText?: string;
+    status?: number;
+}
+
+// Empty means the proxy serves the app itself (same origin), or the Vite dev server forwards /api to it
+const PROXY_URL = (process.env.API_PROXY_URL ?? '').replace(/\/$/, '');
+
+// Helper function to convert a File object to the proxy's inline image format
+const fileToInlineImage = async (file: File): Promise<InlineImage> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+
+    const match = dataUrl.match(/^data:(.*?);base64,(.*)$/);
+    if (!match) throw new Error("Invalid data URL");
+    return { mimeType: match[1], data: match[2] };
+};
+
+// Helper to rebuild the typed error the proxy reported
+const toGenerationError = (status: number, body: ProxyErrorBody): GenerationError => {
+    const message = body.message ?? `Proxy request failed with status ${status}.`;
+    const { finishReason } = body;
+    switch (body.kind) {
+        case 'safety': return new SafetyBlockError(message, { finishReason, safetyRatings: body.safetyRatings });
+        case 'quota': return new QuotaExceededError(message, { retryAfterMs: body.retryAfterMs });
+        case 'network': return new NetworkError(message);
+        case 'malformed-response': return new MalformedResponseError(message, { finishReason });
+        case 'text-only': return new TextOnlyResponseError(message, { finishReason, responseText: body.responseText ?? '' });
+        case 'invalid-request': return new InvalidRequestError(message, { status: body.status ?? status });
+        default: return status === 429 ? new QuotaExceededError(message) : new ServerError(message);
+    }
+};
+
+// Helper to POST one operation, with the model and sampling parameters from the settings, and record the usage it reports.
+// The proxy only returns the final result, so that (or the text of a text-only answer) is what the inspector sees.
+const callProxy = async (
+    operation: ProviderOperation,
+    payload: Record<string, unknown>,
+    { signal, generation, onResponse }: ProviderRequest
+): Promise<string> => {
+    const startedAt = Date.now();
+    const config: Record<string, unknown> = { ...generation, seed: payload.seed, model: getSettings().models[operation] };
+    let response: Response;
+    try {
+        response = await fetch(`${PROXY_URL}/api/${operation}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...payload, ...config }),
+            signal,
+        });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new NetworkError(`Could not reach the proxy: ${error instanceof Error ? error.message : error}`, { cause: error });
+    }
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+        const error = (body as { error?: ProxyErrorBody } | null)?.error ?? {};
+        if (error.responseText) onResponse?.({ config, parts: [{ text: error.responseText }], finishReason: error.finishReason });
+        throw toGenerationError(response.status, error);
+    }
+    const { result, model, usage } = (body ?? {}) as Partial<ProxyResponse>;
+    if (typeof result !== 'string') {
+        throw new MalformedResponseError(`The proxy returned an unexpected ${operation} response.`);
+    }
+    if (model && usage) {
+        recordUsage({ timestamp: startedAt, model, operation, ...usage, latencyMs: Date.now() - startedAt });
+    }
+    onResponse?.({ config, parts: [operation === 'describe' ? { text: result } : { imageDataUrl: result }] });
+    return result;
+};
+
+const segment = async ({ image, mask, prompt, ...request }: SegmentRequest): Promise<string> =>
+    callProxy('segment', {
+        image: await fileToInlineImage(image),
+        mask: mask ? await fileToInlineImage(mask) : undefined,
+        prompt,
+    }, request);
+
+const inpaint = async ({ scene, mask, prompt, ...request }: InpaintRequest): Promise<string> =>
+    callProxy('inpaint', {
+        scene: await fileToInlineImage(scene),
+        mask: await fileToInlineImage(mask),
+        prompt,
+    }, request);
+
+const describe = async ({ markedScene, prompt, ...request }: DescribeRequest): Promise<string> =>
+    callProxy('describe', { markedScene: await fileToInlineImage(markedScene), prompt }, request);
+
+const compose = async ({ products, scene, prompt, seed, ...request }: ComposeRequest): Promise<string> =>
+    callProxy('compose', {
+        products: await Promise.all(products.map(product => fileToInlineImage(product.image))),
+        scene: await fileToInlineImage(scene),
+        prompt,
+        seed,
+    }, request);
+
+export const httpProvider: ImageGenerationProvider = {
+    id: 'proxy',
+    label: 'Gemini via local proxy',
+    // The proxy runs whichever models the settings name, so cached responses are shared with the direct provider
+    get models() {
+        return getSettings().models;
+    },
+    segment,
+    inpaint,
+    describe,
+    compose,
+};
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Loads an image element from a File or URL. Object URLs created for a File are revoked once it has loaded.
+ */
+export const loadImage = (source: File | string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+        img.onload = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            resolve(img);
+        };
+        img.onerror = (err) => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            reject(new Error(`Image load error: ${err}`));
+        };
+        img.src = url;
+    });
+};
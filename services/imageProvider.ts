@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geminiProvider } from './geminiProvider';
+import { httpProvider } from './httpProvider';
+import { mockProvider } from './mockProvider';
+import { getSettings } from './settings';
+
+/**
+ * Sampling parameters from the user's settings. Providers that can't honour them may ignore them.
+ */
+export interface GenerationParameters {
+    temperature?: number;
+    candidateCount?: number;
+}
+
+/**
+ * What the backend actually sent and returned, for the request inspector. Images are data URLs.
+ * `config` is the configuration as sent, without non-serializable fields such as the signal.
+ */
+export interface ProviderResponse {
+    config: Record<string, unknown>;
+    parts: { text?: string; imageDataUrl?: string; }[];
+    finishReason?: string;
+}
+
+/**
+ * Fields shared by every provider request. Providers should stop work and reject
+ * with the signal's reason (an AbortError by default) once `signal` is aborted.
+ * Providers that see the raw response report it through `onResponse`, also when they then reject it.
+ */
+export interface ProviderRequest {
+    signal?: AbortSignal;
+    generation?: GenerationParameters;
+    onResponse?: (response: ProviderResponse) => void;
+}
+
+/**
+ * Request to isolate the foreground object of an image.
+ * When a mask is given, white areas mark the object to keep.
+ */
+export interface SegmentRequest extends ProviderRequest {
+    image: File;
+    mask?: File;
+    prompt: string;
+}
+
+/**
+ * Request to replace the white area of the mask with generated content.
+ * The scene and the mask are expected to share the same pixel dimensions.
+ */
+export interface InpaintRequest extends ProviderRequest {
+    scene: File;
+    mask: File;
+    prompt: string;
+}
+
+/**
+ * Request to describe the spot indicated by the red marker on the scene.
+ */
+export interface DescribeRequest extends ProviderRequest {
+    markedScene: File;
+    prompt: string;
+}
+
+/**
+ * A product to place during composition, with its placement expressed in percentages
+ * of the padded square so providers that don't read the prompt (e.g. a local fake) can still honour it.
+ */
+export interface ComposeProduct {
+    image: File;
+    placement: { xPercent: number; yPercent: number; scale: number; };
+}
+
+/**
+ * Request to place one or more products into a scene in a single generation.
+ * All images are padded squares at the model's working resolution; products are
+ * listed in the same order the prompt refers to them. Requests with different
+ * seeds should produce different candidates; the same seed should be reproducible where the backend allows it.
+ */
+export interface ComposeRequest extends ProviderRequest {
+    products: ComposeProduct[];
+    scene: File;
+    prompt: string;
+    seed?: number;
+}
+
+export type ProviderOperation = 'segment' | 'inpaint' | 'describe' | 'compose';
+
+/**
+ * A backend capable of running the image operations the app relies on.
+ * Image-producing operations resolve to a base64 data URL; `describe` resolves to plain text.
+ * `models` names the model behind each operation; it is part of every response cache key
+ * and may change between calls when it follows the user's settings.
+ */
+export interface ImageGenerationProvider {
+    readonly id: string;
+    readonly label: string;
+    readonly models: Readonly<Record<ProviderOperation, string>>;
+    segment: (request: SegmentRequest) => Promise<string>;
+    inpaint: (request: InpaintRequest) => Promise<string>;
+    describe: (request: DescribeRequest) => Promise<string>;
+    compose: (request: ComposeRequest) => Promise<string>;
+}
+
+/**
+ * Mock mode is enabled with `MOCK_AI=true` in the environment or `?mock` / `?mock=1` in the URL.
+ * It runs the whole pipeline locally on canvas so the app works without an API key.
+ */
+export const isMockModeEnabled = (): boolean => {
+    if (process.env.MOCK_AI === 'true' || process.env.MOCK_AI === '1') return true;
+    if (typeof window === 'undefined') return false;
+    const flag = new URLSearchParams(window.location.search).get('mock');
+    return flag !== null && flag !== '0' && flag !== 'false';
+};
+
+/**
+ * Whether this build talks to the local proxy server instead of embedding an API key.
+ * Production builds always do; dev builds opt in with `USE_API_PROXY=true`.
+ */
+export const isProxyBuild = (): boolean => process.env.USE_API_PROXY === 'true';
+
+/**
+ * Proxy mode sends every request through the local proxy server so the API key stays off the client.
+ * A key entered in the settings takes precedence: requests then go straight to Gemini with that key.
+ */
+export const isProxyModeEnabled = (): boolean => isProxyBuild() && !getSettings().apiKey;
+
+/**
+ * Whether an error came from an aborted signal rather than a real failure.
+ */
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+let activeProvider: ImageGenerationProvider | null = null;
+
+/**
+ * Replaces the provider used by every service call. Pass null to restore the default
+ * (the offline mock when mock mode is enabled, then the proxy in proxy mode, Gemini otherwise).
+ */
+export const setImageProvider = (provider: ImageGenerationProvider | null): void => {
+    activeProvider = provider;
+    console.log(`Image provider set to ${getImageProvider().label}.`);
+};
+
+export const getImageProvider = (): ImageGenerationProvider =>
+    activeProvider ?? (isMockModeEnabled() ? mockProvider : isProxyModeEnabled() ? httpProvider : geminiProvider);
@@ -0,0 +1,254 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageGenerationProvider, SegmentRequest, InpaintRequest, DescribeRequest, ComposeRequest, ComposeProduct } from './imageProvider';
+import { loadImage } from './imageLoading';
+
+// Small fixed delay so loading states remain visible when demoing the offline flow.
+const MOCK_LATENCY_MS = 400;
+
+// Channel distance below which a pixel counts as background during color keying.
+const COLOR_KEY_THRESHOLD = 60;
+
+// Channel value below which a pixel is treated as the black padding added by resizeImage.
+const PADDING_THRESHOLD = 16;
+
+// The product spans this fraction of the scene's width at scale 1.0, matching the placement preview.
+const BASE_PRODUCT_FRACTION = 0.25;
+
+// Maximum relative size change and position offset (as a fraction of the scene) applied to seeded variants.
+const SEED_SCALE_JITTER = 0.08;
+const SEED_OFFSET_JITTER = 0.015;
+
+// Waits like a network round trip would, rejecting early if the request is cancelled
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+    }, { once: true });
+});
+
+// Helper to draw an image onto a fresh canvas of the given size
+const createCanvas = (img: HTMLImageElement, width = img.naturalWidth, height = img.naturalHeight) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+        throw new Error('Could not get canvas context in mock provider.');
+    }
+    ctx.drawImage(img, 0, 0, width, height);
+    return { canvas, ctx };
+};
+
+// Finds the bounding box of the non-padding content of a padded square image.
+const findContentBounds = (data: Uint8ClampedArray, width: number, height: number) => {
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            if (data[i] > PADDING_THRESHOLD || data[i + 1] > PADDING_THRESHOLD || data[i + 2] > PADDING_THRESHOLD) {
+                if (x < minX) minX = x;
+                if (x > maxX) maxX = x;
+                if (y < minY) minY = y;
+                if (y > maxY) maxY = y;
+            }
+        }
+    }
+    if (maxX < 0) return { x: 0, y: 0, width, height };
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Background removal via color keying: the average corner color is treated as the
+ * background and every pixel close to it becomes transparent. A mask, when given, wins.
+ */
+const segment = async ({ image, mask, signal }: SegmentRequest): Promise<string> => {
+    await delay(MOCK_LATENCY_MS, signal);
+    const img = await loadImage(image);
+    const { canvas, ctx } = createCanvas(img);
+    const { width, height } = canvas;
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+
+    if (mask) {
+        const maskImg = await loadImage(mask);
+        const { ctx: maskCtx } = createCanvas(maskImg, width, height);
+        const maskData = maskCtx.getImageData(0, 0, width, height).data;
+        for (let i = 0; i < data.length; i += 4) {
+            if (maskData[i] < 128) data[i + 3] = 0;
+        }
+    } else {
+        const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+        const key = [0, 1, 2].map(c => corners.reduce((sum, p) => sum + data[p * 4 + c], 0) / corners.length);
+        for (let i = 0; i < data.length; i += 4) {
+            const distance = Math.max(
+                Math.abs(data[i] - key[0]),
+                Math.abs(data[i + 1] - key[1]),
+                Math.abs(data[i + 2] - key[2])
+            );
+            if (distance < COLOR_KEY_THRESHOLD) data[i + 3] = 0;
+        }
+    }
+
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+/**
+ * Naive inpainting: every masked pixel is filled with the average color of the
+ * unmasked pixels bordering the mask.
+ */
+const inpaint = async ({ scene, mask, signal }: InpaintRequest): Promise<string> => {
+    await delay(MOCK_LATENCY_MS, signal);
+    const sceneImg = await loadImage(scene);
+    const { canvas, ctx } = createCanvas(sceneImg);
+    const { width, height } = canvas;
+    const maskImg = await loadImage(mask);
+    const { ctx: maskCtx } = createCanvas(maskImg, width, height);
+
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    const maskData = maskCtx.getImageData(0, 0, width, height).data;
+    const isMasked = (x: number, y: number) => maskData[(y * width + x) * 4] >= 128;
+
+    const sum = [0, 0, 0];
+    let count = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (isMasked(x, y)) continue;
+            const bordersMask =
+                (x > 0 && isMasked(x - 1, y)) || (x < width - 1 && isMasked(x + 1, y)) ||
+                (y > 0 && isMasked(x, y - 1)) || (y < height - 1 && isMasked(x, y + 1));
+            if (bordersMask) {
+                const i = (y * width + x) * 4;
+                sum[0] += data[i];
+                sum[1] += data[i + 1];
+                sum[2] += data[i + 2];
+                count++;
+            }
+        }
+    }
+    if (count === 0) return canvas.toDataURL('image/jpeg', 0.95);
+
+    const fill = sum.map(v => Math.round(v / count));
+    for (let i = 0; i < data.length; i += 4) {
+        if (maskData[i] >= 128) {
+            data[i] = fill[0];
+            data[i + 1] = fill[1];
+            data[i + 2] = fill[2];
+        }
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+/**
+ * Locates the red marker and reports its position relative to the image.
+ */
+const describe = async ({ markedScene, signal }: DescribeRequest): Promise<string> => {
+    await delay(MOCK_LATENCY_MS, signal);
+    const img = await loadImage(markedScene);
+    const { canvas, ctx } = createCanvas(img);
+    const { width, height } = canvas;
+    const data = ctx.getImageData(0, 0, width, height).data;
+
+    let sumX = 0, sumY = 0, count = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const i = (y * width + x) * 4;
+            if (data[i] > 200 && data[i + 1] < 60 && data[i + 2] < 60) {
+                sumX += x;
+                sumY += y;
+                count++;
+            }
+        }
+    }
+    if (count === 0) return 'The product location is at the marked spot in the scene.';
+
+    const xPercent = Math.round((sumX / count / width) * 100);
+    const yPercent = Math.round((sumY / count / height) * 100);
+    return `The product location is at the marked spot in the scene. The product location is about ${xPercent}% from the left and ${yPercent}% from the top of the image.`;
+};
+
+// Deterministic pseudo-random value in [-1, 1) for a seed, so seeded variants differ but stay reproducible.
+const seededJitter = (seed: number, salt: number): number => {
+    const value = Math.sin(seed * 12.9898 + salt * 78.233) * 43758.5453;
+    return (value - Math.floor(value)) * 2 - 1;
+};
+
+// Draws one product (with its black padding trimmed) onto the scene canvas at its placement.
+const drawProduct = async (
+    ctx: CanvasRenderingContext2D,
+    sceneSize: { width: number; height: number; },
+    { image, placement }: ComposeProduct,
+    seed?: number
+): Promise<void> => {
+    const productImg = await loadImage(image);
+    const { canvas: productCanvas, ctx: productCtx } = createCanvas(productImg);
+
+    const productData = productCtx.getImageData(0, 0, productCanvas.width, productCanvas.height);
+    const bounds = findContentBounds(productData.data, productCanvas.width, productCanvas.height);
+
+    // resizeImage flattens transparency onto black, so key that black back out before blending.
+    const pixels = productData.data;
+    for (let i = 0; i < pixels.length; i += 4) {
+        if (pixels[i] <= PADDING_THRESHOLD && pixels[i + 1] <= PADDING_THRESHOLD && pixels[i + 2] <= PADDING_THRESHOLD) {
+            pixels[i + 3] = 0;
+        }
+    }
+    productCtx.putImageData(productData, 0, 0);
+
+    // A seed nudges the position and size slightly, standing in for the variety a real model produces.
+    const scaleJitter = seed === undefined ? 1 : 1 + seededJitter(seed, 1) * SEED_SCALE_JITTER;
+    const offsetX = seed === undefined ? 0 : seededJitter(seed, 2) * SEED_OFFSET_JITTER * sceneSize.width;
+    const offsetY = seed === undefined ? 0 : seededJitter(seed, 3) * SEED_OFFSET_JITTER * sceneSize.height;
+
+    const targetWidth = sceneSize.width * BASE_PRODUCT_FRACTION * placement.scale * scaleJitter;
+    const targetHeight = targetWidth * (bounds.height / bounds.width);
+    const centerX = (placement.xPercent / 100) * sceneSize.width + offsetX;
+    const centerY = (placement.yPercent / 100) * sceneSize.height + offsetY;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.filter = `blur(${Math.max(2, targetWidth * 0.05)}px)`;
+    ctx.beginPath();
+    ctx.ellipse(centerX, centerY + targetHeight / 2, targetWidth * 0.45, targetHeight * 0.08, 0, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.restore();
+
+    ctx.drawImage(
+        productCanvas,
+        bounds.x, bounds.y, bounds.width, bounds.height,
+        centerX - targetWidth / 2, centerY - targetHeight / 2, targetWidth, targetHeight
+    );
+};
+
+/**
+ * Alpha-blends each product onto the scene at its requested placement and scale,
+ * with a soft contact shadow underneath. Products are drawn in request order.
+ */
+const compose = async ({ products, scene, seed, signal }: ComposeRequest): Promise<string> => {
+    await delay(MOCK_LATENCY_MS, signal);
+    const sceneImg = await loadImage(scene);
+    const { canvas, ctx } = createCanvas(sceneImg);
+    for (const [index, product] of products.entries()) {
+        signal?.throwIfAborted();
+        await drawProduct(ctx, canvas, product, seed === undefined ? undefined : seed + index);
+    }
+    return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+export const mockProvider: ImageGenerationProvider = {
+    id: 'mock',
+    label: 'Offline Mock',
+    models: { segment: 'mock-color-key', inpaint: 'mock-border-fill', describe: 'mock-marker-locator', compose: 'mock-alpha-blend' },
+    segment,
+    inpaint,
+    describe,
+    compose,
+};
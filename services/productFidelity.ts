@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FidelityReport } from '../components/types';
+import { loadImage } from './imageLoading';
+import { getPlacementChangeAreas } from './regionCompositing';
+
+/**
+ * Checks whether a composite kept a product's look. The placed product is found by comparing the generated
+ * scene with the scene it started from around the placement, then compared with the source product image:
+ * by colour histogram (has the colour changed?) and by perceptual hash (have the shapes of its label,
+ * logo and text changed?). Both run on small copies of the images, so they are cheap but approximate;
+ * a model judge can be asked on top (see judgeProductFidelity in geminiService).
+ */
+
+/**
+ * A placed product's distances from its source image. Both are null when no product was found at the placement.
+ */
+export interface PlacedProductMeasurement {
+    // Bhattacharyya distance between the colour histograms: 0 is identical, 1 shares no colours
+    colorDistance: number | null;
+    // Fraction (0-1) of the perceptual hash bits that differ; unrelated images differ in about half
+    hashDistance: number | null;
+    // The placed product cut out of the generated scene, for the model judge
+    crop: File | null;
+}
+
+// Above these distances a product is flagged as possibly altered
+export const MAX_COLOR_DISTANCE = 0.45;
+export const MAX_HASH_DISTANCE = 0.35;
+
+// Analysis runs on copies downscaled to this long edge
+const ANALYSIS_DIMENSION = 512;
+// A pixel belongs to the placed product when a channel moved by more than this. Shadows, which mostly darken, don't.
+const PRODUCT_CHANGE_THRESHOLD = 40;
+// Changed pixels with fewer changed neighbours than this (out of 8) are noise
+const MIN_CHANGED_NEIGHBOURS = 4;
+// Fewer product pixels than this means nothing was placed to compare
+const MIN_PRODUCT_PIXELS = 50;
+// Histogram bins per colour channel
+const HISTOGRAM_BINS = 4;
+// The difference hash compares HASH_SIZE + 1 columns in HASH_SIZE rows
+const HASH_SIZE = 8;
+// Source pixels more transparent than this are background
+const SOURCE_ALPHA_THRESHOLD = 128;
+// Opaque source images have their background keyed out when it is this close to the average corner colour
+const BACKGROUND_KEY_THRESHOLD = 40;
+// Extra room around the product when cutting it out for the judge, as a fraction of its size
+const CROP_MARGIN = 0.1;
+
+interface PixelRegion {
+    pixels: Uint8ClampedArray;
+    width: number;
+    mask: Uint8Array;
+    bounds: { x: number; y: number; width: number; height: number; };
+}
+
+// Helper to draw an image (or part of it) into a new canvas of the given size
+const drawToCanvas = (
+    img: HTMLImageElement | HTMLCanvasElement,
+    width: number,
+    height: number,
+    source?: { x: number; y: number; width: number; height: number; }
+): CanvasRenderingContext2D => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the fidelity check.');
+    }
+    if (source) {
+        ctx.drawImage(img, source.x, source.y, source.width, source.height, 0, 0, width, height);
+    } else {
+        ctx.drawImage(img, 0, 0, width, height);
+    }
+    return ctx;
+};
+
+// Helper to get the size of an image scaled so its long edge is at most `dimension`
+const fitWithin = (width: number, height: number, dimension: number) => {
+    const scale = Math.min(1, dimension / Math.max(width, height));
+    return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// Helper to drop isolated pixels from a mask and find the bounding box of what is left. Returns null for an empty mask.
+const cleanMask = (mask: Uint8Array, width: number, height: number): { mask: Uint8Array; bounds: PixelRegion['bounds']; count: number; } | null => {
+    const cleaned = new Uint8Array(mask.length);
+    let minX = width, minY = height, maxX = -1, maxY = -1, count = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (!mask[y * width + x]) continue;
+            let neighbours = 0;
+            for (let dy = -1; dy <= 1; dy++) {
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nx = x + dx, ny = y + dy;
+                    if ((dx || dy) && nx >= 0 && ny >= 0 && nx < width && ny < height && mask[ny * width + nx]) neighbours++;
+                }
+            }
+            if (neighbours < MIN_CHANGED_NEIGHBOURS) continue;
+            cleaned[y * width + x] = 1;
+            count++;
+            minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+        }
+    }
+    return count > 0 ? { mask: cleaned, bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }, count } : null;
+};
+
+// Helper to build a normalized joint RGB histogram of the masked pixels
+const colorHistogram = ({ pixels, width, mask, bounds }: PixelRegion): Float32Array => {
+    const histogram = new Float32Array(HISTOGRAM_BINS ** 3);
+    let total = 0;
+    for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+        for (let x = bounds.x; x < bounds.x + bounds.width; x++) {
+            const p = y * width + x;
+            if (!mask[p]) continue;
+            const [r, g, b] = [0, 1, 2].map(c => Math.min(HISTOGRAM_BINS - 1, Math.floor(pixels[p * 4 + c] * HISTOGRAM_BINS / 256)));
+            histogram[(r * HISTOGRAM_BINS + g) * HISTOGRAM_BINS + b]++;
+            total++;
+        }
+    }
+    return total > 0 ? histogram.map(value => value / total) : histogram;
+};
+
+// Helper to compute the difference hash of the masked pixels within their bounds; unmasked pixels count as mid grey
+const differenceHash = ({ pixels, width, mask, bounds }: PixelRegion): boolean[] => {
+    const columns = HASH_SIZE + 1;
+    const sums = new Float32Array(columns * HASH_SIZE);
+    const counts = new Float32Array(columns * HASH_SIZE);
+    for (let y = bounds.y; y < bounds.y + bounds.height; y++) {
+        for (let x = bounds.x; x < bounds.x + bounds.width; x++) {
+            const p = y * width + x;
+            const cell = Math.min(HASH_SIZE - 1, Math.floor((y - bounds.y) * HASH_SIZE / bounds.height)) * columns
+                + Math.min(columns - 1, Math.floor((x - bounds.x) * columns / bounds.width));
+            sums[cell] += mask[p] ? 0.299 * pixels[p * 4] + 0.587 * pixels[p * 4 + 1] + 0.114 * pixels[p * 4 + 2] : 128;
+            counts[cell]++;
+        }
+    }
+    const cells = sums.map((sum, i) => counts[i] > 0 ? sum / counts[i] : 128);
+    const bits: boolean[] = [];
+    for (let row = 0; row < HASH_SIZE; row++) {
+        for (let column = 0; column < HASH_SIZE; column++) {
+            bits.push(cells[row * columns + column] < cells[row * columns + column + 1]);
+        }
+    }
+    return bits;
+};
+
+// Helper to find the product in its source image: its opaque pixels, or, for an opaque photo, everything unlike the corners
+const readSourceProduct = (img: HTMLImageElement): PixelRegion | null => {
+    const { width, height } = fitWithin(img.naturalWidth, img.naturalHeight, ANALYSIS_DIMENSION);
+    const pixels = drawToCanvas(img, width, height).getImageData(0, 0, width, height).data;
+    const mask = new Uint8Array(width * height);
+    let hasTransparency = false;
+    for (let p = 0; p < mask.length; p++) {
+        if (pixels[p * 4 + 3] < SOURCE_ALPHA_THRESHOLD) hasTransparency = true;
+        else mask[p] = 1;
+    }
+    if (!hasTransparency) {
+        const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+        const key = [0, 1, 2].map(c => corners.reduce((sum, p) => sum + pixels[p * 4 + c], 0) / corners.length);
+        for (let p = 0; p < mask.length; p++) {
+            const distance = Math.max(...[0, 1, 2].map(c => Math.abs(pixels[p * 4 + c] - key[c])));
+            if (distance < BACKGROUND_KEY_THRESHOLD) mask[p] = 0;
+        }
+    }
+    const cleaned = cleanMask(mask, width, height);
+    return cleaned ? { pixels, width, mask: cleaned.mask, bounds: cleaned.bounds } : null;
+};
+
+// Helper to cut a region of an image out into a JPEG file
+const cropToFile = (img: HTMLImageElement, region: PixelRegion['bounds']): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        drawToCanvas(img, region.width, region.height, region).canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], 'placed-product.jpeg', { type: 'image/jpeg', lastModified: Date.now() }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed for the placed product.'));
+            }
+        }, 'image/jpeg', 0.95);
+    });
+};
+
+/**
+ * Finds a placed product in a generated scene and measures how far it drifted from its source image.
+ * @param productFile The product image that was placed.
+ * @param previousFile The scene the generation started from.
+ * @param generatedImageUrl The generated scene, at any resolution with the same aspect ratio.
+ * @param placement The product's drop position (percent of the scene) and scale.
+ */
+export const measureProductFidelity = async (
+    productFile: File,
+    previousFile: File,
+    generatedImageUrl: string,
+    placement: { xPercent: number; yPercent: number; scale: number; }
+): Promise<PlacedProductMeasurement> => {
+    const [productImg, previousImg, generatedImg] = await Promise.all([loadImage(productFile), loadImage(previousFile), loadImage(generatedImageUrl)]);
+    const { width, height } = fitWithin(previousImg.naturalWidth, previousImg.naturalHeight, ANALYSIS_DIMENSION);
+    const before = drawToCanvas(previousImg, width, height).getImageData(0, 0, width, height).data;
+    const after = drawToCanvas(generatedImg, width, height).getImageData(0, 0, width, height).data;
+
+    // STEP 1: The placed product is what changed colour (not just darkened) near the placement
+    const [area] = getPlacementChangeAreas([placement], width, height);
+    const mask = new Uint8Array(width * height);
+    for (let y = Math.max(0, Math.floor(area.y - area.radius)); y < Math.min(height, Math.ceil(area.y + area.radius)); y++) {
+        for (let x = Math.max(0, Math.floor(area.x - area.radius)); x < Math.min(width, Math.ceil(area.x + area.radius)); x++) {
+            const i = (y * width + x) * 4;
+            const change = Math.max(Math.abs(after[i] - before[i]), Math.abs(after[i + 1] - before[i + 1]), Math.abs(after[i + 2] - before[i + 2]));
+            if (change > PRODUCT_CHANGE_THRESHOLD) mask[y * width + x] = 1;
+        }
+    }
+    const placed = cleanMask(mask, width, height);
+    const source = readSourceProduct(productImg);
+    if (!placed || placed.count < MIN_PRODUCT_PIXELS || !source) {
+        console.warn('Could not find the placed product to check its fidelity.');
+        return { colorDistance: null, hashDistance: null, crop: null };
+    }
+    const placedRegion: PixelRegion = { pixels: after, width, mask: placed.mask, bounds: placed.bounds };
+
+    // STEP 2: Compare colours and shapes with the source product
+    const placedHistogram = colorHistogram(placedRegion);
+    const sourceHistogram = colorHistogram(source);
+    const coefficient = placedHistogram.reduce((sum, value, i) => sum + Math.sqrt(value * sourceHistogram[i]), 0);
+    const placedHash = differenceHash(placedRegion);
+    const sourceHash = differenceHash(source);
+    const differingBits = placedHash.filter((bit, i) => bit !== sourceHash[i]).length;
+
+    // STEP 3: Cut the product out of the full-resolution result for the judge
+    const scaleX = generatedImg.naturalWidth / width;
+    const scaleY = generatedImg.naturalHeight / height;
+    const marginX = placed.bounds.width * CROP_MARGIN;
+    const marginY = placed.bounds.height * CROP_MARGIN;
+    const left = Math.max(0, Math.floor((placed.bounds.x - marginX) * scaleX));
+    const top = Math.max(0, Math.floor((placed.bounds.y - marginY) * scaleY));
+    const right = Math.min(generatedImg.naturalWidth, Math.ceil((placed.bounds.x + placed.bounds.width + marginX) * scaleX));
+    const bottom = Math.min(generatedImg.naturalHeight, Math.ceil((placed.bounds.y + placed.bounds.height + marginY) * scaleY));
+
+    return {
+        colorDistance: Math.sqrt(Math.max(0, 1 - coefficient)),
+        hashDistance: differingBits / placedHash.length,
+        crop: await cropToFile(generatedImg, { x: left, y: top, width: Math.max(1, right - left), height: Math.max(1, bottom - top) }),
+    };
+};
+
+/**
+ * Puts the source product and another image (the placed product, or the scene it was placed in) side by side
+ * on white, so a single-image model can compare them.
+ * @returns A JPEG file with the source product on the left and the other image on the right.
+ */
+export const createComparisonImage = async (sourceFile: File, placedFile: File, dimension: number): Promise<File> => {
+    const [sourceImg, placedImg] = await Promise.all([loadImage(sourceFile), loadImage(placedFile)]);
+    const gap = Math.round(dimension * 0.04);
+    const canvas = document.createElement('canvas');
+    canvas.width = dimension * 2 + gap;
+    canvas.height = dimension;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for the comparison image.');
+    }
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    [sourceImg, placedImg].forEach((img, index) => {
+        const { width, height } = fitWithin(img.naturalWidth, img.naturalHeight, dimension);
+        // Upscale small crops to fill their half too
+        const scale = dimension / Math.max(width, height);
+        const drawWidth = width * scale;
+        const drawHeight = height * scale;
+        ctx.drawImage(img, index * (dimension + gap) + (dimension - drawWidth) / 2, (dimension - drawHeight) / 2, drawWidth, drawHeight);
+    });
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], 'comparison.jpeg', { type: 'image/jpeg', lastModified: Date.now() }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed for the comparison image.'));
+            }
+        }, 'image/jpeg', 0.95);
+    });
+};
+
+/**
+ * Why a placed product may have been altered, from its measurements and the judge's verdict (when asked).
+ */
+export const getFidelityIssues = (
+    measurement: Pick<PlacedProductMeasurement, 'colorDistance' | 'hashDistance'>,
+    judge: { preserved: boolean | null; answer: string; } | null
+): string[] => {
+    const issues: string[] = [];
+    const { colorDistance, hashDistance } = measurement;
+    if (colorDistance === null || hashDistance === null) {
+        issues.push('The placed product could not be found to compare with its image.');
+    } else {
+        if (colorDistance > MAX_COLOR_DISTANCE) {
+            issues.push(`Its colours differ from the product image (distance ${colorDistance.toFixed(2)}, at most ${MAX_COLOR_DISTANCE} expected).`);
+        }
+        if (hashDistance > MAX_HASH_DISTANCE) {
+            issues.push(`Its shapes, such as a label, logo or text, differ from the product image (${Math.round(hashDistance * 100)}% of the hash, at most ${Math.round(MAX_HASH_DISTANCE * 100)}% expected).`);
+        }
+    }
+    if (judge?.preserved === false) {
+        issues.push(`The judge found it altered: ${judge.answer}`);
+    }
+    return issues;
+};
+
+/**
+ * The warning shown on a flagged composite, listing each altered product's issues, or null when none was flagged.
+ */
+export const getFidelityWarning = (report: FidelityReport | null): string | null => {
+    if (!report?.flagged) return null;
+    const products = report.products.filter(product => product.issues.length > 0);
+    return [
+        `Check before exporting: ${products.length === 1 ? 'a product' : `${products.length} products`} may have been altered.`,
+        ...products.map(product => `${product.name}: ${product.issues.join(' ')}`),
+    ].join('\n');
+};
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// @vitest-environment jsdom
+
+import { describe, expect, it } from 'vitest';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION, ProjectArchiveV1, exportProjectArchive, importProjectArchive } from './projectArchive';
+
+const archivedFile = (name: string) => ({ name, type: 'image/png', lastModified: 1000, data: btoa(`${name} bytes`) });
+
+const v1Entry = (name: string, operation: 'upload' | 'compose') => ({
+    file: archivedFile(name),
+    debugImageUrl: null,
+    debugPrompt: operation === 'compose' ? 'Place the lamp.' : null,
+    operation,
+    createdAt: 2000,
+    placements: [],
+    edits: null,
+});
+
+const createV1Archive = (): ProjectArchiveV1 => ({
+    format: ARCHIVE_FORMAT,
+    version: 1,
+    exportedAt: 3000,
+    project: { name: 'Living room', createdAt: 1000, updatedAt: 2000 },
+    products: [{ id: 1, name: 'Lamp', file: archivedFile('lamp.png') }],
+    selectedProductId: 1,
+    sceneHistory: [v1Entry('scene.png', 'upload'), v1Entry('composite.png', 'compose')],
+    historyIndex: 1,
+    placedProducts: [],
+    imageEdits: { brightness: 100, contrast: 100, saturation: 100, sharpen: 0, vignette: 0 },
+});
+
+// Helper to wrap an archive document in the File the import dialog would hand over
+const toFile = (document: unknown) => new File([JSON.stringify(document)], `project.homecanvas.json`, { type: 'application/json' });
+
+describe('importProjectArchive', () => {
+    it('migrates a v1 archive to the current layout', async () => {
+        const record = await importProjectArchive(toFile(createV1Archive()));
+
+        expect(record.name).toBe('Living room');
+        expect(record.products).toHaveLength(1);
+        expect(record.products[0].calls).toEqual([]);
+        expect(await record.products[0].file.text()).toBe('lamp.png bytes');
+
+        const [upload, composite] = record.sceneHistory;
+        expect(upload.parentId).toBeNull();
+        expect(composite.parentId).toBe(upload.id);
+        expect(record.currentEntryId).toBe(composite.id);
+        expect(composite).toMatchObject({
+            timings: [], calls: [], locationDescriptions: [], promptEdit: null, promptVersions: {}, fidelity: null,
+        });
+        expect(record.pendingVariants).toBeNull();
+    });
+
+    it('keeps the fields a later version added', async () => {
+        const call = { id: 'call-1', label: 'Describe placement', startedAt: 1, durationMs: 2 };
+        const { historyIndex: _historyIndex, sceneHistory, products, ...archive } = createV1Archive();
+        const v4Archive = {
+            ...archive,
+            version: 4,
+            products: products.map(product => ({ ...product, calls: [call] })),
+            sceneHistory: sceneHistory.map((entry, index) => ({
+                ...entry, id: `entry-${index}`, parentId: index > 0 ? `entry-${index - 1}` : null, timings: [], calls: [call],
+            })),
+            currentEntryId: 'entry-0',
+        };
+
+        const record = await importProjectArchive(toFile(v4Archive));
+
+        expect(record.currentEntryId).toBe('entry-0');
+        expect(record.products[0].calls).toEqual([call]);
+        expect(record.sceneHistory[1]).toMatchObject({ id: 'entry-1', parentId: 'entry-0', calls: [call], fidelity: null });
+    });
+
+    it('reads back what exportProjectArchive wrote', async () => {
+        const original = await importProjectArchive(toFile(createV1Archive()));
+        const exported = await exportProjectArchive(original);
+        const document = JSON.parse(await exported.text());
+        expect(document.version).toBe(ARCHIVE_VERSION);
+
+        const record = await importProjectArchive(toFile(document));
+
+        expect(record.sceneHistory.map(entry => entry.id)).toEqual(original.sceneHistory.map(entry => entry.id));
+        expect(record.currentEntryId).toBe(original.currentEntryId);
+        expect(await record.sceneHistory[1].file.text()).toBe('composite.png bytes');
+    });
+
+    it('rejects files that are not project archives', async () => {
+        await expect(importProjectArchive(toFile({ format: 'something-else', version: 1 }))).rejects.toThrow('not a Home Canvas project archive');
+        await expect(importProjectArchive(new File(['{'], 'broken.json'))).rejects.toThrow('not a valid project archive');
+    });
+
+    it('rejects archives from a newer version of the app', async () => {
+        await expect(importProjectArchive(toFile({ ...createV1Archive(), version: ARCHIVE_VERSION + 1 }))).rejects.toThrow('newer version');
+    });
+
+    it('rejects unknown versions', async () => {
+        await expect(importProjectArchive(toFile({ ...createV1Archive(), version: 0 }))).rejects.toThrow('Unsupported archive version v0.');
+    });
+
+    it('names the field a damaged archive is missing', async () => {
+        const { historyIndex: _historyIndex, ...withoutIndex } = createV1Archive();
+        await expect(importProjectArchive(toFile(withoutIndex))).rejects.toThrow('the manifest has a missing or invalid "historyIndex"');
+
+        const damagedProduct = { ...createV1Archive(), products: [{ id: 1, name: 'Lamp' }] };
+        await expect(importProjectArchive(toFile(damagedProduct))).rejects.toThrow('product 1 has a missing or invalid "file"');
+    });
+
+    it('checks history entries against the fields of their version', async () => {
+        const { historyIndex: _historyIndex, sceneHistory, ...archive } = createV1Archive();
+        // A v3 archive whose entries lack the timings v3 introduced
+        const v3Archive = {
+            ...archive,
+            version: 3,
+            sceneHistory: sceneHistory.map((entry, index) => ({ ...entry, id: `entry-${index}`, parentId: null })),
+            currentEntryId: 'entry-0',
+        };
+
+        await expect(importProjectArchive(toFile(v3Archive))).rejects.toThrow(
+            'This project archive (format v3) is damaged or incomplete: history entry 1 has a missing or invalid "timings".'
+        );
+    });
+});
@@ -0,0 +1,344 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Edits, FidelityReport, HistoryOperation, ModelCallRecord, PlacementRecord, PromptEdit, StageTiming } from '../components/types';
+import { ProjectRecord, createProjectId, createHistoryEntryId } from './projectStore';
+import { PromptVersions } from './promptTemplates';
+
+/**
+ * Project archives are a single JSON document: a manifest describing the session
+ * with every image embedded as base64. `version` is bumped whenever the layout
+ * changes, and `migrations` upgrades older documents step by step on import.
+ * Imported documents are first checked against the fields their version requires (see getRequiredFields).
+ */
+export const ARCHIVE_FORMAT = 'home-canvas-project';
+export const ARCHIVE_VERSION = 7;
+export const ARCHIVE_FILE_EXTENSION = '.homecanvas.json';
+
+interface ArchivedFile {
+    name: string;
+    type: string;
+    lastModified: number;
+    data: string; // base64
+}
+
+interface ArchivedProductV1 {
+    id: number;
+    name: string;
+    file: ArchivedFile;
+}
+
+interface ArchivedProduct extends ArchivedProductV1 {
+    calls: ModelCallRecord[];
+}
+
+interface ArchivedHistoryEntryV1 {
+    file: ArchivedFile;
+    debugImageUrl: string | null;
+    debugPrompt: string | null;
+    operation: HistoryOperation;
+    createdAt: number;
+    placements: PlacementRecord[];
+    edits: Edits | null;
+}
+
+interface ArchivedHistoryEntryV2 extends ArchivedHistoryEntryV1 {
+    id: string;
+    parentId: string | null;
+}
+
+interface ArchivedHistoryEntryV3 extends ArchivedHistoryEntryV2 {
+    timings: StageTiming[];
+}
+
+interface ArchivedHistoryEntryV4 extends ArchivedHistoryEntryV3 {
+    calls: ModelCallRecord[];
+}
+
+interface ArchivedHistoryEntryV5 extends ArchivedHistoryEntryV4 {
+    locationDescriptions: string[];
+    promptEdit: PromptEdit | null;
+}
+
+interface ArchivedHistoryEntryV6 extends ArchivedHistoryEntryV5 {
+    promptVersions: PromptVersions;
+}
+
+interface ArchivedHistoryEntry extends ArchivedHistoryEntryV6 {
+    fidelity: FidelityReport | null;
+}
+
+export interface ProjectArchiveV1 {
+    format: typeof ARCHIVE_FORMAT;
+    version: 1;
+    exportedAt: number;
+    project: { name: string; createdAt: number; updatedAt: number; };
+    products: ArchivedProductV1[];
+    selectedProductId: number | null;
+    sceneHistory: ArchivedHistoryEntryV1[];
+    historyIndex: number;
+    placedProducts: PlacementRecord[];
+    imageEdits: Edits;
+}
+
+// v2: the scene history is a tree. Entries carry ids and parent ids, and the current entry is referenced by id.
+export interface ProjectArchiveV2 extends Omit<ProjectArchiveV1, 'version' | 'sceneHistory' | 'historyIndex'> {
+    version: 2;
+    sceneHistory: ArchivedHistoryEntryV2[];
+    currentEntryId: string | null;
+}
+
+// v3: history entries record how long each step of the generation that produced them took.
+export interface ProjectArchiveV3 extends Omit<ProjectArchiveV2, 'version' | 'sceneHistory'> {
+    version: 3;
+    sceneHistory: ArchivedHistoryEntryV3[];
+}
+
+// v4: history entries and products carry the request inspector's records of the model calls that produced them.
+export interface ProjectArchiveV4 extends Omit<ProjectArchiveV3, 'version' | 'products' | 'sceneHistory'> {
+    version: 4;
+    products: ArchivedProduct[];
+    sceneHistory: ArchivedHistoryEntryV4[];
+}
+
+// v5: composites keep their location descriptions, and those re-run with edited text keep the original text.
+export interface ProjectArchiveV5 extends Omit<ProjectArchiveV4, 'version' | 'sceneHistory'> {
+    version: 5;
+    sceneHistory: ArchivedHistoryEntryV5[];
+}
+
+// v6: history entries record the prompt template versions they were generated with.
+export interface ProjectArchiveV6 extends Omit<ProjectArchiveV5, 'version' | 'sceneHistory'> {
+    version: 6;
+    sceneHistory: ArchivedHistoryEntryV6[];
+}
+
+// v7: composites record the product fidelity check's findings.
+export interface ProjectArchiveV7 extends Omit<ProjectArchiveV6, 'version' | 'sceneHistory'> {
+    version: 7;
+    sceneHistory: ArchivedHistoryEntry[];
+}
+
+type ProjectArchive = ProjectArchiveV7;
+
+interface ProjectArchiveByVersion {
+    1: ProjectArchiveV1;
+    2: ProjectArchiveV2;
+    3: ProjectArchiveV3;
+    4: ProjectArchiveV4;
+    5: ProjectArchiveV5;
+    6: ProjectArchiveV6;
+    7: ProjectArchiveV7;
+}
+type AnyProjectArchive = ProjectArchiveByVersion[keyof ProjectArchiveByVersion];
+type MigratableVersion = Exclude<keyof ProjectArchiveByVersion, typeof ARCHIVE_VERSION>;
+
+// Each entry upgrades an archive of version `key` to version `key + 1`.
+const migrations: { [Version in MigratableVersion]: (archive: ProjectArchiveByVersion[Version]) => AnyProjectArchive } = {
+    1: ({ sceneHistory, historyIndex, ...archive }: ProjectArchiveV1): ProjectArchiveV2 => {
+        const entries: ArchivedHistoryEntryV2[] = [];
+        sceneHistory.forEach((entry, index) => {
+            entries.push({ ...entry, id: createHistoryEntryId(), parentId: entries[index - 1]?.id ?? null });
+        });
+        return { ...archive, version: 2, sceneHistory: entries, currentEntryId: entries[historyIndex]?.id ?? null };
+    },
+    2: ({ sceneHistory, ...archive }: ProjectArchiveV2): ProjectArchiveV3 => ({
+        ...archive,
+        version: 3,
+        sceneHistory: sceneHistory.map(entry => ({ ...entry, timings: [] })),
+    }),
+    3: ({ products, sceneHistory, ...archive }: ProjectArchiveV3): ProjectArchiveV4 => ({
+        ...archive,
+        version: 4,
+        products: products.map(product => ({ ...product, calls: [] })),
+        sceneHistory: sceneHistory.map(entry => ({ ...entry, calls: [] })),
+    }),
+    4: ({ sceneHistory, ...archive }: ProjectArchiveV4): ProjectArchiveV5 => ({
+        ...archive,
+        version: 5,
+        sceneHistory: sceneHistory.map(entry => ({ ...entry, locationDescriptions: [], promptEdit: null })),
+    }),
+    5: ({ sceneHistory, ...archive }: ProjectArchiveV5): ProjectArchiveV6 => ({
+        ...archive,
+        version: 6,
+        sceneHistory: sceneHistory.map(entry => ({ ...entry, promptVersions: {} })),
+    }),
+    6: ({ sceneHistory, ...archive }: ProjectArchiveV6): ProjectArchiveV7 => ({
+        ...archive,
+        version: 7,
+        sceneHistory: sceneHistory.map(entry => ({ ...entry, fidelity: null })),
+    }),
+};
+
+// Helper to run the migration step of the archive's version
+const migrate = <Version extends MigratableVersion>(version: Version, archive: ProjectArchiveByVersion[Version]): AnyProjectArchive =>
+    migrations[version](archive);
+
+// Helper to recognise a project archive by its format marker
+const isArchiveDocument = (value: unknown): value is { format: typeof ARCHIVE_FORMAT; version: number; } =>
+    typeof value === 'object' && value !== null
+    && 'format' in value && value.format === ARCHIVE_FORMAT
+    && 'version' in value && typeof value.version === 'number';
+
+type FieldCheck = [field: string, isValid: (value: unknown) => boolean];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): boolean => typeof value === 'string';
+const isNumber = (value: unknown): boolean => typeof value === 'number' && Number.isFinite(value);
+const orNull = (isValid: (value: unknown) => boolean) => (value: unknown): boolean => value === null || isValid(value);
+const isArchivedFile = (value: unknown): boolean =>
+    isRecord(value) && isString(value.name) && isString(value.type) && isNumber(value.lastModified) && isString(value.data);
+const isProjectInfo = (value: unknown): boolean =>
+    isRecord(value) && isString(value.name) && isNumber(value.createdAt) && isNumber(value.updatedAt);
+
+// The fields an archive of each version must have, at the top level, on each product and on each history entry
+const getRequiredFields = (version: keyof ProjectArchiveByVersion): { archive: FieldCheck[]; product: FieldCheck[]; entry: FieldCheck[]; } => ({
+    archive: [
+        ['project', isProjectInfo], ['products', Array.isArray], ['selectedProductId', orNull(isNumber)], ['sceneHistory', Array.isArray],
+        version === 1 ? ['historyIndex', isNumber] : ['currentEntryId', orNull(isString)],
+        ['placedProducts', Array.isArray], ['imageEdits', isRecord],
+    ],
+    product: [
+        ['id', isNumber], ['name', isString], ['file', isArchivedFile],
+        ...(version >= 4 ? [['calls', Array.isArray] satisfies FieldCheck] : []),
+    ],
+    entry: [
+        ['file', isArchivedFile], ['debugImageUrl', orNull(isString)], ['debugPrompt', orNull(isString)], ['operation', isString],
+        ['createdAt', isNumber], ['placements', Array.isArray], ['edits', orNull(isRecord)],
+        ...(version >= 2 ? [['id', isString], ['parentId', orNull(isString)]] satisfies FieldCheck[] : []),
+        ...(version >= 3 ? [['timings', Array.isArray]] satisfies FieldCheck[] : []),
+        ...(version >= 4 ? [['calls', Array.isArray]] satisfies FieldCheck[] : []),
+        ...(version >= 5 ? [['locationDescriptions', Array.isArray], ['promptEdit', orNull(isRecord)]] satisfies FieldCheck[] : []),
+        ...(version >= 6 ? [['promptVersions', isRecord]] satisfies FieldCheck[] : []),
+        ...(version >= 7 ? [['fidelity', orNull(isRecord)]] satisfies FieldCheck[] : []),
+    ],
+});
+
+// Helper to describe what is wrong with a record that should have the given fields, or null when nothing is
+const findFieldProblem = (value: unknown, checks: FieldCheck[]): string | null => {
+    if (!isRecord(value)) return 'is not an object';
+    const field = checks.find(([name, isValid]) => !isValid(value[name]))?.[0];
+    return field ? `has a missing or invalid "${field}"` : null;
+};
+
+// Helper to check an archive read from a file against the layout of its version, with a message naming what is wrong
+const validateArchive = (archive: { format: typeof ARCHIVE_FORMAT; version: number; }): AnyProjectArchive => {
+    const { version } = archive;
+    if (!Number.isInteger(version) || version < 1 || version > ARCHIVE_VERSION) {
+        throw new Error(`Unsupported archive version v${version}.`);
+    }
+    const fields = getRequiredFields(version as keyof ProjectArchiveByVersion);
+    const damaged = (problem: string) => new Error(`This project archive (format v${version}) is damaged or incomplete: ${problem}.`);
+
+    const manifestProblem = findFieldProblem(archive, fields.archive);
+    if (manifestProblem) throw damaged(`the manifest ${manifestProblem}`);
+    const { products, sceneHistory } = archive as unknown as { products: unknown[]; sceneHistory: unknown[]; };
+    products.forEach((product, index) => {
+        const problem = findFieldProblem(product, fields.product);
+        if (problem) throw damaged(`product ${index + 1} ${problem}`);
+    });
+    sceneHistory.forEach((entry, index) => {
+        const problem = findFieldProblem(entry, fields.entry);
+        if (problem) throw damaged(`history entry ${index + 1} ${problem}`);
+    });
+    return archive as AnyProjectArchive;
+};
+
+// Helper to encode a File as base64 while keeping its name and type
+const archiveFile = async (file: File): Promise<ArchivedFile> => {
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(file);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = error => reject(error);
+    });
+    return {
+        name: file.name,
+        type: file.type,
+        lastModified: file.lastModified,
+        data: dataUrl.split(',')[1] ?? '',
+    };
+};
+
+// Helper to decode an archived file back into a File object
+const restoreFile = ({ name, type, lastModified, data }: ArchivedFile): File => {
+    const bstr = atob(data);
+    let n = bstr.length;
+    const u8arr = new Uint8Array(n);
+    while(n--){
+        u8arr[n] = bstr.charCodeAt(n);
+    }
+    return new File([u8arr], name, { type, lastModified });
+};
+
+/**
+ * Serializes a project into a self-contained archive.
+ * @param record The project to export.
+ * @returns A JSON Blob ready to be downloaded.
+ */
+export const exportProjectArchive = async (record: ProjectRecord): Promise<Blob> => {
+    const archive: ProjectArchive = {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: Date.now(),
+        project: { name: record.name, createdAt: record.createdAt, updatedAt: record.updatedAt },
+        products: await Promise.all(record.products.map(async product => ({
+            id: product.id,
+            name: product.name,
+            file: await archiveFile(product.file),
+            calls: product.calls,
+        }))),
+        selectedProductId: record.selectedProductId,
+        // Variants still waiting to be picked are kept as branches beside the scene they were generated from
+        sceneHistory: await Promise.all([...record.sceneHistory, ...(record.pendingVariants?.entries ?? [])].map(async ({ file, ...entry }) => ({
+            ...entry,
+            file: await archiveFile(file),
+        }))),
+        currentEntryId: record.currentEntryId,
+        placedProducts: record.placedProducts,
+        imageEdits: record.imageEdits,
+    };
+    return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+/**
+ * Reads an archive produced by any version of exportProjectArchive.
+ * @param file The archive file chosen by the user.
+ * @returns A new project record (with a fresh id) ready to be opened and saved.
+ */
+export const importProjectArchive = async (file: File): Promise<ProjectRecord> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(await file.text());
+    } catch {
+        throw new Error("The selected file is not a valid project archive.");
+    }
+    if (!isArchiveDocument(parsed)) {
+        throw new Error("The selected file is not a Home Canvas project archive.");
+    }
+    if (parsed.version > ARCHIVE_VERSION) {
+        throw new Error(`This archive was created by a newer version of the app (format v${parsed.version}). Please update and try again.`);
+    }
+
+    let archive = validateArchive(parsed);
+    while (archive.version !== ARCHIVE_VERSION) {
+        archive = migrate(archive.version, archive);
+    }
+
+    return {
+        id: createProjectId(),
+        name: archive.project.name,
+        createdAt: archive.project.createdAt,
+        updatedAt: Date.now(),
+        products: archive.products.map(product => ({ id: product.id, name: product.name, file: restoreFile(product.file), calls: product.calls })),
+        selectedProductId: archive.selectedProductId,
+        sceneHistory: archive.sceneHistory.map(({ file, ...entry }) => ({ ...entry, file: restoreFile(file) })),
+        currentEntryId: archive.currentEntryId,
+        placedProducts: archive.placedProducts,
+        imageEdits: archive.imageEdits,
+        pendingVariants: null,
+    };
+};
@@ -0,0 +1,220 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Edits, HistoryEntryMeta, ModelCallRecord, PlacementRecord } from '../components/types';
+
+const DB_NAME = 'home-canvas';
+const DB_VERSION = 1;
+const PROJECTS_STORE = 'projects';
+const LAST_PROJECT_KEY = 'home-canvas:last-project-id';
+
+export interface StoredProduct {
+    id: number;
+    name: string;
+    file: File;
+    calls: ModelCallRecord[];
+}
+
+export interface StoredHistoryEntry extends HistoryEntryMeta {
+    file: File;
+    debugImageUrl: string | null;
+    debugPrompt: string | null;
+}
+
+// Composite variants that were generated but not picked yet
+export interface StoredPendingVariants {
+    entries: StoredHistoryEntry[];
+    requestedCount: number;
+    isComparison: boolean;
+}
+
+/**
+ * Everything needed to rebuild a working session. Blob URLs are never stored;
+ * they are recreated from the files when a project is opened.
+ * `sceneHistory` holds every node of the history tree, in creation order.
+ */
+export interface ProjectSnapshot {
+    products: StoredProduct[];
+    selectedProductId: number | null;
+    sceneHistory: StoredHistoryEntry[];
+    currentEntryId: string | null;
+    placedProducts: PlacementRecord[];
+    imageEdits: Edits;
+    pendingVariants: StoredPendingVariants | null;
+}
+
+export interface ProjectRecord extends ProjectSnapshot {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface ProjectSummary {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    productCount: number;
+    historyLength: number;
+    thumbnail: File | null;
+}
+
+export const createProjectId = (): string => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createHistoryEntryId = (): string => `entry-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+                    db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(new Error(`Could not open project storage: ${request.error?.message}`));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Helper to run a single request against the projects store and resolve with its result
+const runRequest = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(PROJECTS_STORE, mode);
+        const request = operation(transaction.objectStore(PROJECTS_STORE));
+        transaction.oncomplete = () => resolve(request.result as T);
+        transaction.onerror = () => reject(new Error(`Project storage error: ${transaction.error?.message}`));
+        transaction.onabort = () => reject(new Error(`Project storage transaction aborted: ${transaction.error?.message}`));
+    });
+};
+
+export const saveProject = (project: ProjectRecord): Promise<void> =>
+    runRequest<IDBValidKey>('readwrite', store => store.put(project)).then(() => undefined);
+
+// Records saved before multi-product placement stored a single pending placement,
+// history entries saved before entry metadata existed carry only the image and debug info,
+// records saved before the history tree kept a linear list with an index into it,
+// products saved before the request inspector have no model calls,
+// entries saved before the prompt playground kept no location descriptions,
+// entries saved before prompt templates were versioned record no template versions,
+// entries saved before the fidelity check have no fidelity report,
+// and records saved before variants waiting to be picked were kept have none.
+type LegacyHistoryEntry = Omit<StoredHistoryEntry, keyof HistoryEntryMeta> & Partial<HistoryEntryMeta>;
+type LegacyProjectRecord = Omit<ProjectRecord, 'products' | 'placedProducts' | 'sceneHistory' | 'currentEntryId' | 'pendingVariants'> & {
+    products: (Omit<StoredProduct, 'calls'> & { calls?: ModelCallRecord[] })[];
+    sceneHistory: LegacyHistoryEntry[];
+    currentEntryId?: string | null;
+    historyIndex?: number;
+    placedProducts?: PlacementRecord[];
+    placedProduct?: PlacementRecord | null;
+    pendingVariants?: StoredPendingVariants | null;
+};
+
+const normalizeRecord = (record: LegacyProjectRecord): ProjectRecord => {
+    const { products, placedProduct, placedProducts, sceneHistory, currentEntryId, historyIndex, pendingVariants, ...rest } = record;
+    const entries: StoredHistoryEntry[] = [];
+    sceneHistory.forEach((entry, index) => {
+        entries.push({
+            ...entry,
+            // A linear history becomes a single branch: each entry is the child of the one before it.
+            id: entry.id ?? createHistoryEntryId(),
+            parentId: entry.parentId !== undefined ? entry.parentId : (entries[index - 1]?.id ?? null),
+            // Without metadata the best we can tell is the first entry was the upload and prompts mean a composite.
+            operation: entry.operation ?? (index === 0 ? 'upload' : entry.debugPrompt ? 'compose' : 'edit'),
+            createdAt: entry.createdAt ?? record.createdAt,
+            placements: entry.placements ?? [],
+            edits: entry.edits ?? null,
+            timings: entry.timings ?? [],
+            calls: entry.calls ?? [],
+            locationDescriptions: entry.locationDescriptions ?? [],
+            promptEdit: entry.promptEdit ?? null,
+            promptVersions: entry.promptVersions ?? {},
+            fidelity: entry.fidelity ?? null,
+        });
+    });
+    return {
+        ...rest,
+        products: products.map(product => ({ ...product, calls: product.calls ?? [] })),
+        placedProducts: placedProducts ?? (placedProduct ? [placedProduct] : []),
+        sceneHistory: entries,
+        currentEntryId: currentEntryId !== undefined ? currentEntryId : (entries[historyIndex ?? -1]?.id ?? null),
+        pendingVariants: pendingVariants ?? null,
+    };
+};
+
+export const loadProject = (id: string): Promise<ProjectRecord | null> =>
+    runRequest<LegacyProjectRecord | undefined>('readonly', store => store.get(id)).then(record => record ? normalizeRecord(record) : null);
+
+export const deleteProject = async (id: string): Promise<void> => {
+    await runRequest<undefined>('readwrite', store => store.delete(id));
+    if (getLastProjectId() === id) setLastProjectId(null);
+};
+
+/**
+ * Lists all stored projects, most recently updated first.
+ */
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+    const records = await runRequest<LegacyProjectRecord[]>('readonly', store => store.getAll());
+    return records
+        .map(normalizeRecord)
+        .map(record => ({
+            id: record.id,
+            name: record.name,
+            createdAt: record.createdAt,
+            updatedAt: record.updatedAt,
+            productCount: record.products.length,
+            historyLength: record.sceneHistory.length,
+            thumbnail: record.sceneHistory.find(entry => entry.id === record.currentEntryId)?.file ?? null,
+        }))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameProject = async (id: string, name: string): Promise<void> => {
+    const record = await loadProject(id);
+    if (!record) throw new Error("Project not found.");
+    await saveProject({ ...record, name, updatedAt: Date.now() });
+};
+
+export const duplicateProject = async (id: string): Promise<ProjectRecord> => {
+    const record = await loadProject(id);
+    if (!record) throw new Error("Project not found.");
+    const now = Date.now();
+    const copy: ProjectRecord = { ...record, id: createProjectId(), name: `${record.name} (copy)`, createdAt: now, updatedAt: now };
+    await saveProject(copy);
+    return copy;
+};
+
+export const getLastProjectId = (): string | null => {
+    try {
+        return localStorage.getItem(LAST_PROJECT_KEY);
+    } catch {
+        return null;
+    }
+};
+
+export const setLastProjectId = (id: string | null): void => {
+    try {
+        if (id) {
+            localStorage.setItem(LAST_PROJECT_KEY, id);
+        } else {
+            localStorage.removeItem(LAST_PROJECT_KEY);
+        }
+    } catch (err) {
+        console.warn('Could not remember the last opened project.', err);
+    }
+};
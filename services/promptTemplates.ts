@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import bundledTemplates from './promptTemplates.json';
+import { getSettings } from './settings';
+
+/**
+ * The prompts sent to the models, kept as versioned templates outside the service code.
+ * The bundled templates live in `promptTemplates.json`. A `prompt-templates.json` in the same format
+ * served next to the app (for example from `public/`) is loaded at startup and adds versions,
+ * replaces bundled ones with the same version id, or changes which version is active, without a rebuild.
+ * Templates use `{{name}}` variables; each kind accepts the variables listed in TEMPLATE_VARIABLES.
+ */
+export type PromptTemplateKind = 'segment' | 'segment-mask' | 'inpaint' | 'describe' | 'compose' | 'judge' | 'fidelity';
+
+export interface PromptTemplate {
+    kind: PromptTemplateKind;
+    version: string;
+    description?: string;
+    text: string;
+    // Smaller templates rendered into the main one, such as the per-product placement block of a composite
+    partials?: Record<string, string>;
+}
+
+// The template version behind each kind of prompt a result was made with
+export type PromptVersions = Partial<Record<PromptTemplateKind, string>>;
+
+interface PromptTemplateFile {
+    active?: PromptVersions;
+    templates: PromptTemplate[];
+}
+
+const EXTERNAL_TEMPLATES_URL = 'prompt-templates.json';
+const COMPARISONS_KEY = 'home-canvas:prompt-comparisons';
+// Only the most recent A/B picks are kept
+const MAX_COMPARISONS = 500;
+
+export const PROMPT_TEMPLATE_LABELS: Record<PromptTemplateKind, string> = {
+    'segment': 'Background removal',
+    'segment-mask': 'Brush background removal',
+    'inpaint': 'Object removal',
+    'describe': 'Placement description',
+    'compose': 'Composite',
+    'judge': 'Product presence judge',
+    'fidelity': 'Product fidelity judge',
+};
+
+// The variables each kind of template (and each of its partials) may use
+export const TEMPLATE_VARIABLES: Record<PromptTemplateKind, { text: string[]; partials?: Record<string, string[]>; }> = {
+    'segment': { text: [] },
+    'segment-mask': { text: [] },
+    'inpaint': { text: [] },
+    'describe': { text: [] },
+    'compose': {
+        text: [
+            'productCount', 'productImages', 'productPronoun', 'productHeading', 'productNoun', 'productEach',
+            'productImagesInstruction', 'placementInstructions',
+        ],
+        partials: {
+            placement: ['productNumber', 'productName', 'productLabel', 'locationDescription', 'scaleInstruction'],
+        },
+    },
+    'judge': { text: ['productName'] },
+    'fidelity': { text: ['productName'] },
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+let templates: PromptTemplate[] = [];
+let activeVersions: PromptVersions = {};
+
+// Helper to list the variables a template text uses that its kind doesn't provide
+const findUnknownVariables = (text: string, allowed: string[]): string[] =>
+    [...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]).filter(name => !allowed.includes(name));
+
+// Helper to check one template read from a file; invalid ones are skipped with a warning rather than breaking generation
+const validateTemplate = (template: Partial<PromptTemplate>, source: string): template is PromptTemplate => {
+    const label = `${source}: template ${template.kind}@${template.version}`;
+    if (!template.kind || !(template.kind in TEMPLATE_VARIABLES)) {
+        console.warn(`${label} has an unknown kind and was skipped.`);
+        return false;
+    }
+    if (typeof template.version !== 'string' || !template.version.trim() || typeof template.text !== 'string') {
+        console.warn(`${label} needs a version id and a text, and was skipped.`);
+        return false;
+    }
+    const variables = TEMPLATE_VARIABLES[template.kind];
+    const unknown = [
+        ...findUnknownVariables(template.text, variables.text),
+        ...Object.entries(variables.partials ?? {}).flatMap(([name, allowed]) => {
+            const partial = template.partials?.[name];
+            return typeof partial === 'string' ? findUnknownVariables(partial, allowed) : [`partial "${name}"`];
+        }),
+    ];
+    if (unknown.length > 0) {
+        console.warn(`${label} was skipped. Missing or unknown: ${unknown.join(', ')}.`);
+        return false;
+    }
+    return true;
+};
+
+// Helper to merge a template file into the registry. Later files win for the same kind and version.
+const addTemplateFile = (file: PromptTemplateFile, source: string) => {
+    for (const template of Array.isArray(file.templates) ? file.templates : []) {
+        if (!validateTemplate(template, source)) continue;
+        templates = [...templates.filter(t => t.kind !== template.kind || t.version !== template.version), template];
+    }
+    activeVersions = { ...activeVersions, ...file.active };
+};
+
+addTemplateFile(bundledTemplates as PromptTemplateFile, 'promptTemplates.json');
+
+/**
+ * Loads the optional external template file. A missing or unreadable file leaves the bundled templates in place.
+ */
+export const loadPromptTemplates = async (): Promise<void> => {
+    try {
+        const response = await fetch(EXTERNAL_TEMPLATES_URL, { cache: 'no-cache' });
+        if (!response.ok) return;
+        // Servers with an SPA fallback answer with the app's HTML, which fails to parse and is ignored
+        const file = await response.json() as PromptTemplateFile;
+        addTemplateFile(file, EXTERNAL_TEMPLATES_URL);
+        console.log(`Loaded prompt templates from ${EXTERNAL_TEMPLATES_URL}.`);
+    } catch {
+        console.log('No external prompt templates; using the bundled ones.');
+    }
+};
+
+/**
+ * Every version of a kind of template, in the order they were registered.
+ */
+export const getPromptTemplates = (kind: PromptTemplateKind): PromptTemplate[] =>
+    templates.filter(template => template.kind === kind);
+
+/**
+ * The default version of a kind: the one the template files mark active, or the last registered.
+ */
+export const getDefaultPromptVersion = (kind: PromptTemplateKind): string => {
+    const versions = getPromptTemplates(kind);
+    return versions.find(template => template.version === activeVersions[kind])?.version ?? versions[versions.length - 1].version;
+};
+
+/**
+ * Looks up a template version. Without a version, the one chosen in the settings is used, then the default.
+ * An unknown version falls back to the default with a warning.
+ */
+export const getPromptTemplate = (kind: PromptTemplateKind, version?: string): PromptTemplate => {
+    const versions = getPromptTemplates(kind);
+    const wanted = version ?? getSettings().promptVersions[kind] ?? getDefaultPromptVersion(kind);
+    const template = versions.find(t => t.version === wanted);
+    if (template) return template;
+    console.warn(`Prompt template ${kind}@${wanted} does not exist; using the default version.`);
+    return versions.find(t => t.version === getDefaultPromptVersion(kind))!;
+};
+
+/**
+ * Fills in a template's `{{name}}` variables.
+ */
+export const renderPromptTemplate = (text: string, variables: Record<string, string | number>): string =>
+    text.replace(VARIABLE_PATTERN, (match, name: string) => name in variables ? String(variables[name]) : match);
+
+/**
+ * The template versions behind a set of model calls, for storing with the result they produced.
+ */
+export const getPromptVersions = (calls: { promptTemplate?: { kind: PromptTemplateKind; version: string; } | null; }[]): PromptVersions =>
+    calls.reduce<PromptVersions>((versions, call) => call.promptTemplate ? { ...versions, [call.promptTemplate.kind]: call.promptTemplate.version } : versions, {});
+
+/**
+ * One pick from an A/B comparison: the version whose result was kept and the one that lost.
+ */
+export interface PromptComparison {
+    kind: PromptTemplateKind;
+    winner: string;
+    loser: string;
+    timestamp: number;
+}
+
+export const getPromptComparisons = (): PromptComparison[] => {
+    try {
+        const stored = localStorage.getItem(COMPARISONS_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const recordPromptComparison = (comparison: PromptComparison): void => {
+    try {
+        localStorage.setItem(COMPARISONS_KEY, JSON.stringify([...getPromptComparisons(), comparison].slice(-MAX_COMPARISONS)));
+    } catch (err) {
+        console.warn('Could not store the prompt comparison.', err);
+    }
+    console.log(`A/B pick: ${comparison.kind}@${comparison.winner} over ${comparison.kind}@${comparison.loser}.`);
+};
+
+export const clearPromptComparisons = (): void => {
+    try {
+        localStorage.removeItem(COMPARISONS_KEY);
+    } catch (err) {
+        console.warn('Could not clear the prompt comparisons.', err);
+    }
+};
+
+// How often each version was picked, out of the comparisons it took part in, by version id
+export type PromptComparisonSummary = Record<string, { wins: number; comparisons: number; }>;
+
+export const summarizePromptComparisons = (kind: PromptTemplateKind): PromptComparisonSummary => {
+    const summary: PromptComparisonSummary = {};
+    for (const { kind: comparedKind, winner, loser } of getPromptComparisons()) {
+        if (comparedKind !== kind) continue;
+        summary[winner] = { wins: (summary[winner]?.wins ?? 0) + 1, comparisons: (summary[winner]?.comparisons ?? 0) + 1 };
+        summary[loser] = { wins: summary[loser]?.wins ?? 0, comparisons: (summary[loser]?.comparisons ?? 0) + 1 };
+    }
+    return summary;
+};
@@ -0,0 +1,381 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { loadImage } from './imageLoading';
+
+/**
+ * A rectangle in the pixel space of the original scene.
+ */
+export interface SceneRegion {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// At scale 1.0 a product spans this fraction of the scene's width, matching the placement preview.
+const BASE_PRODUCT_FRACTION = 0.25;
+
+// How much room to leave around each product for its shadow and surroundings, relative to its size.
+const CONTEXT_FACTOR = 1.5;
+
+// Width of the soft seam when blending a region back into the scene, as a fraction of the region's shorter side.
+const FEATHER_FRACTION = 0.06;
+
+// Change detection runs on copies downscaled to this long edge; the resulting mask is scaled back up.
+const DIFF_DIMENSION = 512;
+
+// Only pixels this far from a placement (relative to the product's size) can count as changed.
+const SEARCH_FACTOR = 2;
+
+// A pixel counts as changed when any channel moves by more than this...
+const CHANGE_THRESHOLD = 40;
+
+// ...or when it gets darker by more than this, which catches the soft shadows cast by the product.
+const SHADOW_THRESHOLD = 14;
+
+// Growth and softening of the change mask, as fractions of the diff image's width.
+const MASK_GROW_FRACTION = 0.015;
+const MASK_FEATHER_FRACTION = 0.012;
+
+/**
+ * Picks the part of the scene to send to the model when compositing at full resolution.
+ * The region covers every drop position with room for the product and its shadow, is at least
+ * `minDimension` on each side (so the model's resolution isn't wasted) and stays inside the scene.
+ */
+export const computeCompositeRegion = (
+    placements: { xPercent: number; yPercent: number; scale: number; }[],
+    sceneWidth: number,
+    sceneHeight: number,
+    minDimension: number
+): SceneRegion => {
+    let left = Infinity, top = Infinity, right = -Infinity, bottom = -Infinity;
+    placements.forEach(({ xPercent, yPercent, scale }) => {
+        const x = (xPercent / 100) * sceneWidth;
+        const y = (yPercent / 100) * sceneHeight;
+        const reach = (sceneWidth * BASE_PRODUCT_FRACTION * scale * CONTEXT_FACTOR) / 2;
+        left = Math.min(left, x - reach);
+        top = Math.min(top, y - reach);
+        right = Math.max(right, x + reach);
+        bottom = Math.max(bottom, y + reach);
+    });
+
+    // Grow each axis around its centre to the minimum size, then shift it back inside the scene.
+    const fitAxis = (start: number, end: number, limit: number): [number, number] => {
+        const size = Math.min(limit, Math.max(end - start, minDimension));
+        const centre = (start + end) / 2;
+        const clampedStart = Math.min(Math.max(0, centre - size / 2), limit - size);
+        return [Math.round(clampedStart), Math.round(size)];
+    };
+    const [x, width] = fitAxis(left, right, sceneWidth);
+    const [y, height] = fitAxis(top, bottom, sceneHeight);
+    return { x, y, width, height };
+};
+
+/**
+ * Translates a position given in percentages of the scene into percentages of a region.
+ */
+export const toRegionPosition = (
+    position: { xPercent: number; yPercent: number; },
+    sceneWidth: number,
+    sceneHeight: number,
+    region: SceneRegion
+): { xPercent: number; yPercent: number; } => ({
+    xPercent: (((position.xPercent / 100) * sceneWidth - region.x) / region.width) * 100,
+    yPercent: (((position.yPercent / 100) * sceneHeight - region.y) / region.height) * 100,
+});
+
+/**
+ * Cuts a region out of the scene at its original resolution.
+ */
+export const cropImageRegion = async (file: File, region: SceneRegion): Promise<File> => {
+    const img = await loadImage(file);
+    return new Promise((resolve, reject) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = region.width;
+        canvas.height = region.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            return reject(new Error('Could not get canvas context for region cropping.'));
+        }
+        ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+        canvas.toBlob((blob) => {
+            if (blob) {
+                resolve(new File([blob], file.name, { type: 'image/jpeg', lastModified: Date.now() }));
+            } else {
+                reject(new Error('Canvas to Blob conversion failed during region cropping.'));
+            }
+        }, 'image/jpeg', 0.95);
+    });
+};
+
+// Smooth 0..1 ramp used for feathered edges
+const smoothstep = (t: number): number => {
+    const clamped = Math.min(1, Math.max(0, t));
+    return clamped * clamped * (3 - 2 * clamped);
+};
+
+/**
+ * Scales a generated region back up to its original size and blends it into the full-resolution scene.
+ * Edges inside the scene fade out over a feathered seam; edges on the scene border are kept hard.
+ * @returns A JPEG data URL with the scene's original pixel dimensions.
+ */
+export const blendRegionIntoScene = async (
+    sceneFile: File,
+    regionImageUrl: string,
+    region: SceneRegion
+): Promise<string> => {
+    const [sceneImg, regionImg] = await Promise.all([loadImage(sceneFile), loadImage(regionImageUrl)]);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = sceneImg.naturalWidth;
+    canvas.height = sceneImg.naturalHeight;
+    const ctx = canvas.getContext('2d');
+
+    const regionCanvas = document.createElement('canvas');
+    regionCanvas.width = region.width;
+    regionCanvas.height = region.height;
+    const regionCtx = regionCanvas.getContext('2d');
+
+    if (!ctx || !regionCtx) {
+        throw new Error('Could not get canvas context for region blending.');
+    }
+
+    ctx.drawImage(sceneImg, 0, 0);
+    regionCtx.imageSmoothingQuality = 'high';
+    regionCtx.drawImage(regionImg, 0, 0, region.width, region.height);
+
+    const feather = Math.max(1, Math.min(region.width, region.height) * FEATHER_FRACTION);
+    const featherLeft = region.x > 0;
+    const featherTop = region.y > 0;
+    const featherRight = region.x + region.width < canvas.width;
+    const featherBottom = region.y + region.height < canvas.height;
+
+    const imageData = regionCtx.getImageData(0, 0, region.width, region.height);
+    const pixels = imageData.data;
+    for (let y = 0; y < region.height; y++) {
+        const alphaY = Math.min(
+            featherTop ? smoothstep(y / feather) : 1,
+            featherBottom ? smoothstep((region.height - 1 - y) / feather) : 1
+        );
+        for (let x = 0; x < region.width; x++) {
+            const alphaX = Math.min(
+                featherLeft ? smoothstep(x / feather) : 1,
+                featherRight ? smoothstep((region.width - 1 - x) / feather) : 1
+            );
+            pixels[(y * region.width + x) * 4 + 3] = Math.round(255 * Math.min(alphaX, alphaY));
+        }
+    }
+    regionCtx.putImageData(imageData, 0, 0);
+
+    ctx.drawImage(regionCanvas, region.x, region.y);
+    return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+// Draws an image at the given size and returns its pixels
+const readPixels = (img: HTMLImageElement, width: number, height: number): Uint8ClampedArray => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context for change detection.');
+    }
+    ctx.drawImage(img, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height).data;
+};
+
+// Whether the pixel at byte offset `i` visibly changed between two RGBA buffers, counting soft shadows as changes
+const isChangedPixel = (before: Uint8ClampedArray, after: Uint8ClampedArray, i: number): boolean => {
+    const channelChange = Math.max(
+        Math.abs(after[i] - before[i]),
+        Math.abs(after[i + 1] - before[i + 1]),
+        Math.abs(after[i + 2] - before[i + 2])
+    );
+    const darkening = (before[i] + before[i + 1] + before[i + 2] - after[i] - after[i + 1] - after[i + 2]) / 3;
+    return channelChange > CHANGE_THRESHOLD || darkening > SHADOW_THRESHOLD;
+};
+
+// Separable box filter over a single-channel mask, taking the max (dilation) or the mean (blur) of each window.
+const boxFilter = (mask: Float32Array, width: number, height: number, radius: number, mode: 'max' | 'mean'): Float32Array => {
+    const pass = (source: Float32Array, horizontal: boolean): Float32Array => {
+        const output = new Float32Array(source.length);
+        const length = horizontal ? width : height;
+        const lines = horizontal ? height : width;
+        for (let line = 0; line < lines; line++) {
+            for (let i = 0; i < length; i++) {
+                let acc = 0, count = 0;
+                for (let k = Math.max(0, i - radius); k <= Math.min(length - 1, i + radius); k++) {
+                    const value = source[horizontal ? line * width + k : k * width + line];
+                    acc = mode === 'max' ? Math.max(acc, value) : acc + value;
+                    count++;
+                }
+                output[horizontal ? line * width + i : i * width + line] = mode === 'max' ? acc : acc / count;
+            }
+        }
+        return output;
+    };
+    return pass(pass(mask, true), false);
+};
+
+/**
+ * The squares around the placements where a generation may legitimately change the scene (the product and its shadow),
+ * in the pixel space of an image `width` by `height`. Everything outside them should match the previous scene.
+ */
+export const getPlacementChangeAreas = (
+    placements: { xPercent: number; yPercent: number; scale: number; }[],
+    width: number,
+    height: number
+): { x: number; y: number; radius: number; }[] =>
+    placements.map(({ xPercent, yPercent, scale }) => ({
+        x: (xPercent / 100) * width,
+        y: (yPercent / 100) * height,
+        radius: (width * BASE_PRODUCT_FRACTION * scale * SEARCH_FACTOR) / 2,
+    }));
+
+/**
+ * Keeps the previous scene's pixels everywhere the generation didn't meaningfully change them.
+ * Compares the two images around each placement, builds a soft mask of what changed (the product and
+ * its shadow) and pastes only that part of the generated image onto the previous scene.
+ * @param previousFile The scene the generation started from.
+ * @param generatedImageUrl The generated scene, at any resolution with the same aspect ratio.
+ * @param placements Drop positions (percent of the scene) and scales of the placed products.
+ * @returns A JPEG data URL with the previous scene's pixel dimensions: the previous scene itself if nothing changed around the placements.
+ */
+export const pasteChangedRegion = async (
+    previousFile: File,
+    generatedImageUrl: string,
+    placements: { xPercent: number; yPercent: number; scale: number; }[]
+): Promise<string> => {
+    const [previousImg, generatedImg] = await Promise.all([loadImage(previousFile), loadImage(generatedImageUrl)]);
+    const width = previousImg.naturalWidth;
+    const height = previousImg.naturalHeight;
+
+    // STEP 1: Find changed pixels near the placements on small copies of both images
+    const diffScale = Math.min(1, DIFF_DIMENSION / Math.max(width, height));
+    const diffWidth = Math.max(1, Math.round(width * diffScale));
+    const diffHeight = Math.max(1, Math.round(height * diffScale));
+    const before = readPixels(previousImg, diffWidth, diffHeight);
+    const after = readPixels(generatedImg, diffWidth, diffHeight);
+
+    const searchAreas = getPlacementChangeAreas(placements, diffWidth, diffHeight);
+
+    let mask = new Float32Array(diffWidth * diffHeight);
+    let changedCount = 0;
+    for (let y = 0; y < diffHeight; y++) {
+        for (let x = 0; x < diffWidth; x++) {
+            if (!searchAreas.some(area => Math.abs(x - area.x) <= area.radius && Math.abs(y - area.y) <= area.radius)) continue;
+            if (isChangedPixel(before, after, (y * diffWidth + x) * 4)) {
+                mask[y * diffWidth + x] = 1;
+                changedCount++;
+            }
+        }
+    }
+
+    if (changedCount === 0) {
+        // The generated image may not have the scene's size, so the previous scene is returned instead
+        console.warn('No changes detected around the placements; keeping the previous scene.');
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Could not get canvas context for pasting the changed region.');
+        }
+        ctx.drawImage(previousImg, 0, 0);
+        return canvas.toDataURL('image/jpeg', 0.95);
+    }
+
+    // STEP 2: Drop isolated noise, close gaps, then soften the edges
+    mask = boxFilter(mask, diffWidth, diffHeight, 1, 'mean').map(value => value > 0.5 ? 1 : 0);
+    mask = boxFilter(mask, diffWidth, diffHeight, Math.ceil(diffWidth * MASK_GROW_FRACTION), 'max');
+    mask = boxFilter(mask, diffWidth, diffHeight, Math.ceil(diffWidth * MASK_FEATHER_FRACTION), 'mean');
+
+    const maskCanvas = document.createElement('canvas');
+    maskCanvas.width = diffWidth;
+    maskCanvas.height = diffHeight;
+    const maskCtx = maskCanvas.getContext('2d');
+    if (!maskCtx) {
+        throw new Error('Could not get canvas context for the change mask.');
+    }
+    const maskData = maskCtx.createImageData(diffWidth, diffHeight);
+    for (let i = 0; i < mask.length; i++) {
+        maskData.data[i * 4] = 255;
+        maskData.data[i * 4 + 1] = 255;
+        maskData.data[i * 4 + 2] = 255;
+        maskData.data[i * 4 + 3] = Math.round(mask[i] * 255);
+    }
+    maskCtx.putImageData(maskData, 0, 0);
+
+    // STEP 3: Cut the changed area out of the generated image and paste it onto the previous scene
+    const patchCanvas = document.createElement('canvas');
+    patchCanvas.width = width;
+    patchCanvas.height = height;
+    const patchCtx = patchCanvas.getContext('2d');
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+
+    if (!ctx || !patchCtx) {
+        throw new Error('Could not get canvas context for pasting the changed region.');
+    }
+
+    patchCtx.imageSmoothingQuality = 'high';
+    patchCtx.drawImage(generatedImg, 0, 0, width, height);
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.drawImage(maskCanvas, 0, 0, width, height);
+
+    ctx.drawImage(previousImg, 0, 0);
+    ctx.drawImage(patchCanvas, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.95);
+};
+
+/**
+ * How much a generation changed the scene where each product should be, for checking that the products were actually added.
+ * Compares the two images inside each product's footprint and, for reference, everywhere away from the placements,
+ * so a model that re-rendered the whole scene doesn't pass just because everything changed.
+ * @param previousFile The scene the generation started from.
+ * @param generatedImageUrl The generated scene, at any resolution with the same aspect ratio.
+ * @param placements Drop positions (percent of the scene) and scales of the placed products.
+ * @returns The fraction (0-1) of changed pixels in each product's footprint, in the order given, and away from all placements.
+ */
+export const measurePlacementChanges = async (
+    previousFile: File,
+    generatedImageUrl: string,
+    placements: { xPercent: number; yPercent: number; scale: number; }[]
+): Promise<{ placements: number[]; background: number; }> => {
+    const [previousImg, generatedImg] = await Promise.all([loadImage(previousFile), loadImage(generatedImageUrl)]);
+    const diffScale = Math.min(1, DIFF_DIMENSION / Math.max(previousImg.naturalWidth, previousImg.naturalHeight));
+    const diffWidth = Math.max(1, Math.round(previousImg.naturalWidth * diffScale));
+    const diffHeight = Math.max(1, Math.round(previousImg.naturalHeight * diffScale));
+    const before = readPixels(previousImg, diffWidth, diffHeight);
+    const after = readPixels(generatedImg, diffWidth, diffHeight);
+
+    // The footprint is the product's own square, without the extra room the search areas leave for shadows
+    const footprints = getPlacementChangeAreas(placements, diffWidth, diffHeight).map(area => ({ ...area, radius: area.radius / SEARCH_FACTOR }));
+    const searchAreas = getPlacementChangeAreas(placements, diffWidth, diffHeight);
+    const footprintCounts = footprints.map(() => ({ changed: 0, total: 0 }));
+    let backgroundChanged = 0, backgroundTotal = 0;
+    for (let y = 0; y < diffHeight; y++) {
+        for (let x = 0; x < diffWidth; x++) {
+            const changed = isChangedPixel(before, after, (y * diffWidth + x) * 4);
+            footprints.forEach((area, index) => {
+                if (Math.abs(x - area.x) > area.radius || Math.abs(y - area.y) > area.radius) return;
+                footprintCounts[index].total++;
+                if (changed) footprintCounts[index].changed++;
+            });
+            if (!searchAreas.some(area => Math.abs(x - area.x) <= area.radius && Math.abs(y - area.y) <= area.radius)) {
+                backgroundTotal++;
+                if (changed) backgroundChanged++;
+            }
+        }
+    }
+    return {
+        placements: footprintCounts.map(({ changed, total }) => total > 0 ? changed / total : 0),
+        background: backgroundTotal > 0 ? backgroundChanged / backgroundTotal : 0,
+    };
+};
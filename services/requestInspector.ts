@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ModelCallPart, ModelCallRecord } from '../components/types';
+import { ProviderOperation, ProviderResponse } from './imageProvider';
+import { PromptTemplate } from './promptTemplates';
+import { TextOnlyResponseError } from './generationErrors';
+
+/**
+ * Every model call of the session, newest last, for the request inspector. Records also travel
+ * with the history entries and products they produced, so only the session log is capped.
+ */
+const MAX_LOGGED_CALLS = 100;
+// Long edge of the thumbnails kept for request and response images
+const THUMBNAIL_SIZE = 160;
+
+let sessionCalls: ModelCallRecord[] = [];
+const listeners = new Set<() => void>();
+
+/**
+ * What the service knows about a call before it is made.
+ */
+export interface ModelCallDetails {
+    operation: ProviderOperation;
+    provider: string;
+    model: string;
+    prompt: string;
+    images: Blob[];
+    config: Record<string, unknown>;
+    variant?: number;
+    template?: Pick<PromptTemplate, 'kind' | 'version'>;
+}
+
+export const getModelCalls = (): ModelCallRecord[] => sessionCalls;
+
+export const clearModelCalls = (): void => {
+    sessionCalls = [];
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Calls the listener whenever a call is logged or the log is cleared. Returns an unsubscribe function.
+ */
+export const subscribeToModelCalls = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const createCallId = (): string => `call-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Helper to shrink an image (a Blob or a data URL) to a PNG thumbnail data URL, keeping transparency
+const createThumbnail = (source: Blob | string): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+        const img = new Image();
+        img.onload = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            const ratio = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.naturalWidth * ratio));
+            canvas.height = Math.max(1, Math.round(img.naturalHeight * ratio));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) return reject(new Error('Could not get canvas context.'));
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/png'));
+        };
+        img.onerror = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+            reject(new Error('Could not load image for thumbnail.'));
+        };
+        img.src = url;
+    });
+};
+
+// Helper to turn an image into a part; an unreadable image is logged as a note rather than failing the call
+const toImagePart = async (source: Blob | string): Promise<ModelCallPart> => {
+    try {
+        return { kind: 'image', thumbnailUrl: await createThumbnail(source) };
+    } catch {
+        return { kind: 'text', text: '[image could not be previewed]' };
+    }
+};
+
+const toResponseParts = (parts: ProviderResponse['parts']): Promise<ModelCallPart[]> =>
+    Promise.all(parts.map(part => part.imageDataUrl ? toImagePart(part.imageDataUrl) : Promise.resolve<ModelCallPart>({ kind: 'text', text: part.text ?? '' })));
+
+// Helper to build the record and add it to the session log
+const logCall = async (
+    details: ModelCallDetails,
+    outcome: { startedAt: number; durationMs: number; cached: boolean; response?: ProviderResponse; result?: string; error?: unknown; }
+): Promise<ModelCallRecord> => {
+    const { operation, provider, model, prompt, images, config, variant, template } = details;
+    const { response, result, error } = outcome;
+    let responseParts: ModelCallPart[] = response ? await toResponseParts(response.parts) : [];
+    // Providers that don't report raw responses (or cache hits) still show what came back
+    if (!response && result !== undefined) {
+        responseParts = operation === 'describe' ? [{ kind: 'text', text: result }] : [await toImagePart(result)];
+    }
+    if (!response && error instanceof TextOnlyResponseError && error.responseText) {
+        responseParts = [{ kind: 'text', text: error.responseText }];
+    }
+
+    const record: ModelCallRecord = {
+        id: createCallId(),
+        operation,
+        provider,
+        model,
+        config: { ...config, ...response?.config },
+        prompt,
+        inputs: await Promise.all(images.map(toImagePart)),
+        response: responseParts,
+        finishReason: response?.finishReason ?? null,
+        cached: outcome.cached,
+        variant,
+        promptTemplate: template ? { kind: template.kind, version: template.version } : undefined,
+        startedAt: outcome.startedAt,
+        durationMs: outcome.durationMs,
+        error: error ? (error instanceof Error ? `${error.name}: ${error.message}` : String(error)) : null,
+    };
+    sessionCalls = [...sessionCalls, record].slice(-MAX_LOGGED_CALLS);
+    listeners.forEach(listener => listener());
+    return record;
+};
+
+// Helper to log without ever failing the call being logged
+const tryLogCall = async (...args: Parameters<typeof logCall>): Promise<ModelCallRecord | null> => {
+    try {
+        return await logCall(...args);
+    } catch (err) {
+        console.warn('Could not log the model call.', err);
+        return null;
+    }
+};
+
+/**
+ * Runs one provider call and logs it, whether it succeeds or fails. Cancelled calls are not logged.
+ * @param details The request as the service sees it.
+ * @param run Makes the call; it must pass `onResponse` on to the provider.
+ * @param onRecord Receives the record, failed attempts included, before the call settles.
+ * @param signal The call's signal, to tell cancellation from failure.
+ * @returns The call's result.
+ */
+export const inspectModelCall = async (
+    details: ModelCallDetails,
+    run: (onResponse: (response: ProviderResponse) => void) => Promise<string>,
+    onRecord?: (record: ModelCallRecord) => void,
+    signal?: AbortSignal
+): Promise<string> => {
+    const startedAt = Date.now();
+    let response: ProviderResponse | undefined;
+    let result: string;
+    try {
+        result = await run(reported => { response = reported; });
+    } catch (error) {
+        if (!signal?.aborted) {
+            const record = await tryLogCall(details, { startedAt, durationMs: Date.now() - startedAt, cached: false, response, error });
+            if (record) onRecord?.(record);
+        }
+        throw error;
+    }
+    const record = await tryLogCall(details, { startedAt, durationMs: Date.now() - startedAt, cached: false, response, result });
+    if (record) onRecord?.(record);
+    return result;
+};
+
+/**
+ * Logs a request that was answered from the response cache without calling the model.
+ */
+export const logCachedCall = (details: ModelCallDetails, result: string): Promise<ModelCallRecord | null> =>
+    tryLogCall(details, { startedAt: Date.now(), durationMs: 0, cached: true, result });
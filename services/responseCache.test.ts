@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createHash } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { computeCacheKey } from './responseCache';
+
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+describe('computeCacheKey', () => {
+    it('hashes the length-prefixed parts with SHA-256', async () => {
+        expect(await computeCacheKey([])).toBe(sha256(''));
+        expect(await computeCacheKey(['compose', 42])).toBe(sha256('s7:composes2:42'));
+        expect(await computeCacheKey([new Blob(['png bytes'])])).toBe(sha256('b9:png bytes'));
+    });
+
+    it('gives identical requests the same key', async () => {
+        const parts = () => ['describe', 'gemini-2.5-flash', 'Where is the lamp?', new Blob([new Uint8Array([1, 2, 3])])];
+        expect(await computeCacheKey(parts())).toBe(await computeCacheKey(parts()));
+    });
+
+    it('changes when any part changes', async () => {
+        const image = new Blob([new Uint8Array([1, 2, 3])]);
+        const key = await computeCacheKey(['compose', 'model-a', 'prompt', image]);
+        const variations = await Promise.all([
+            computeCacheKey(['inpaint', 'model-a', 'prompt', image]),
+            computeCacheKey(['compose', 'model-b', 'prompt', image]),
+            computeCacheKey(['compose', 'model-a', 'prompt.', image]),
+            computeCacheKey(['compose', 'model-a', 'prompt', new Blob([new Uint8Array([1, 2, 4])])]),
+            computeCacheKey(['compose', 'model-a', 'prompt']),
+        ]);
+        variations.forEach(variation => expect(variation).not.toBe(key));
+    });
+
+    it('keeps different splits of the same text apart', async () => {
+        expect(await computeCacheKey(['ab', 'c'])).not.toBe(await computeCacheKey(['a', 'bc']));
+        expect(await computeCacheKey(['abc'])).not.toBe(await computeCacheKey(['abc', '']));
+    });
+
+    it('keeps image bytes apart from the same text', async () => {
+        expect(await computeCacheKey([new Blob(['prompt'])])).not.toBe(await computeCacheKey(['prompt']));
+    });
+
+    it('hashes missing parts like empty text', async () => {
+        const empty = await computeCacheKey(['compose', '']);
+        expect(await computeCacheKey(['compose', null])).toBe(empty);
+        expect(await computeCacheKey(['compose', undefined])).toBe(empty);
+    });
+});
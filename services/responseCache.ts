@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A content-addressed cache of model responses, kept in its own IndexedDB database.
+ * Keys are SHA-256 hashes of everything that determines a response (operation, model id,
+ * prompt and the exact image bytes), so identical requests are answered without a model call.
+ * Response bodies and their bookkeeping live in separate stores so eviction never has to load the bodies.
+ */
+const DB_NAME = 'home-canvas-cache';
+const DB_VERSION = 1;
+const RESPONSES_STORE = 'responses';
+const ENTRIES_STORE = 'entries';
+
+// Total size of cached responses, and the largest single response worth caching (data URL characters)
+const MAX_CACHE_SIZE = 150 * 1024 * 1024;
+const MAX_ENTRY_SIZE = 20 * 1024 * 1024;
+const MAX_ENTRIES = 500;
+
+interface CacheEntry {
+    key: string;
+    size: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export type CacheKeyPart = string | number | Blob | null | undefined;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+                    db.createObjectStore(RESPONSES_STORE);
+                }
+                if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+                    db.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(new Error(`Could not open the response cache: ${request.error?.message}`));
+            };
+        });
+    }
+    return dbPromise;
+};
+
+// Helper to run work against both stores in one transaction and resolve once it has committed
+const runTransaction = async <T>(
+    mode: IDBTransactionMode,
+    work: (responses: IDBObjectStore, entries: IDBObjectStore) => () => T
+): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction([RESPONSES_STORE, ENTRIES_STORE], mode);
+        const getResult = work(transaction.objectStore(RESPONSES_STORE), transaction.objectStore(ENTRIES_STORE));
+        transaction.oncomplete = () => resolve(getResult());
+        transaction.onerror = () => reject(new Error(`Response cache error: ${transaction.error?.message}`));
+        transaction.onabort = () => reject(new Error(`Response cache transaction aborted: ${transaction.error?.message}`));
+    });
+};
+
+/**
+ * Hashes the parts of a request into a cache key. Each part is length-prefixed so
+ * different splits of the same bytes never collide.
+ */
+export const computeCacheKey = async (parts: CacheKeyPart[]): Promise<string> => {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    for (const part of parts) {
+        const bytes = part instanceof Blob
+            ? new Uint8Array(await part.arrayBuffer())
+            : encoder.encode(part === null || part === undefined ? '' : String(part));
+        chunks.push(encoder.encode(`${part instanceof Blob ? 'b' : 's'}${bytes.length}:`), bytes);
+    }
+    const buffer = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        buffer.set(chunk, offset);
+        offset += chunk.length;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const readResponse = (key: string): Promise<string | null> =>
+    runTransaction('readwrite', (responses, entries) => {
+        const responseRequest = responses.get(key);
+        const entryRequest = entries.get(key);
+        // Touch the entry so least-recently-used eviction keeps it
+        entryRequest.onsuccess = () => {
+            const entry = entryRequest.result as CacheEntry | undefined;
+            if (entry) entries.put({ ...entry, lastUsedAt: Date.now() });
+        };
+        return () => (responseRequest.result as string | undefined) ?? null;
+    });
+
+// Removes least recently used entries until the cache is back within its limits
+const evict = (responses: IDBObjectStore, entries: IDBObjectStore) => {
+    const request = entries.getAll();
+    request.onsuccess = () => {
+        const all = (request.result as CacheEntry[]).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+        let totalSize = all.reduce((total, entry) => total + entry.size, 0);
+        let count = all.length;
+        for (const entry of all) {
+            if (totalSize <= MAX_CACHE_SIZE && count <= MAX_ENTRIES) break;
+            responses.delete(entry.key);
+            entries.delete(entry.key);
+            totalSize -= entry.size;
+            count--;
+        }
+    };
+};
+
+const writeResponse = (key: string, value: string): Promise<void> =>
+    runTransaction('readwrite', (responses, entries) => {
+        const now = Date.now();
+        responses.put(value, key);
+        entries.put({ key, size: value.length, createdAt: now, lastUsedAt: now } satisfies CacheEntry);
+        evict(responses, entries);
+        return () => undefined;
+    });
+
+/**
+ * Empties the response cache.
+ */
+export const clearResponseCache = (): Promise<void> =>
+    runTransaction('readwrite', (responses, entries) => {
+        responses.clear();
+        entries.clear();
+        return () => undefined;
+    });
+
+/**
+ * Removes a response from the cache, e.g. one that was rejected after it was cached, so the next identical
+ * request goes to the model again. Cache failures are logged.
+ * @param label Names the operation in the log.
+ * @param keyParts Everything that determines the response, as given to withResponseCache.
+ */
+export const forgetCachedResponse = async (label: string, keyParts: CacheKeyPart[]): Promise<void> => {
+    try {
+        const key = await computeCacheKey(keyParts);
+        await runTransaction('readwrite', (responses, entries) => {
+            responses.delete(key);
+            entries.delete(key);
+            return () => undefined;
+        });
+    } catch (err) {
+        console.warn(`${label}: could not remove the cached response.`, err);
+    }
+};
+
+/**
+ * Answers a request from the cache when an identical one has been made before, and otherwise runs it
+ * and caches the result. With `forceRegenerate` the cache is skipped and the fresh result replaces
+ * the cached one. Cache failures are logged and never fail the request itself.
+ * @param label Names the operation in the log.
+ * @param keyParts Everything that determines the response.
+ * @param task Produces the response when it isn't cached.
+ * @param forceRegenerate Skips the lookup.
+ * @returns The cached or freshly produced response.
+ */
+export const withResponseCache = async (
+    label: string,
+    keyParts: CacheKeyPart[],
+    task: () => Promise<string>,
+    forceRegenerate = false
+): Promise<string> => {
+    let key: string | null = null;
+    try {
+        key = await computeCacheKey(keyParts);
+        const cached = forceRegenerate ? null : await readResponse(key);
+        if (cached !== null) {
+            console.log(`${label}: using cached response.`);
+            return cached;
+        }
+    } catch (err) {
+        console.warn(`${label}: response cache unavailable.`, err);
+    }
+
+    const result = await task();
+    if (key && result.length <= MAX_ENTRY_SIZE) {
+        writeResponse(key, result).catch(err => console.warn(`${label}: could not cache the response.`, err));
+    }
+    return result;
+};
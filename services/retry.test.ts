@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { InvalidRequestError, NetworkError, QuotaExceededError, SafetyBlockError } from './generationErrors';
+import { setRetryOptions, withRetry } from './retry';
+
+// Helper to build a task that fails with the given errors, in order, and then succeeds
+const failingTask = (...errors: Error[]) => {
+    const remaining = [...errors];
+    return vi.fn(async () => {
+        const error = remaining.shift();
+        if (error) throw error;
+        return 'done';
+    });
+};
+
+describe('withRetry', () => {
+    beforeEach(() => {
+        setRetryOptions({ initialDelayMs: 100, maxDelayMs: 1000, jitter: 0 });
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+        setRetryOptions(null);
+    });
+
+    it('returns the first successful result without retrying', async () => {
+        const task = failingTask();
+        await expect(withRetry('Test', task)).resolves.toBe('done');
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries retryable failures with exponential backoff', async () => {
+        const task = failingTask(new NetworkError('reset'), new NetworkError('reset'));
+        const result = withRetry('Test', task);
+
+        await vi.advanceTimersByTimeAsync(99);
+        expect(task).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(task).toHaveBeenCalledTimes(2);
+        // The second wait is twice the first
+        await vi.advanceTimersByTimeAsync(199);
+        expect(task).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe('done');
+        expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it('rethrows the last failure after the last attempt', async () => {
+        const last = new NetworkError('third');
+        const task = failingTask(new NetworkError('first'), new NetworkError('second'), last);
+        const result = withRetry('Test', task);
+        const rejection = expect(result).rejects.toBe(last);
+
+        await vi.runAllTimersAsync();
+        await rejection;
+        expect(task).toHaveBeenCalledTimes(3);
+    });
+
+    it.each([
+        ['a safety block', new SafetyBlockError('blocked')],
+        ['an invalid request', new InvalidRequestError('bad request', { status: 400 })],
+        ['an error that is not a GenerationError', new TypeError('bug')],
+    ])('does not retry %s', async (_name, error) => {
+        const task = failingTask(error);
+        await expect(withRetry('Test', task)).rejects.toBe(error);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry once the daily quota is used up', async () => {
+        const error = new QuotaExceededError('Quota exceeded for metric GenerateRequestsPerDayPerProjectPerModel-FreeTier');
+        const task = failingTask(error);
+
+        await expect(withRetry('Test', task)).rejects.toBe(error);
+        expect(error.daily).toBe(true);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a per-minute rate limit after the delay the backend asks for', async () => {
+        const task = failingTask(new QuotaExceededError('Quota exceeded for metric GenerateRequestsPerMinutePerProjectPerModel', { retryAfterMs: 500 }));
+        const result = withRetry('Test', task);
+
+        await vi.advanceTimersByTimeAsync(499);
+        expect(task).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(result).resolves.toBe('done');
+        expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('caps the delay the backend asks for at maxDelayMs', async () => {
+        const task = failingTask(new QuotaExceededError('Rate limited', { retryAfterMs: 60000 }));
+        const result = withRetry('Test', task);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        await expect(result).resolves.toBe('done');
+        expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops waiting as soon as the signal is aborted', async () => {
+        const controller = new AbortController();
+        const task = failingTask(new NetworkError('reset'));
+        const result = withRetry('Test', task, controller.signal);
+        const rejection = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+
+        await vi.advanceTimersByTimeAsync(50);
+        controller.abort();
+        await rejection;
+        await vi.runAllTimersAsync();
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('makes a single attempt when retries are disabled', async () => {
+        setRetryOptions({ maxAttempts: 1 });
+        const error = new NetworkError('reset');
+        const task = failingTask(error);
+
+        await expect(withRetry('Test', task)).rejects.toBe(error);
+        expect(task).toHaveBeenCalledTimes(1);
+    });
+});
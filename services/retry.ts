@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationError, QuotaExceededError } from './generationErrors';
+
+/**
+ * How transient failures are retried. The delay before attempt n+1 is
+ * `initialDelayMs * backoffFactor^(n-1)`, capped at `maxDelayMs` and randomised by up to
+ * `jitter` of itself so parallel variants don't retry in lockstep.
+ */
+export interface RetryOptions {
+    maxAttempts: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    backoffFactor: number;
+    jitter: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    maxAttempts: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 15000,
+    backoffFactor: 2,
+    jitter: 0.2,
+};
+
+let retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS;
+
+/**
+ * Changes how every service call retries. Pass null to restore the defaults; `maxAttempts: 1` disables retries.
+ */
+export const setRetryOptions = (options: Partial<RetryOptions> | null): void => {
+    retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options };
+};
+
+export const getRetryOptions = (): RetryOptions => retryOptions;
+
+// Waits between attempts, rejecting early if the request is cancelled.
+// The abort listener is removed once the wait is over, so a long-lived signal doesn't collect one per retry.
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const getBackoffDelay = (attempt: number, error: GenerationError, options: RetryOptions): number => {
+    // Honour the backend's own estimate when it gives one
+    if (error instanceof QuotaExceededError && error.retryAfterMs !== undefined) {
+        return Math.min(error.retryAfterMs, options.maxDelayMs);
+    }
+    const base = Math.min(options.initialDelayMs * options.backoffFactor ** (attempt - 1), options.maxDelayMs);
+    return base * (1 + (Math.random() * 2 - 1) * options.jitter);
+};
+
+/**
+ * Runs a task, retrying it with exponential backoff while it fails with a retryable GenerationError.
+ * Any other failure, or cancellation through `signal`, is rethrown immediately.
+ * @param label Names the operation in the log.
+ * @param task The operation to run; called once per attempt.
+ * @param signal Cancels the task and any pending wait.
+ * @returns The task's result from the first successful attempt.
+ */
+export const withRetry = async <T>(label: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    const options = retryOptions;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (signal?.aborted || !(error instanceof GenerationError) || !error.retryable || attempt >= options.maxAttempts) {
+                throw error;
+            }
+            const delayMs = getBackoffDelay(attempt, error, options);
+            console.warn(`${label} failed (${error.kind}, attempt ${attempt}/${options.maxAttempts}). Retrying in ${Math.round(delayMs)} ms...`, error);
+            await sleep(delayMs, signal);
+        }
+    }
+};
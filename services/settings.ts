@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ProviderOperation } from './imageProvider';
+import type { PromptVersions } from './promptTemplates';
+
+/**
+ * User settings for the model backend, kept in localStorage so they survive reloads.
+ * The API key is stored in plain text in this browser only and is sent nowhere but the Gemini API.
+ */
+const SETTINGS_KEY = 'home-canvas:settings';
+
+export interface AppSettings {
+    // A user-supplied Gemini API key. Empty uses the build's key, or the proxy server in proxy mode.
+    apiKey: string;
+    // The model used for each operation
+    models: Record<ProviderOperation, string>;
+    // Sampling temperature (0-2); null leaves the model's default
+    temperature: number | null;
+    // Candidates requested per call; the first usable one is kept
+    candidateCount: number;
+    // Side of the padded square images are resized to before they are sent to the model
+    workingResolution: number;
+    // The prompt template version used for each kind of prompt; missing kinds use the default version
+    promptVersions: PromptVersions;
+}
+
+export const DEFAULT_MODELS: Readonly<Record<ProviderOperation, string>> = {
+    segment: 'gemini-2.5-flash-image-preview',
+    inpaint: 'gemini-2.5-flash-image-preview',
+    describe: 'gemini-2.5-flash',
+    compose: 'gemini-2.5-flash-image-preview',
+};
+
+// Models offered in the settings panel; any other model name can still be typed in
+export const MODEL_SUGGESTIONS: Readonly<Record<ProviderOperation, string[]>> = {
+    segment: ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'],
+    inpaint: ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'],
+    describe: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro'],
+    compose: ['gemini-2.5-flash-image-preview', 'gemini-2.5-flash-image'],
+};
+
+export const WORKING_RESOLUTIONS = [512, 768, 1024, 1536, 2048];
+export const MAX_CANDIDATE_COUNT = 4;
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    apiKey: '',
+    models: { ...DEFAULT_MODELS },
+    temperature: null,
+    candidateCount: 1,
+    workingResolution: 1024,
+    promptVersions: {},
+};
+
+const listeners = new Set<() => void>();
+
+// Helper to fill in missing or invalid fields of stored settings with the defaults
+const normalizeSettings = (stored: Partial<AppSettings>): AppSettings => ({
+    apiKey: typeof stored.apiKey === 'string' ? stored.apiKey.trim() : DEFAULT_SETTINGS.apiKey,
+    models: (Object.keys(DEFAULT_MODELS) as ProviderOperation[]).reduce((models, operation) => {
+        const model = stored.models?.[operation];
+        models[operation] = typeof model === 'string' && model.trim() ? model.trim() : DEFAULT_MODELS[operation];
+        return models;
+    }, {} as Record<ProviderOperation, string>),
+    temperature: typeof stored.temperature === 'number' && stored.temperature >= 0 && stored.temperature <= 2
+        ? stored.temperature
+        : null,
+    candidateCount: typeof stored.candidateCount === 'number'
+        ? Math.min(MAX_CANDIDATE_COUNT, Math.max(1, Math.round(stored.candidateCount)))
+        : DEFAULT_SETTINGS.candidateCount,
+    workingResolution: WORKING_RESOLUTIONS.includes(stored.workingResolution as number)
+        ? stored.workingResolution as number
+        : DEFAULT_SETTINGS.workingResolution,
+    promptVersions: typeof stored.promptVersions === 'object' && stored.promptVersions !== null
+        ? Object.fromEntries(Object.entries(stored.promptVersions).filter(([, version]) => typeof version === 'string' && version))
+        : {},
+});
+
+export const getSettings = (): AppSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return normalizeSettings(stored ? JSON.parse(stored) : {});
+    } catch {
+        return normalizeSettings({});
+    }
+};
+
+/**
+ * Stores the settings and notifies subscribers. Invalid values fall back to their defaults.
+ */
+export const saveSettings = (settings: AppSettings): void => {
+    try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(normalizeSettings(settings)));
+    } catch (err) {
+        console.warn('Could not store settings.', err);
+    }
+    console.log('Settings saved.');
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Calls the listener whenever the settings change. Returns an unsubscribe function.
+ */
+export const subscribeToSettings = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
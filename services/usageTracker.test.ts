@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// @vitest-environment jsdom
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkBudget, estimateTokenCost, getTodaysSpend, getUsageRecords, recordUsage, setBudgetSettings } from './usageTracker';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper to record a describe call on gemini-2.5-flash ($2.50 per million output tokens) costing the given amount
+const spend = (costUsd: number) => recordUsage({
+    timestamp: Date.now(),
+    model: 'gemini-2.5-flash',
+    operation: 'describe',
+    inputTokens: 0,
+    outputTokens: costUsd / 2.5 * 1_000_000,
+    inputImages: 0,
+    outputImages: 0,
+    latencyMs: 100,
+});
+
+describe('checkBudget', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(2025, 5, 30, 12));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('allows everything when no cap is set', () => {
+        spend(100);
+        expect(checkBudget(50)).toEqual({ status: 'ok' });
+    });
+
+    it('warns when an operation would pass the soft cap', () => {
+        setBudgetSettings({ softLimitUsd: 2, hardLimitUsd: null });
+        spend(1.5);
+
+        expect(checkBudget(0.25)).toEqual({ status: 'ok' });
+        expect(checkBudget(1)).toEqual({ status: 'warn', spentUsd: 1.5, estimatedUsd: 1, limitUsd: 2 });
+    });
+
+    it('blocks an operation that would pass the hard cap, even when it also passes the soft cap', () => {
+        setBudgetSettings({ softLimitUsd: 1, hardLimitUsd: 2 });
+        spend(1.5);
+
+        expect(checkBudget(1)).toEqual({ status: 'block', spentUsd: 1.5, estimatedUsd: 1, limitUsd: 2 });
+    });
+
+    it('allows an operation that reaches a cap exactly', () => {
+        setBudgetSettings({ softLimitUsd: null, hardLimitUsd: 2 });
+        spend(1.5);
+
+        expect(checkBudget(0.5)).toEqual({ status: 'ok' });
+    });
+
+    it('always allows free operations', () => {
+        setBudgetSettings({ softLimitUsd: 1, hardLimitUsd: 1 });
+        spend(5);
+
+        expect(checkBudget(0)).toEqual({ status: 'ok' });
+    });
+
+    it('counts only what was spent today', () => {
+        setBudgetSettings({ softLimitUsd: null, hardLimitUsd: 2 });
+        spend(1.5);
+        vi.setSystemTime(Date.now() + DAY_MS);
+
+        expect(getTodaysSpend()).toBe(0);
+        expect(checkBudget(1)).toEqual({ status: 'ok' });
+    });
+});
+
+describe('recordUsage', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('charges models without a known price at the highest known prices', () => {
+        expect(estimateTokenCost('gemini-2.5-flash', 1_000_000, 1_000_000)).toBeCloseTo(2.8);
+        expect(estimateTokenCost('my-custom-model', 1_000_000, 1_000_000)).toBeCloseTo(31.25);
+    });
+
+    it('drops records older than the retention period', () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date(2025, 0, 1));
+        spend(1);
+        vi.setSystemTime(Date.now() + 91 * DAY_MS);
+        spend(2);
+
+        expect(getUsageRecords().map(record => record.costUsd)).toEqual([2]);
+    });
+});
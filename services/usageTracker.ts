@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ProviderOperation } from './imageProvider';
+
+/**
+ * Model usage is recorded per call and kept in localStorage so daily totals survive reloads.
+ * Costs are estimates from the published per-token prices below, not billing data.
+ */
+const USAGE_KEY = 'home-canvas:usage';
+const BUDGET_KEY = 'home-canvas:budget';
+const USAGE_RETENTION_DAYS = 90;
+
+// USD per million tokens. Images are billed as tokens too (about 1290 per generated 1024px image).
+const MODEL_PRICING: Record<string, { input: number; output: number; }> = {
+    'gemini-2.5-flash-image-preview': { input: 0.30, output: 30.00 },
+    'gemini-2.5-flash-image': { input: 0.30, output: 30.00 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+    // The offline mock provider's stand-ins
+    'mock-color-key': { input: 0, output: 0 },
+    'mock-border-fill': { input: 0, output: 0 },
+    'mock-marker-locator': { input: 0, output: 0 },
+    'mock-alpha-blend': { input: 0, output: 0 },
+};
+
+// Models without a known price are charged the highest known input and output prices,
+// so a model typed into Settings can't get past the budget caps as free
+const UNKNOWN_MODEL_PRICING = {
+    input: Math.max(...Object.values(MODEL_PRICING).map(pricing => pricing.input)),
+    output: Math.max(...Object.values(MODEL_PRICING).map(pricing => pricing.output)),
+};
+const warnedUnpricedModels = new Set<string>();
+
+// Typical token counts used to estimate an operation before it runs
+export const ESTIMATED_IMAGE_TOKENS = 1290;
+
+export interface UsageRecord {
+    timestamp: number;
+    model: string;
+    operation: ProviderOperation;
+    inputTokens: number;
+    outputTokens: number;
+    inputImages: number;
+    outputImages: number;
+    latencyMs: number;
+    costUsd: number;
+}
+
+export interface UsageSummary {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    inputImages: number;
+    outputImages: number;
+    totalLatencyMs: number;
+    costUsd: number;
+}
+
+/**
+ * Daily spending caps in USD. Going over the soft cap asks for confirmation; the hard cap blocks.
+ * Null disables a cap.
+ */
+export interface BudgetSettings {
+    softLimitUsd: number | null;
+    hardLimitUsd: number | null;
+}
+
+export type BudgetCheck =
+    | { status: 'ok'; }
+    | { status: 'warn' | 'block'; spentUsd: number; estimatedUsd: number; limitUsd: number; };
+
+const DEFAULT_BUDGET: BudgetSettings = { softLimitUsd: null, hardLimitUsd: null };
+
+// Everything recorded since this timestamp belongs to the current session
+export const sessionStartedAt = Date.now();
+
+const listeners = new Set<() => void>();
+
+/**
+ * Whether the model has a published price here. Other models are estimated at the highest known prices.
+ */
+export const hasKnownPricing = (model: string): boolean => model in MODEL_PRICING;
+
+export const estimateTokenCost = (model: string, inputTokens: number, outputTokens: number): number => {
+    let pricing = MODEL_PRICING[model];
+    if (!pricing) {
+        if (!warnedUnpricedModels.has(model)) {
+            warnedUnpricedModels.add(model);
+            console.warn(`No price is known for ${model}; estimating its cost at the highest known prices.`);
+        }
+        pricing = UNKNOWN_MODEL_PRICING;
+    }
+    return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+export const getUsageRecords = (): UsageRecord[] => {
+    try {
+        const stored = localStorage.getItem(USAGE_KEY);
+        return stored ? JSON.parse(stored) as UsageRecord[] : [];
+    } catch {
+        return [];
+    }
+};
+
+const saveUsageRecords = (records: UsageRecord[]) => {
+    try {
+        localStorage.setItem(USAGE_KEY, JSON.stringify(records));
+    } catch (err) {
+        console.warn('Could not store usage records.', err);
+    }
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Records one model call and notifies subscribers. Records older than the retention period are dropped.
+ */
+export const recordUsage = (record: Omit<UsageRecord, 'costUsd'>): void => {
+    const costUsd = estimateTokenCost(record.model, record.inputTokens, record.outputTokens);
+    console.log(`Usage: ${record.operation} on ${record.model}, ${record.inputTokens} in / ${record.outputTokens} out tokens, ~$${costUsd.toFixed(4)}.`);
+    const cutoff = Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    saveUsageRecords([...getUsageRecords().filter(r => r.timestamp >= cutoff), { ...record, costUsd }]);
+};
+
+export const clearUsageRecords = (): void => saveUsageRecords([]);
+
+/**
+ * Calls the listener whenever usage or budget settings change. Returns an unsubscribe function.
+ */
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => records.reduce((summary, record) => ({
+    calls: summary.calls + 1,
+    inputTokens: summary.inputTokens + record.inputTokens,
+    outputTokens: summary.outputTokens + record.outputTokens,
+    inputImages: summary.inputImages + record.inputImages,
+    outputImages: summary.outputImages + record.outputImages,
+    totalLatencyMs: summary.totalLatencyMs + record.latencyMs,
+    costUsd: summary.costUsd + record.costUsd,
+}), { calls: 0, inputTokens: 0, outputTokens: 0, inputImages: 0, outputImages: 0, totalLatencyMs: 0, costUsd: 0 });
+
+// Local calendar day of a timestamp, e.g. "2025-06-30"
+export const toDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const getTodaysSpend = (): number => {
+    const today = toDayKey(Date.now());
+    return summarizeUsage(getUsageRecords().filter(record => toDayKey(record.timestamp) === today)).costUsd;
+};
+
+export const getBudgetSettings = (): BudgetSettings => {
+    try {
+        const stored = localStorage.getItem(BUDGET_KEY);
+        return stored ? { ...DEFAULT_BUDGET, ...JSON.parse(stored) } : DEFAULT_BUDGET;
+    } catch {
+        return DEFAULT_BUDGET;
+    }
+};
+
+export const setBudgetSettings = (settings: BudgetSettings): void => {
+    try {
+        localStorage.setItem(BUDGET_KEY, JSON.stringify(settings));
+    } catch (err) {
+        console.warn('Could not store budget settings.', err);
+    }
+    listeners.forEach(listener => listener());
+};
+
+/**
+ * Checks whether an operation with the given estimated cost fits today's budget.
+ * The hard cap is checked first, so an operation over both caps is blocked.
+ */
+export const checkBudget = (estimatedUsd: number): BudgetCheck => {
+    // Free operations (e.g. the offline mock) never count against the budget
+    if (estimatedUsd <= 0) return { status: 'ok' };
+    const { softLimitUsd, hardLimitUsd } = getBudgetSettings();
+    const spentUsd = getTodaysSpend();
+    if (hardLimitUsd !== null && spentUsd + estimatedUsd > hardLimitUsd) {
+        return { status: 'block', spentUsd, estimatedUsd, limitUsd: hardLimitUsd };
+    }
+    if (softLimitUsd !== null && spentUsd + estimatedUsd > softLimitUsd) {
+        return { status: 'warn', spentUsd, estimatedUsd, limitUsd: softLimitUsd };
+    }
+    return { status: 'ok' };
+};
@@ -3,10 +3,21 @@ import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Production builds talk to the proxy server and must never contain the API key
+    const useProxy = mode === 'production' || env.USE_API_PROXY === 'true';
+    const apiKey = useProxy ? '' : env.GEMINI_API_KEY;
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.MOCK_AI': JSON.stringify(env.MOCK_AI ?? ''),
+        'process.env.USE_API_PROXY': JSON.stringify(useProxy ? 'true' : ''),
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL ?? '')
+      },
+      server: {
+        proxy: {
+          '/api': `http://localhost:${env.PORT || 8787}`
+        }
       },
       resolve: {
         alias: {